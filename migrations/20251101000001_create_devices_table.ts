@@ -0,0 +1,58 @@
+import type { Knex } from 'knex';
+
+/**
+ * Create devices table and attach heartbeats and downtime events to a device
+ * Existing data is assigned to a "default" device authenticated with API_SECRET.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('devices', (table) => {
+        table.increments('id').primary();
+        table.string('name', 50).notNullable().unique();
+        table.string('label', 100).nullable();
+        table.string('secret', 255).nullable().comment('HMAC secret, null uses API_SECRET');
+        table.integer('heartbeat_timeout').nullable().comment('Timeout in milliseconds');
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+    });
+
+    const [defaultDeviceId] = await knex('devices').insert({ name: 'default', label: null });
+
+    for (const tableName of ['heartbeats', 'downtime_events']) {
+        await knex.schema.alterTable(tableName, (table) => {
+            table.integer('device_id').unsigned().nullable();
+        });
+
+        await knex(tableName).update({ device_id: defaultDeviceId });
+
+        await knex.schema.alterTable(tableName, (table) => {
+            table.integer('device_id').unsigned().notNullable().alter();
+            table.foreign('device_id').references('devices.id');
+        });
+    }
+
+    await knex.schema.alterTable('heartbeats', (table) => {
+        table.index(['device_id', 'timestamp']);
+    });
+
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.index(['device_id', 'is_active']);
+    });
+}
+
+/**
+ * Detach heartbeats and downtime events from devices and drop devices table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropForeign(['device_id']);
+        table.dropIndex(['device_id', 'is_active']);
+        table.dropColumn('device_id');
+    });
+
+    await knex.schema.alterTable('heartbeats', (table) => {
+        table.dropForeign(['device_id']);
+        table.dropIndex(['device_id', 'timestamp']);
+        table.dropColumn('device_id');
+    });
+
+    await knex.schema.dropTableIfExists('devices');
+}
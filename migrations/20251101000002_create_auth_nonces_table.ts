@@ -0,0 +1,23 @@
+import type { Knex } from 'knex';
+
+/**
+ * Create auth_nonces table used to reject replayed requests
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('auth_nonces', (table) => {
+        table.increments('id').primary();
+        table.string('device', 50).notNullable();
+        table.string('nonce', 128).notNullable();
+        table.integer('timestamp').unsigned().notNullable().comment('Signature timestamp');
+        table.timestamp('expires_at').notNullable();
+        table.unique(['device', 'nonce']);
+        table.index(['expires_at']);
+    });
+}
+
+/**
+ * Drop auth_nonces table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('auth_nonces');
+}
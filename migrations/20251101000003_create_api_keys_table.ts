@@ -0,0 +1,51 @@
+import type { Knex } from 'knex';
+
+/**
+ * Create api_keys table and move device secrets into it
+ * Each existing device secret becomes a key whose ID is the device name.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('api_keys', (table) => {
+        table.increments('id').primary();
+        table.string('key_id', 64).notNullable().unique();
+        table.integer('device_id').unsigned().notNullable();
+        table.string('secret', 255).notNullable();
+        table.timestamp('not_before').nullable();
+        table.timestamp('expires_at').nullable();
+        table.boolean('deprecated').notNullable().defaultTo(false);
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+        table.foreign('device_id').references('devices.id');
+        table.index(['device_id']);
+    });
+
+    const devices = await knex('devices').whereNotNull('secret').select('id', 'name', 'secret');
+
+    for (const device of devices) {
+        await knex('api_keys').insert({
+            key_id: device.name,
+            device_id: device.id,
+            secret: device.secret,
+        });
+    }
+
+    await knex.schema.alterTable('devices', (table) => {
+        table.dropColumn('secret');
+    });
+}
+
+/**
+ * Move the most recent key of each device back to devices and drop api_keys table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('devices', (table) => {
+        table.string('secret', 255).nullable().comment('HMAC secret, null uses API_SECRET');
+    });
+
+    const keys = await knex('api_keys').orderBy('id', 'asc').select('device_id', 'secret');
+
+    for (const key of keys) {
+        await knex('devices').where('id', key.device_id).update({ secret: key.secret });
+    }
+
+    await knex.schema.dropTableIfExists('api_keys');
+}
@@ -0,0 +1,26 @@
+import type { Knex } from 'knex';
+
+/**
+ * Add scopes to api_keys
+ * Existing keys keep every scope, new keys are ingest-only unless stated otherwise.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('api_keys', (table) => {
+        table
+            .string('scopes', 100)
+            .notNullable()
+            .defaultTo('ingest')
+            .comment('Comma-separated list of ingest, read, admin');
+    });
+
+    await knex('api_keys').update({ scopes: 'ingest,read,admin' });
+}
+
+/**
+ * Remove scopes from api_keys
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('api_keys', (table) => {
+        table.dropColumn('scopes');
+    });
+}
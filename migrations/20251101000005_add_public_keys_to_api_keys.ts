@@ -0,0 +1,30 @@
+import type { Knex } from 'knex';
+
+/**
+ * Add the signature algorithm of API keys
+ * Ed25519 keys only store the public key of the agent, so their secret becomes optional.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('api_keys', (table) => {
+        table
+            .string('algorithm', 20)
+            .notNullable()
+            .defaultTo('hmac-sha256')
+            .comment('hmac-sha256 or ed25519');
+        table.text('public_key').nullable().comment('PEM encoded Ed25519 public key');
+        table.string('secret', 255).nullable().alter();
+    });
+}
+
+/**
+ * Delete Ed25519 keys and remove the algorithm and public_key columns
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex('api_keys').where('algorithm', '<>', 'hmac-sha256').delete();
+
+    await knex.schema.alterTable('api_keys', (table) => {
+        table.string('secret', 255).notNullable().alter();
+        table.dropColumn('public_key');
+        table.dropColumn('algorithm');
+    });
+}
@@ -0,0 +1,21 @@
+import type { Knex } from 'knex';
+
+/**
+ * Add clock_drift to heartbeats
+ * Drift between the reception time and the timestamp sent by the agent, in milliseconds.
+ * Heartbeats replayed in batches are delivered late on purpose, so their drift is null.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('heartbeats', (table) => {
+        table.integer('clock_drift').nullable().comment('received_at - timestamp, in ms');
+    });
+}
+
+/**
+ * Remove clock_drift from heartbeats
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('heartbeats', (table) => {
+        table.dropColumn('clock_drift');
+    });
+}
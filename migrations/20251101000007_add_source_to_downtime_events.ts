@@ -0,0 +1,24 @@
+import type { Knex } from 'knex';
+
+/**
+ * Add source to downtime_events
+ * Tells whether a downtime was detected from missing heartbeats or reported by the agent.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table
+            .string('source', 20)
+            .notNullable()
+            .defaultTo('heartbeat_silence')
+            .comment('heartbeat_silence or reported_down');
+    });
+}
+
+/**
+ * Remove source from downtime_events
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropColumn('source');
+    });
+}
@@ -0,0 +1,20 @@
+import type { Knex } from 'knex';
+
+/**
+ * Add cause to downtime_events
+ * Probable cause classified from the heartbeats around the downtime.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.string('cause', 30).nullable();
+    });
+}
+
+/**
+ * Remove cause from downtime_events
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropColumn('cause');
+    });
+}
@@ -0,0 +1,36 @@
+import type { Knex } from 'knex';
+
+/**
+ * Create incidents table and link downtime_events to it
+ * An incident groups the downtime events of a flapping line.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('incidents', (table) => {
+        table.increments('id').primary();
+        table.integer('device_id').unsigned().notNullable();
+        table.timestamp('started_at').notNullable();
+        table.timestamp('ended_at').nullable();
+        table.boolean('is_active').notNullable().defaultTo(true);
+        table.foreign('device_id').references('devices.id');
+        table.index(['device_id', 'is_active']);
+    });
+
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.integer('incident_id').unsigned().nullable();
+        table.foreign('incident_id').references('incidents.id');
+        table.index(['incident_id']);
+    });
+}
+
+/**
+ * Unlink downtime_events and drop incidents table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropForeign(['incident_id']);
+        table.dropIndex(['incident_id']);
+        table.dropColumn('incident_id');
+    });
+
+    await knex.schema.dropTableIfExists('incidents');
+}
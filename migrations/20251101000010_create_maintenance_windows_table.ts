@@ -0,0 +1,36 @@
+import type { Knex } from 'knex';
+
+/**
+ * Create maintenance_windows table and add planned to downtime_events
+ * Downtimes starting during a maintenance window are planned: they are recorded but not
+ * alerted on nor counted in availability.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('maintenance_windows', (table) => {
+        table.increments('id').primary();
+        table.integer('device_id').unsigned().nullable().comment('null applies to every device');
+        table.string('reason', 255).nullable();
+        table.timestamp('starts_at').nullable().comment('Start of a one-off window');
+        table.timestamp('ends_at').nullable().comment('End of a one-off window');
+        table.string('recurrence', 100).nullable().comment('Cron expression of a recurring window');
+        table.integer('duration').nullable().comment('Duration of a recurring window in seconds');
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+        table.foreign('device_id').references('devices.id');
+        table.index(['device_id']);
+    });
+
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.boolean('planned').notNullable().defaultTo(false);
+    });
+}
+
+/**
+ * Remove planned from downtime_events and drop maintenance_windows table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropColumn('planned');
+    });
+
+    await knex.schema.dropTableIfExists('maintenance_windows');
+}
@@ -0,0 +1,45 @@
+import type { Knex } from 'knex';
+
+/**
+ * Add notification state to downtime_events
+ * Records when each alert of a downtime was sent, so that restarts neither repeat nor drop
+ * alerts. Downtimes still open were alerted on detection, and confirmed once older than
+ * DOWNTIME_CONFIRMATION_DELAY, before the state was recorded.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.timestamp('alert_sent_at').nullable();
+        table.timestamp('confirmation_sent_at').nullable();
+        table.timestamp('recovery_sent_at').nullable();
+    });
+
+    // Ended downtimes got their recovery alert already and are left without state
+    const confirmationDelayMs = Number.parseInt(
+        process.env.DOWNTIME_CONFIRMATION_DELAY ?? '1800000',
+        10
+    );
+    const alerted = () =>
+        knex('downtime_events')
+            .where('is_active', true)
+            .andWhere('planned', false)
+            .whereNull('incident_id');
+
+    await alerted().update({ alert_sent_at: knex.ref('started_at') });
+
+    if (!Number.isNaN(confirmationDelayMs)) {
+        await alerted()
+            .andWhere('started_at', '<=', new Date(Date.now() - confirmationDelayMs))
+            .update({ confirmation_sent_at: knex.fn.now() });
+    }
+}
+
+/**
+ * Remove notification state from downtime_events
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropColumn('alert_sent_at');
+        table.dropColumn('confirmation_sent_at');
+        table.dropColumn('recovery_sent_at');
+    });
+}
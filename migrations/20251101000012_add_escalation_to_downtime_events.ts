@@ -0,0 +1,43 @@
+import type { Knex } from 'knex';
+
+/**
+ * Replace confirmation_sent_at with the escalation state of downtime_events
+ * A sent confirmation becomes the first escalation alert.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table
+            .integer('escalation_count')
+            .unsigned()
+            .notNullable()
+            .defaultTo(0)
+            .comment('Escalation alerts sent, stages and reminders included');
+        table.timestamp('escalated_at').nullable().comment('When the last escalation was sent');
+    });
+
+    await knex('downtime_events')
+        .whereNotNull('confirmation_sent_at')
+        .update({ escalation_count: 1, escalated_at: knex.ref('confirmation_sent_at') });
+
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropColumn('confirmation_sent_at');
+    });
+}
+
+/**
+ * Restore confirmation_sent_at from the last escalation
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.timestamp('confirmation_sent_at').nullable();
+    });
+
+    await knex('downtime_events')
+        .where('escalation_count', '>', 0)
+        .update({ confirmation_sent_at: knex.ref('escalated_at') });
+
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropColumn('escalation_count');
+        table.dropColumn('escalated_at');
+    });
+}
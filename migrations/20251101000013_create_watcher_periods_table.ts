@@ -0,0 +1,35 @@
+import type { Knex } from 'knex';
+
+/**
+ * Create watcher_periods table and flag unobserved downtime_events
+ * Each row is a run of the watcher, from its start to its graceful stop or inferred crash.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('watcher_periods', (table) => {
+        table.increments('id').primary();
+        table.timestamp('started_at').notNullable();
+        table.timestamp('last_seen_at').notNullable().comment('Last time the watcher was alive');
+        table.timestamp('stopped_at').nullable();
+        table.string('stop_reason', 20).nullable().comment('graceful or crash');
+        table.index(['started_at']);
+    });
+
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table
+            .boolean('unobserved')
+            .notNullable()
+            .defaultTo(false)
+            .comment('Overlaps a period during which the watcher was offline');
+    });
+}
+
+/**
+ * Drop watcher_periods table and the unobserved flag of downtime_events
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropColumn('unobserved');
+    });
+
+    await knex.schema.dropTableIfExists('watcher_periods');
+}
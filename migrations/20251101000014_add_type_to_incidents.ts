@@ -0,0 +1,27 @@
+import type { Knex } from 'knex';
+
+/**
+ * Add the type of incidents
+ * Existing incidents group the downtime events of a flapping line, degraded incidents track
+ * a line that is up but below its speed thresholds.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('incidents', (table) => {
+        table.string('type', 20).notNullable().defaultTo('flapping');
+        table.string('details', 255).nullable().comment('What triggered the incident');
+        table.index(['device_id', 'type', 'is_active']);
+    });
+}
+
+/**
+ * Remove degraded incidents and the type of incidents
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex('incidents').where('type', '!=', 'flapping').delete();
+
+    await knex.schema.alterTable('incidents', (table) => {
+        table.dropIndex(['device_id', 'type', 'is_active']);
+        table.dropColumn('details');
+        table.dropColumn('type');
+    });
+}
@@ -0,0 +1,27 @@
+import type { Knex } from 'knex';
+
+/**
+ * Create ip_changes table
+ * Each row is an address a device started using, the first one seen having no previous address.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('ip_changes', (table) => {
+        table.increments('id').primary();
+        table.integer('device_id').unsigned().notNullable();
+        table.string('family', 10).notNullable().comment('ipv4, or ipv6 for the /64 prefix');
+        table.string('previous_address', 64).nullable();
+        table.string('address', 64).notNullable();
+        table.timestamp('changed_at').notNullable().comment('Heartbeat reporting the new address');
+        table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+        table.foreign('device_id').references('devices.id');
+        table.index(['device_id', 'family', 'changed_at']);
+        table.index(['changed_at']);
+    });
+}
+
+/**
+ * Drop ip_changes table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('ip_changes');
+}
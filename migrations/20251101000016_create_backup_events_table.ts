@@ -0,0 +1,30 @@
+import type { Knex } from 'knex';
+
+/**
+ * Create backup_events table
+ * Each row is a period during which a device was connected over its backup link.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('backup_events', (table) => {
+        table.increments('id').primary();
+        table.integer('device_id').unsigned().notNullable();
+        table.timestamp('started_at').notNullable();
+        table.timestamp('ended_at').nullable();
+        table.integer('duration').nullable().comment('Duration in seconds');
+        table.boolean('is_active').notNullable().defaultTo(true);
+        table.string('media', 50).nullable().comment('Backup media_state or connection_type');
+        table.bigInteger('bytes_down').nullable().comment('Bytes received over the backup link');
+        table.bigInteger('bytes_up').nullable().comment('Bytes sent over the backup link');
+        table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+        table.foreign('device_id').references('devices.id');
+        table.index(['device_id', 'is_active']);
+        table.index(['started_at']);
+    });
+}
+
+/**
+ * Drop backup_events table
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTableIfExists('backup_events');
+}
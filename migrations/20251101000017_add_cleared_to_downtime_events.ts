@@ -0,0 +1,30 @@
+import type { Knex } from 'knex';
+
+/**
+ * Add cleared flag to downtime_events
+ * Cleared downtimes were proved false positives by replayed heartbeats. Existing ones were
+ * closed with a zero duration and the reconciliation note.
+ */
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table
+            .boolean('cleared')
+            .notNullable()
+            .defaultTo(false)
+            .comment('False positive cleared by replayed heartbeats');
+    });
+
+    await knex('downtime_events')
+        .where('notes', 'Cleared by replayed heartbeats')
+        .andWhere('duration', 0)
+        .update({ cleared: true });
+}
+
+/**
+ * Remove cleared flag from downtime_events
+ */
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('downtime_events', (table) => {
+        table.dropColumn('cleared');
+    });
+}
@@ -0,0 +1,25 @@
+import type { Knex } from 'knex';
+
+/**
+ * Backdate devices to their first heartbeat
+ * The default device was created by the migration introducing devices, after the heartbeats
+ * it was given, so that its heartbeat statistics would start at the upgrade.
+ */
+export async function up(knex: Knex): Promise<void> {
+    const firstHeartbeats: Array<{ device_id: number; first: Date }> = await knex('heartbeats')
+        .select('device_id')
+        .min({ first: 'timestamp' })
+        .groupBy('device_id');
+
+    for (const { device_id, first } of firstHeartbeats) {
+        await knex('devices')
+            .where('id', device_id)
+            .andWhere('created_at', '>', first)
+            .update({ created_at: first });
+    }
+}
+
+/**
+ * The previous creation dates are not kept, devices stay backdated
+ */
+export async function down(): Promise<void> {}
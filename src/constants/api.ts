@@ -1 +1,21 @@
 export const API_PREFIX = '/api';
+
+/**
+ * Rate limit of the routes reading or managing monitoring data, per IP address
+ */
+export const RATE_LIMIT = { max: 60, timeWindow: '1 minute' };
+
+/**
+ * Stricter rate limit of the heartbeat ingestion routes, per IP address
+ */
+export const INGEST_RATE_LIMIT = { max: 5, timeWindow: '1 minute' };
+
+/**
+ * Scopes a credential can be granted
+ * - ingest: post heartbeats
+ * - read: query heartbeats, downtime events and statistics
+ * - admin: manage monitoring data and credentials
+ */
+export const AUTH_SCOPES = ['ingest', 'read', 'admin'] as const;
+
+export type AuthScope = (typeof AUTH_SCOPES)[number];
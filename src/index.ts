@@ -3,12 +3,25 @@ import Fastify, { type FastifyInstance } from 'fastify';
 import rateLimit from '@fastify/rate-limit';
 import { testConnection, closeConnection } from './db/config.js';
 import { heartbeatRoutes } from './routes/heartbeat.js';
+import { downtimeRoutes } from './routes/downtime.js';
+import { statsRoutes } from './routes/stats.js';
+import { adminRoutes } from './routes/admin.js';
+import { timeRoutes } from './routes/time.js';
+import { ipHistoryRoutes } from './routes/ipHistory.js';
 import { NotificationService } from './services/notification.js';
 import { DowntimeMonitor } from './services/downtimeMonitor.js';
+import { ClockDriftMonitor } from './services/clockDrift.js';
+import { DegradationMonitor } from './services/degradation.js';
+import { IpChangeMonitor } from './services/ipChangeMonitor.js';
+import { BackupMonitor } from './services/backupMonitor.js';
 import { HeartbeatService } from './services/heartbeat.js';
 import { DailyChartService } from './services/dailyChart.js';
+import { ReconciliationJob } from './services/reconciliationJob.js';
+import nonceService from './services/nonce.js';
+import watcherService from './services/watcher.js';
+import { parseScopes } from './services/apiKey.js';
 import { getLoggerOptions } from './utils/logger.js';
-import { API_PREFIX } from './constants/api.js';
+import { API_PREFIX, AUTH_SCOPES, RATE_LIMIT } from './constants/api.js';
 
 /**
  * Create Fastify instance with logger configuration
@@ -19,11 +32,10 @@ const fastify: FastifyInstance = Fastify({
 });
 
 /**
- * Register rate limiting (5 requests per minute)
+ * Register rate limiting (60 requests per minute, 5 on the ingestion routes)
  */
 await fastify.register(rateLimit, {
-    max: 5,
-    timeWindow: '1 minute',
+    ...RATE_LIMIT,
     errorResponseBuilder: () => ({
         error: 'Too Many Requests',
         message: 'Rate limit exceeded',
@@ -42,25 +54,40 @@ await import('./middleware/rawBodyCapture.js').then(({ registerRawBodyCapture })
  */
 const notificationService = new NotificationService(fastify.log);
 const downtimeMonitor = new DowntimeMonitor(fastify.log, notificationService);
+const clockDriftMonitor = new ClockDriftMonitor(fastify.log, notificationService);
+const degradationMonitor = new DegradationMonitor(fastify.log, notificationService);
+const ipChangeMonitor = new IpChangeMonitor(fastify.log, notificationService);
+const backupMonitor = new BackupMonitor(fastify.log, notificationService);
 const heartbeatService = new HeartbeatService();
 const dailyChartService = new DailyChartService(
     heartbeatService,
     process.env.DISCORD_WEBHOOK_URL,
     process.env.CRON_SCHEDULE
 );
+const reconciliationJob = new ReconciliationJob(fastify.log);
 
 /**
  * Decorate fastify instance with services
  */
 fastify.decorate('notificationService', notificationService);
 fastify.decorate('downtimeMonitor', downtimeMonitor);
+fastify.decorate('clockDriftMonitor', clockDriftMonitor);
+fastify.decorate('degradationMonitor', degradationMonitor);
+fastify.decorate('ipChangeMonitor', ipChangeMonitor);
+fastify.decorate('backupMonitor', backupMonitor);
 fastify.decorate('dailyChartService', dailyChartService);
+fastify.decorate('reconciliationJob', reconciliationJob);
 
 /**
  * Register routes
  */
 async function registerRoutes(): Promise<void> {
     await fastify.register(heartbeatRoutes, { prefix: API_PREFIX });
+    await fastify.register(downtimeRoutes, { prefix: API_PREFIX });
+    await fastify.register(statsRoutes, { prefix: API_PREFIX });
+    await fastify.register(adminRoutes, { prefix: API_PREFIX });
+    await fastify.register(timeRoutes, { prefix: API_PREFIX });
+    await fastify.register(ipHistoryRoutes, { prefix: API_PREFIX });
 }
 
 /**
@@ -73,6 +100,15 @@ async function start(): Promise<void> {
             throw new Error('API_SECRET environment variable is required');
         }
 
+        // Fail fast on an invalid NONCE_STORE rather than on the first request
+        nonceService.getStore();
+
+        if (process.env.API_SECRET_SCOPES && !parseScopes(process.env.API_SECRET_SCOPES)) {
+            throw new Error(
+                `Invalid API_SECRET_SCOPES, expected a list of: ${AUTH_SCOPES.join(', ')}`
+            );
+        }
+
         // Test database connection
         fastify.log.info('Testing database connection...');
         await testConnection();
@@ -89,12 +125,24 @@ async function start(): Promise<void> {
 
         fastify.log.info(`Server listening on ${host}:${port}`);
 
+        // Record the watcher start, so that its own outage is not mistaken for a downtime
+        const offlinePeriod = await watcherService.recordStart();
+        if (offlinePeriod) {
+            fastify.log.info(
+                { from: offlinePeriod.from.toISOString(), to: offlinePeriod.to?.toISOString() },
+                'Watcher was offline since its previous run'
+            );
+        }
+
         // Start downtime monitoring
         fastify.downtimeMonitor.start();
 
         // Start daily chart service
         fastify.dailyChartService.start();
 
+        // Start heartbeat gap reconciliation
+        fastify.reconciliationJob.start();
+
         // Send startup notification
         await fastify.notificationService.sendStartupNotification();
     } catch (error) {
@@ -116,7 +164,11 @@ async function shutdown(signal: string): Promise<void> {
         // Stop daily chart service
         fastify.dailyChartService.stop();
 
+        // Stop heartbeat gap reconciliation
+        fastify.reconciliationJob.stop();
+
         await fastify.close();
+        await watcherService.recordStop();
         await closeConnection();
         fastify.log.info('Server shut down successfully');
         process.exit(0);
@@ -1,6 +1,21 @@
-import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
-import { type FastifyReply, type FastifyRequest, type HookHandlerDoneFunction } from 'fastify';
-import { API_PREFIX } from '../constants/api.js';
+import {
+    createHash,
+    createHmac,
+    timingSafeEqual,
+    verify as verifySignature,
+    type KeyObject,
+} from 'node:crypto';
+import { type FastifyReply, type FastifyRequest } from 'fastify';
+import { API_PREFIX, AUTH_SCOPES, type AuthScope } from '../constants/api.js';
+import deviceService, { DEFAULT_DEVICE_NAME } from '../services/device.js';
+import apiKeyService, {
+    getApiKeyStatus,
+    parseEd25519PublicKey,
+    parseScopes,
+    type ApiKey,
+} from '../services/apiKey.js';
+import nonceService from '../services/nonce.js';
+import authLockoutService, { type AuthFailureReason } from '../services/authLockout.js';
 
 /**
  * Minimum API secret length for security
@@ -10,12 +25,17 @@ const MIN_API_SECRET_LENGTH = 32;
 /**
  * Maximum age of a request timestamp in seconds (60 seconds)
  */
-const MAX_TIMESTAMP_AGE = 60;
+export const MAX_TIMESTAMP_AGE = 60;
 
 /**
  * Maximum allowed future timestamp skew in seconds (10 seconds for clock drift)
  */
-const MAX_FUTURE_SKEW = 10;
+export const MAX_FUTURE_SKEW = 10;
+
+/**
+ * Maximum nonce length, matching the auth_nonces storage
+ */
+const MAX_NONCE_LENGTH = 128;
 
 /**
  * Computes HMAC-SHA256 signature for the given message
@@ -50,6 +70,28 @@ function validateSignature(signature: string, expectedSignature: string): boolea
     return timingSafeEqual(signatureBuffer, expectedBuffer);
 }
 
+/**
+ * Validates an Ed25519 signature of a message
+ * @param message The signed message
+ * @param signature The signature in base64url format
+ * @param publicKey The Ed25519 public key of the signer
+ * @returns true if the signature is valid, false otherwise
+ */
+function validateEd25519Signature(
+    message: string,
+    signature: string,
+    publicKey: KeyObject
+): boolean {
+    const signatureBuffer = Buffer.from(signature, 'base64url');
+
+    // Ed25519 signatures are always 64 bytes long
+    if (signatureBuffer.length !== 64) {
+        return false;
+    }
+
+    return verifySignature(null, Buffer.from(message), publicKey, signatureBuffer);
+}
+
 /**
  * Extracts the Bearer token from the Authorization header
  * Case-insensitive matching of "Bearer" scheme with support for multiple spaces
@@ -95,7 +137,7 @@ function normalizeHeader(header: string | string[] | undefined): string | undefi
 }
 
 /**
- * Builds the canonical message for HMAC signature
+ * Builds the canonical message signed by the client (HMAC or Ed25519)
  * Format: method=POST;path=/heartbeat;ts=1733144872;nonce=89af77e23a;body_sha256=...
  * @param method HTTP method (GET, POST, etc.)
  * @param path Request path
@@ -117,126 +159,452 @@ function buildCanonicalMessage(
 }
 
 /**
- * Authentication middleware using HMAC-based authentication
- *
- * Authenticates requests using HMAC-SHA256 signatures with the following headers:
- * - Authorization: Bearer <hmac_signature>
- * - Signature-Timestamp: <unix_timestamp>
- * - Signature-Nonce: <random_string>
- *
- * The HMAC signature is computed over: method=METHOD;path=PATH;ts=TIMESTAMP;nonce=NONCE;body_sha256=HASH
+ * Builds the canonical message of a signed response
+ * Format: status=200;ts=1733144873;nonce=89af77e23a;body_sha256=...
+ * @param statusCode HTTP status code of the response
+ * @param timestamp Unix timestamp of the response
+ * @param nonce Nonce of the request being answered
+ * @param body Response body as string
+ * @returns The canonical message string
  */
-export function authMiddleware(
-    request: FastifyRequest,
-    reply: FastifyReply,
-    done: HookHandlerDoneFunction
-): void {
+export function buildResponseCanonicalMessage(
+    statusCode: number,
+    timestamp: string,
+    nonce: string,
+    body: string
+): string {
+    const bodyHash = createHash('sha256').update(body).digest('base64url');
+    return `status=${statusCode};ts=${timestamp};nonce=${nonce};body_sha256=${bodyHash}`;
+}
+
+/**
+ * Key used to verify the signature of a request
+ */
+interface SigningKey {
+    deviceName: string;
+    /** Checks the signature of the canonical message with the key material */
+    verify: (message: string, signature: string) => boolean;
+    /** Signs responses with the key material, only possible with a shared secret */
+    sign: ((message: string) => string) | null;
+    /** Key ID from api_keys, or null for API_SECRET */
+    keyId: string | null;
+    deprecated: boolean;
+    scopes: AuthScope[];
+}
+
+export interface AuthOptions {
+    /** Scope the credential must have to access the route */
+    scope?: AuthScope;
+}
+
+type SigningKeyResolution =
+    | { key: SigningKey }
+    | { failure: AuthFailureReason }
+    | { statusCode: 500; error: string; message: string };
+
+/**
+ * Creates a verifier of HMAC-SHA256 signatures
+ * @param secret The shared secret
+ */
+function createHmacVerifier(secret: string): SigningKey['verify'] {
+    return (message, signature) => validateSignature(signature, computeHmac(message, secret));
+}
+
+/**
+ * Creates the verifier matching the algorithm of an API key
+ * @param apiKey The API key
+ * @returns The verifier, or the reason why the key cannot be used
+ */
+function createApiKeyVerifier(
+    apiKey: ApiKey
+): SigningKey['verify'] | { reason: AuthFailureReason } {
+    switch (apiKey.algorithm) {
+        case 'hmac-sha256':
+            // Weak secrets are rejected like any other authentication failure
+            if (!apiKey.secret || apiKey.secret.length < MIN_API_SECRET_LENGTH) {
+                return { reason: 'weak_secret' };
+            }
+            return createHmacVerifier(apiKey.secret);
+
+        case 'ed25519': {
+            const publicKey = apiKey.public_key ? parseEd25519PublicKey(apiKey.public_key) : null;
+            if (!publicKey) {
+                return { reason: 'invalid_public_key' };
+            }
+            return (message, signature) => validateEd25519Signature(message, signature, publicKey);
+        }
+
+        default:
+            return { reason: 'unsupported_algorithm' };
+    }
+}
+
+/**
+ * Builds the signing key of the default device from API_SECRET
+ * @returns The signing key, or a server error if API_SECRET is missing or too short
+ */
+function getLegacySigningKey(): SigningKeyResolution {
     const apiSecret = process.env.API_SECRET?.trim();
 
     // Validate API secret configuration
     if (!apiSecret || apiSecret.length === 0) {
-        void reply.code(500).send({
+        return {
+            statusCode: 500,
             error: 'Internal Server Error',
             message: 'API secret not configured',
-        });
-        return;
+        };
     }
 
     // Validate API secret meets minimum security requirements
     if (apiSecret.length < MIN_API_SECRET_LENGTH) {
-        void reply.code(500).send({
+        return {
+            statusCode: 500,
             error: 'Internal Server Error',
             message: `API secret must be at least ${MIN_API_SECRET_LENGTH} characters`,
-        });
-        return;
+        };
     }
 
-    // Extract required headers
-    const authHeader = normalizeHeader(
-        request.headers.authorization as string | string[] | undefined
-    );
-    const timestampHeader = normalizeHeader(
-        request.headers['signature-timestamp'] as string | string[] | undefined
-    );
-    const nonceHeader = normalizeHeader(
-        request.headers['signature-nonce'] as string | string[] | undefined
-    );
+    const scopes = parseScopes(process.env.API_SECRET_SCOPES ?? AUTH_SCOPES.join(','));
+    if (scopes === null) {
+        return {
+            statusCode: 500,
+            error: 'Internal Server Error',
+            message: 'Invalid API_SECRET_SCOPES',
+        };
+    }
 
-    // Validate header types (reject if arrays - multiple values sent)
-    if (
-        typeof authHeader !== 'string' ||
-        typeof timestampHeader !== 'string' ||
-        typeof nonceHeader !== 'string'
-    ) {
-        void reply.code(401).send({
-            error: 'Unauthorized',
-            message: 'Authentication failed',
-        });
-        return;
+    return {
+        key: {
+            deviceName: DEFAULT_DEVICE_NAME,
+            verify: createHmacVerifier(apiSecret),
+            sign: (message) => computeHmac(message, apiSecret),
+            keyId: null,
+            deprecated: false,
+            scopes,
+        },
+    };
+}
+
+/**
+ * Resolves the key a request claims to be signed with
+ *
+ * - Signature-Key-Id selects a key from api_keys; Signature-Device, if also sent, must be
+ *   the device owning the key
+ * - Signature-Device alone selects the key whose ID is the device name, the default device
+ *   falling back to API_SECRET when it has no such key
+ * - Without either header the request is signed with API_SECRET by the default device
+ */
+async function resolveSigningKey(request: FastifyRequest): Promise<SigningKeyResolution> {
+    const keyIdHeader = request.headers['signature-key-id'] as string | string[] | undefined;
+    const deviceHeader = request.headers['signature-device'] as string | string[] | undefined;
+
+    if (keyIdHeader === undefined && deviceHeader === undefined) {
+        return getLegacySigningKey();
     }
 
-    // Extract signature from Authorization header
-    const signature = extractBearerToken(authHeader);
+    const unauthorized = (failure: AuthFailureReason): SigningKeyResolution => ({ failure });
 
-    // Validate all required components are present
-    if (!signature || !timestampHeader || !nonceHeader) {
-        void reply.code(401).send({
-            error: 'Unauthorized',
-            message: 'Authentication failed',
-        });
-        return;
+    const requestedDevice =
+        deviceHeader !== undefined ? normalizeHeader(deviceHeader)?.trim() : undefined;
+    const keyId =
+        keyIdHeader !== undefined ? normalizeHeader(keyIdHeader)?.trim() : requestedDevice;
+
+    if (!keyId || (deviceHeader !== undefined && !requestedDevice)) {
+        return unauthorized('invalid_key_header');
     }
 
-    // Parse and validate timestamp
-    const timestamp = Number.parseInt(timestampHeader, 10);
-    if (Number.isNaN(timestamp) || !isValidTimestamp(timestamp)) {
-        void reply.code(401).send({
-            error: 'Unauthorized',
-            message: 'Authentication failed',
-        });
-        return;
+    const apiKey = await apiKeyService.getApiKeyByKeyId(keyId);
+
+    if (!apiKey) {
+        if (keyIdHeader === undefined && requestedDevice === DEFAULT_DEVICE_NAME) {
+            return getLegacySigningKey();
+        }
+        return unauthorized('unknown_key');
     }
 
-    // Validate nonce (must be non-empty)
-    if (nonceHeader.trim().length === 0) {
-        void reply.code(401).send({
-            error: 'Unauthorized',
-            message: 'Authentication failed',
-        });
-        return;
-    }
-
-    // Get raw request body (captured by preParsing hook) or empty string for GET requests
-    // Using raw body ensures consistent HMAC signatures regardless of JSON property order
-    const bodyString = request.rawBody || '';
-
-    // Build canonical message
-    // Strip known API prefix to keep signatures stable even when the server is mounted under a base path
-    const pathWithoutPrefix = request.url.startsWith(API_PREFIX)
-        ? request.url.substring(API_PREFIX.length)
-        : request.url;
-    const canonicalPath = pathWithoutPrefix || '/';
-
-    const canonicalMessage = buildCanonicalMessage(
-        request.method,
-        canonicalPath,
-        timestampHeader,
-        nonceHeader,
-        bodyString
-    );
+    const device = await deviceService.getDeviceById(apiKey.device_id);
 
-    // Compute expected HMAC signature
-    const expectedSignature = computeHmac(canonicalMessage, apiSecret);
+    if (!device || (requestedDevice !== undefined && requestedDevice !== device.name)) {
+        return unauthorized('device_mismatch');
+    }
 
-    // Validate signature using constant-time comparison
-    if (!validateSignature(signature, expectedSignature)) {
-        void reply.code(401).send({
-            error: 'Unauthorized',
-            message: 'Authentication failed',
+    const status = getApiKeyStatus(apiKey);
+
+    if (status === 'not_yet_valid' || status === 'expired') {
+        return unauthorized(status === 'expired' ? 'key_expired' : 'key_not_yet_valid');
+    }
+
+    const verify = createApiKeyVerifier(apiKey);
+
+    if (typeof verify !== 'function') {
+        return unauthorized(verify.reason);
+    }
+
+    const secret = apiKey.algorithm === 'hmac-sha256' ? apiKey.secret : null;
+
+    return {
+        key: {
+            deviceName: device.name,
+            verify,
+            sign: secret ? (message) => computeHmac(message, secret) : null,
+            keyId: apiKey.key_id,
+            deprecated: status === 'deprecated',
+            scopes: apiKey.scopes,
+        },
+    };
+}
+
+/**
+ * Rejects a request failing authentication
+ * The client always gets the same opaque 401, the reason is only logged and counted against
+ * the source IP, which gets locked out after too many failures.
+ * @param request The request
+ * @param reply The reply
+ * @param reason Why the authentication failed
+ * @param details Additional fields to log
+ * @returns The 401 reply
+ */
+function rejectRequest(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    reason: AuthFailureReason,
+    details: Record<string, unknown> = {}
+): FastifyReply {
+    request.log.warn({ reason, ip: request.ip, ...details }, 'Rejected request authentication');
+
+    if (authLockoutService.recordFailure(request.ip, reason)) {
+        request.log.warn(
+            { reason: 'ip_locked_out', ip: request.ip, lastReason: reason },
+            'Locked out IP after repeated authentication failures'
+        );
+    }
+
+    return reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'Authentication failed',
+    });
+}
+
+/**
+ * Authentication middleware using signed requests
+ *
+ * Authenticates requests using HMAC-SHA256 or Ed25519 signatures with the following headers:
+ * - Authorization: Bearer <signature>
+ * - Signature-Timestamp: <unix_timestamp>
+ * - Signature-Nonce: <random_string>
+ * - Signature-Key-Id: <key_id> (optional)
+ * - Signature-Device: <device_name> (optional)
+ *
+ * The signature is computed over: method=METHOD;path=PATH;ts=TIMESTAMP;nonce=NONCE;body_sha256=HASH
+ * API keys are either HMAC-SHA256 secrets shared with the agent or Ed25519 public keys,
+ * the agent keeping the private key. API_SECRET is always an HMAC secret.
+ *
+ * Each nonce can only be used once per device while its timestamp is valid, so captured
+ * requests cannot be replayed.
+ *
+ * Requests are signed with the API key selected by Signature-Key-Id (see resolveSigningKey),
+ * several keys of a device being valid at once during a rotation. Requests without key or
+ * device headers are signed with API_SECRET and attributed to the default device.
+ * The authenticated device name is exposed as request.deviceName.
+ *
+ * Credentials carry scopes (ingest, read, admin). When a scope is required, authenticated
+ * requests whose credential lacks it are rejected with 403. API_SECRET gets the scopes
+ * listed in API_SECRET_SCOPES (default: all).
+ *
+ * Failures are logged with their reason and counted per source IP, see rejectRequest. Requests
+ * from a locked out IP are rejected with 429 before any verification.
+ * @param options Route requirements
+ * @returns The preHandler hook
+ */
+export function createAuthMiddleware(
+    options: AuthOptions = {}
+): (request: FastifyRequest, reply: FastifyReply) => Promise<FastifyReply | void> {
+    return async function authMiddleware(request, reply) {
+        const lockedUntil = authLockoutService.getLockedUntil(request.ip);
+
+        if (lockedUntil) {
+            request.log.warn(
+                { reason: 'ip_locked_out', ip: request.ip },
+                'Rejected request from a locked out IP'
+            );
+            return reply
+                .code(429)
+                .header('retry-after', Math.ceil((lockedUntil.getTime() - Date.now()) / 1000))
+                .send({
+                    error: 'Too Many Requests',
+                    message: 'Too many authentication failures',
+                });
+        }
+
+        const resolution = await resolveSigningKey(request);
+
+        if ('failure' in resolution) {
+            return rejectRequest(request, reply, resolution.failure);
+        }
+        if (!('key' in resolution)) {
+            return reply.code(resolution.statusCode).send({
+                error: resolution.error,
+                message: resolution.message,
+            });
+        }
+
+        const { deviceName, verify, sign, keyId, deprecated, scopes } = resolution.key;
+        const context = { keyId, device: deviceName };
+
+        // Extract required headers
+        const authHeader = normalizeHeader(
+            request.headers.authorization as string | string[] | undefined
+        );
+        const timestampHeader = normalizeHeader(
+            request.headers['signature-timestamp'] as string | string[] | undefined
+        );
+        const nonceHeader = normalizeHeader(
+            request.headers['signature-nonce'] as string | string[] | undefined
+        );
+
+        // Validate header types (reject if arrays - multiple values sent)
+        if (
+            typeof authHeader !== 'string' ||
+            typeof timestampHeader !== 'string' ||
+            typeof nonceHeader !== 'string'
+        ) {
+            return rejectRequest(request, reply, 'invalid_header', context);
+        }
+
+        // Extract signature from Authorization header
+        const signature = extractBearerToken(authHeader);
+
+        // Validate all required components are present
+        if (!signature || !timestampHeader || !nonceHeader) {
+            return rejectRequest(request, reply, 'invalid_header', context);
+        }
+
+        // Parse and validate timestamp
+        const timestamp = Number.parseInt(timestampHeader, 10);
+        if (Number.isNaN(timestamp)) {
+            return rejectRequest(request, reply, 'invalid_timestamp', context);
+        }
+        if (!isValidTimestamp(timestamp)) {
+            // Log the skew so that a drifting clock can be told apart from an attack
+            return rejectRequest(request, reply, 'stale_timestamp', {
+                ...context,
+                skewSeconds: timestamp - Math.floor(Date.now() / 1000),
+            });
+        }
+
+        // Validate nonce (must be non-empty and fit in the nonce store)
+        if (nonceHeader.trim().length === 0 || nonceHeader.length > MAX_NONCE_LENGTH) {
+            return rejectRequest(request, reply, 'invalid_nonce', context);
+        }
+
+        // Get raw request body (captured by preParsing hook) or empty string for GET requests
+        // Using raw body ensures consistent signatures regardless of JSON property order
+        const bodyString = request.rawBody || '';
+
+        // Build canonical message
+        // Strip known API prefix to keep signatures stable even when the server is mounted under a base path
+        const pathWithoutPrefix = request.url.startsWith(API_PREFIX)
+            ? request.url.substring(API_PREFIX.length)
+            : request.url;
+        const canonicalPath = pathWithoutPrefix || '/';
+
+        const canonicalMessage = buildCanonicalMessage(
+            request.method,
+            canonicalPath,
+            timestampHeader,
+            nonceHeader,
+            bodyString
+        );
+
+        // Validate the signature with the algorithm of the key
+        if (!verify(canonicalMessage, signature)) {
+            return rejectRequest(request, reply, 'bad_signature', context);
+        }
+
+        // Reject replays only once the signature is verified, so that unsigned requests cannot
+        // burn the nonces of legitimate clients
+        const isNewNonce = await nonceService.registerNonce({
+            device: deviceName,
+            nonce: nonceHeader,
+            timestamp,
+            expiresAt: new Date((timestamp + MAX_TIMESTAMP_AGE) * 1000),
         });
-        return;
+
+        if (!isNewNonce) {
+            return rejectRequest(request, reply, 'nonce_reused', context);
+        }
+
+        authLockoutService.recordSuccess(request.ip);
+
+        if (deprecated) {
+            request.log.warn(
+                { keyId, device: deviceName },
+                'Request signed with a deprecated API key, rotate to a new key'
+            );
+        }
+
+        // Let signResponse prove to the client that it talks to this server
+        if (sign) {
+            request.responseSigning = { nonce: nonceHeader, sign };
+        }
+
+        // Authenticated, but the credential may not be allowed to use this route
+        if (options.scope && !scopes.includes(options.scope)) {
+            request.log.warn(
+                { reason: 'insufficient_scope', keyId, device: deviceName, scope: options.scope },
+                'Rejected request without the required scope'
+            );
+            return reply.code(403).send({
+                error: 'Forbidden',
+                message: 'Insufficient scope',
+            });
+        }
+
+        // Authentication successful
+        request.deviceName = deviceName;
+        request.authScopes = scopes;
+    };
+}
+
+/**
+ * Authentication middleware accepting any valid credential, whatever its scopes
+ */
+export const authMiddleware = createAuthMiddleware();
+
+/**
+ * onSend hook signing the responses of authenticated requests
+ *
+ * The response carries the following headers, computed with the HMAC secret that signed
+ * the request, so that the client can tell the real server from a proxy answering in its name:
+ * - Signature: <hmac_signature>
+ * - Signature-Timestamp: <unix_timestamp>
+ * - Signature-Nonce: <request_nonce>
+ *
+ * The signature is computed over: status=STATUS;ts=TIMESTAMP;nonce=NONCE;body_sha256=HASH
+ * Responses to requests signed with Ed25519 keys are not signed, the server holding no secret.
+ */
+export async function signResponse(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    payload: unknown
+): Promise<unknown> {
+    const signing = request.responseSigning;
+
+    if (!signing || (typeof payload !== 'string' && payload !== null && payload !== undefined)) {
+        return payload;
     }
 
-    // Authentication successful
-    done();
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const message = buildResponseCanonicalMessage(
+        reply.statusCode,
+        timestamp,
+        signing.nonce,
+        payload ?? ''
+    );
+
+    reply.header('signature', signing.sign(message));
+    reply.header('signature-timestamp', timestamp);
+    reply.header('signature-nonce', signing.nonce);
+
+    return payload;
 }
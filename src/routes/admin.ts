@@ -0,0 +1,239 @@
+import { type FastifyPluginAsync, type RouteShorthandOptions } from 'fastify';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import authLockoutService from '../services/authLockout.js';
+import deviceService from '../services/device.js';
+import maintenanceService, { isValidRecurrence } from '../services/maintenance.js';
+import { parseDateParam } from '../utils/query.js';
+
+type AdminRouteOptions = RouteShorthandOptions;
+
+interface LockoutParams {
+    ip: string;
+}
+
+interface MaintenanceWindowBody {
+    device?: string;
+    reason?: string;
+    starts_at?: string;
+    ends_at?: string;
+    recurrence?: string;
+    duration?: number;
+}
+
+interface MaintenanceWindowParams {
+    id: number;
+}
+
+/**
+ * Check that a maintenance window is either one-off or recurring
+ * @returns An error message, or null if the window is valid
+ */
+function validateMaintenanceWindow(body: MaintenanceWindowBody): string | null {
+    if (body.recurrence !== undefined) {
+        if (body.starts_at !== undefined || body.ends_at !== undefined) {
+            return 'A recurring window cannot have starts_at or ends_at';
+        }
+        if (body.duration === undefined) {
+            return 'A recurring window requires a duration';
+        }
+        return isValidRecurrence(body.recurrence) ? null : 'Invalid recurrence';
+    }
+
+    if (body.duration !== undefined) {
+        return 'Only recurring windows have a duration';
+    }
+
+    const startsAt = parseDateParam(body.starts_at);
+    const endsAt = parseDateParam(body.ends_at);
+    if (!startsAt || !endsAt) {
+        return 'A one-off window requires valid starts_at and ends_at dates';
+    }
+
+    return startsAt < endsAt ? null : 'starts_at must be before ends_at';
+}
+
+/**
+ * Administration routes, restricted to credentials with the admin scope
+ */
+export const adminRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+    /**
+     * GET /admin/lockouts
+     * List the IPs locked out after repeated authentication failures
+     */
+    const listLockoutsSchema: AdminRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'admin' }),
+    };
+
+    fastify.get('/admin/lockouts', listLockoutsSchema, async (_request, reply) => {
+        return reply.code(200).send({ data: authLockoutService.getLockouts() });
+    });
+
+    /**
+     * DELETE /admin/lockouts/:ip
+     * Lift the lockout of an IP
+     */
+    const unlockSchema: AdminRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'admin' }),
+        schema: {
+            params: {
+                type: 'object',
+                required: ['ip'],
+                properties: {
+                    ip: { type: 'string', minLength: 1 },
+                },
+            },
+        },
+    };
+
+    fastify.delete<{ Params: LockoutParams }>(
+        '/admin/lockouts/:ip',
+        unlockSchema,
+        async (request, reply) => {
+            if (!authLockoutService.unlock(request.params.ip)) {
+                return reply.code(404).send({
+                    error: 'Not Found',
+                    message: 'IP is not locked out',
+                });
+            }
+
+            fastify.log.info({ ip: request.params.ip }, 'Authentication lockout lifted');
+            return reply.code(204).send();
+        }
+    );
+
+    /**
+     * GET /admin/maintenance-windows
+     * List the maintenance windows during which downtimes are planned
+     */
+    const listMaintenanceSchema: AdminRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'admin' }),
+    };
+
+    fastify.get('/admin/maintenance-windows', listMaintenanceSchema, async (_request, reply) => {
+        try {
+            const windows = await maintenanceService.getMaintenanceWindows();
+
+            return reply.code(200).send({ data: windows });
+        } catch (error) {
+            fastify.log.error({ error }, 'Failed to list maintenance windows');
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to list maintenance windows',
+            });
+        }
+    });
+
+    /**
+     * POST /admin/maintenance-windows
+     * Create a one-off or recurring maintenance window
+     */
+    const createMaintenanceSchema: AdminRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'admin' }),
+        schema: {
+            body: {
+                type: 'object',
+                properties: {
+                    device: { type: 'string', minLength: 1 },
+                    reason: { type: 'string', maxLength: 255 },
+                    starts_at: { type: 'string' },
+                    ends_at: { type: 'string' },
+                    recurrence: { type: 'string', minLength: 1, maxLength: 100 },
+                    duration: { type: 'integer', minimum: 1 },
+                },
+                additionalProperties: false,
+            },
+        },
+    };
+
+    fastify.post<{ Body: MaintenanceWindowBody }>(
+        '/admin/maintenance-windows',
+        createMaintenanceSchema,
+        async (request, reply) => {
+            const body = request.body;
+            const validationError = validateMaintenanceWindow(body);
+            if (validationError) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: validationError,
+                });
+            }
+
+            try {
+                const device = body.device
+                    ? await deviceService.getDeviceByName(body.device)
+                    : undefined;
+                if (device === null) {
+                    return reply.code(400).send({
+                        error: 'Bad Request',
+                        message: 'Unknown device',
+                    });
+                }
+
+                const id = await maintenanceService.createMaintenanceWindow({
+                    device_id: device?.id ?? null,
+                    reason: body.reason ?? null,
+                    starts_at: parseDateParam(body.starts_at) ?? null,
+                    ends_at: parseDateParam(body.ends_at) ?? null,
+                    recurrence: body.recurrence ?? null,
+                    duration: body.duration ?? null,
+                });
+
+                fastify.log.info({ maintenanceWindowId: id }, 'Maintenance window created');
+                return reply.code(201).send(await maintenanceService.getMaintenanceWindowById(id));
+            } catch (error) {
+                fastify.log.error({ error }, 'Failed to create maintenance window');
+                return reply.code(500).send({
+                    error: 'Internal Server Error',
+                    message: 'Failed to create maintenance window',
+                });
+            }
+        }
+    );
+
+    /**
+     * DELETE /admin/maintenance-windows/:id
+     * Delete a maintenance window
+     */
+    const deleteMaintenanceSchema: AdminRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'admin' }),
+        schema: {
+            params: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'integer', minimum: 1 },
+                },
+            },
+        },
+    };
+
+    fastify.delete<{ Params: MaintenanceWindowParams }>(
+        '/admin/maintenance-windows/:id',
+        deleteMaintenanceSchema,
+        async (request, reply) => {
+            try {
+                if (!(await maintenanceService.deleteMaintenanceWindow(request.params.id))) {
+                    return reply.code(404).send({
+                        error: 'Not Found',
+                        message: 'Maintenance window not found',
+                    });
+                }
+
+                fastify.log.info(
+                    { maintenanceWindowId: request.params.id },
+                    'Maintenance window deleted'
+                );
+                return reply.code(204).send();
+            } catch (error) {
+                fastify.log.error(
+                    { error, maintenanceWindowId: request.params.id },
+                    'Failed to delete maintenance window'
+                );
+                return reply.code(500).send({
+                    error: 'Internal Server Error',
+                    message: 'Failed to delete maintenance window',
+                });
+            }
+        }
+    );
+};
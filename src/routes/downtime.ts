@@ -0,0 +1,167 @@
+import { type FastifyPluginAsync, type RouteShorthandOptions } from 'fastify';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import heartbeatService from '../services/heartbeat.js';
+import downtimeService from '../services/downtime.js';
+import deviceService from '../services/device.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, decodeCursor, parseDateParam } from '../utils/query.js';
+
+type DowntimeRouteOptions = RouteShorthandOptions;
+
+interface DowntimeListQuerystring {
+    device?: string;
+    from?: string;
+    to?: string;
+    active?: boolean;
+    min_duration?: number;
+    cursor?: string;
+    limit?: number;
+}
+
+interface DowntimeParams {
+    id: number;
+}
+
+/**
+ * Downtime routes
+ */
+export const downtimeRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+    /**
+     * GET /downtimes
+     * List downtime events, most recent first
+     */
+    const listSchema: DowntimeRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'read' }),
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    device: { type: 'string' },
+                    from: { type: 'string' },
+                    to: { type: 'string' },
+                    active: { type: 'boolean' },
+                    min_duration: { type: 'integer', minimum: 0 },
+                    cursor: { type: 'string' },
+                    limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE },
+                },
+                additionalProperties: false,
+            },
+        },
+    };
+
+    fastify.get<{ Querystring: DowntimeListQuerystring }>(
+        '/downtimes',
+        listSchema,
+        async (request, reply) => {
+            const from = parseDateParam(request.query.from);
+            const to = parseDateParam(request.query.to);
+            if (from === null || to === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'Invalid date format for from/to',
+                });
+            }
+
+            const cursor = request.query.cursor ? decodeCursor(request.query.cursor) : undefined;
+            if (cursor === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'Invalid cursor',
+                });
+            }
+
+            try {
+                const device = request.query.device
+                    ? await deviceService.getDeviceByName(request.query.device)
+                    : undefined;
+                if (device === null) {
+                    return reply.code(400).send({
+                        error: 'Bad Request',
+                        message: 'Unknown device',
+                    });
+                }
+
+                const page = await downtimeService.queryDowntimeEvents({
+                    deviceId: device?.id,
+                    from,
+                    to,
+                    active: request.query.active,
+                    minDuration: request.query.min_duration,
+                    cursor,
+                    limit: request.query.limit ?? DEFAULT_PAGE_SIZE,
+                });
+
+                return reply.code(200).send(page);
+            } catch (error) {
+                fastify.log.error({ error }, 'Failed to query downtime events');
+                return reply.code(500).send({
+                    error: 'Internal Server Error',
+                    message: 'Failed to query downtime events',
+                });
+            }
+        }
+    );
+
+    /**
+     * GET /downtimes/:id
+     * Get a downtime event with the heartbeats surrounding it
+     */
+    const detailSchema: DowntimeRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'read' }),
+        schema: {
+            params: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'integer', minimum: 1 },
+                },
+            },
+        },
+    };
+
+    fastify.get<{ Params: DowntimeParams }>(
+        '/downtimes/:id',
+        detailSchema,
+        async (request, reply) => {
+            try {
+                const event = await downtimeService.getDowntimeEventById(request.params.id);
+
+                if (!event) {
+                    return reply.code(404).send({
+                        error: 'Not Found',
+                        message: 'Downtime event not found',
+                    });
+                }
+
+                // No heartbeat arrives during a silence, so the first one after its start ended
+                // it. Down reports keep arriving during a reported downtime: only up heartbeats
+                // surround it.
+                const status = event.source === 'reported_down' ? 'up' : undefined;
+                const [lastHeartbeatBefore, firstHeartbeatAfter] = await Promise.all([
+                    heartbeatService.getHeartbeatBefore(event.started_at, event.device_id, status),
+                    event.ended_at
+                        ? heartbeatService.getHeartbeatAfter(
+                              event.started_at,
+                              event.device_id,
+                              status
+                          )
+                        : null,
+                ]);
+
+                return reply.code(200).send({
+                    ...event,
+                    last_heartbeat_before: lastHeartbeatBefore,
+                    first_heartbeat_after: firstHeartbeatAfter,
+                });
+            } catch (error) {
+                fastify.log.error(
+                    { error, downtimeId: request.params.id },
+                    'Failed to get downtime event'
+                );
+                return reply.code(500).send({
+                    error: 'Internal Server Error',
+                    message: 'Failed to get downtime event',
+                });
+            }
+        }
+    );
+};
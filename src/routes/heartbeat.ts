@@ -1,40 +1,208 @@
-import { type FastifyInstance, type FastifyPluginAsync, type RouteShorthandOptions } from 'fastify';
-import { authMiddleware } from '../middleware/auth.js';
-import heartbeatService, { type HeartbeatInput } from '../services/heartbeat.js';
-import downtimeService from '../services/downtime.js';
+import {
+    type FastifyInstance,
+    type FastifyPluginAsync,
+    type FastifyRequest,
+    type RouteShorthandOptions,
+} from 'fastify';
+import { INGEST_RATE_LIMIT } from '../constants/api.js';
+import { createAuthMiddleware, signResponse } from '../middleware/auth.js';
+import heartbeatService, { HEARTBEAT_FIELDS, type HeartbeatInput } from '../services/heartbeat.js';
+import downtimeService, { type DowntimeEvent } from '../services/downtime.js';
+import reconciliationService from '../services/reconciliation.js';
+import { computeClockDrift } from '../services/clockDrift.js';
+import { classifyDowntimeCause } from '../services/downtimeCause.js';
+import deviceService, { DEFAULT_DEVICE_NAME, type Device } from '../services/device.js';
+import {
+    DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE,
+    decodeCursor,
+    parseDateParam,
+    parseListParam,
+    type SortOrder,
+} from '../utils/query.js';
 
 type HeartbeatRequestBody = HeartbeatInput;
 
+interface HeartbeatListQuerystring {
+    device?: string;
+    from?: string;
+    to?: string;
+    status?: string;
+    connection_type?: string;
+    media_state?: string;
+    fields?: string;
+    cursor?: string;
+    limit?: number;
+    order?: SortOrder;
+}
+
 type HeartbeatRouteOptions = RouteShorthandOptions;
 
+type HeartbeatBatchItemResult =
+    | { index: number; accepted: true; id: number }
+    | { index: number; accepted: false; error: string };
+
+/**
+ * Maximum number of heartbeats accepted in a single batch
+ */
+const MAX_BATCH_SIZE = 1000;
+
+/**
+ * JSON schema types of the known heartbeat fields
+ */
+const HEARTBEAT_PROPERTIES: Record<string, { type: 'string' | 'number' }> = {
+    connection_state: { type: 'string' },
+    timestamp: { type: 'string' },
+    ipv4: { type: 'string' },
+    ipv6: { type: 'string' },
+    media_state: { type: 'string' },
+    connection_type: { type: 'string' },
+    bandwidth_down: { type: 'number' },
+    bandwidth_up: { type: 'number' },
+    rate_down: { type: 'number' },
+    rate_up: { type: 'number' },
+    bytes_down: { type: 'number' },
+    bytes_up: { type: 'number' },
+};
+
+/**
+ * Validates a single heartbeat of a batch
+ * @param item The batch item
+ * @returns An error message, or null if the heartbeat is valid
+ */
+function validateBatchItem(item: unknown): string | null {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        return 'Heartbeat must be an object';
+    }
+
+    const heartbeat = item as Record<string, unknown>;
+
+    if (typeof heartbeat.connection_state !== 'string' || !heartbeat.connection_state) {
+        return 'Missing connection_state';
+    }
+    if (typeof heartbeat.timestamp !== 'string') {
+        return 'Missing timestamp';
+    }
+    if (Number.isNaN(new Date(heartbeat.timestamp).getTime())) {
+        return 'Invalid timestamp format';
+    }
+
+    for (const [field, { type }] of Object.entries(HEARTBEAT_PROPERTIES)) {
+        if (heartbeat[field] !== undefined && typeof heartbeat[field] !== type) {
+            return `Invalid ${field}, expected ${type}`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Get the device that authenticated a request
+ * @param request The authenticated request
+ * @returns The device
+ */
+async function getRequestDevice(request: FastifyRequest): Promise<Device> {
+    const deviceName = request.deviceName ?? DEFAULT_DEVICE_NAME;
+    const device = await deviceService.getDeviceByName(deviceName);
+
+    if (!device) {
+        throw new Error(`Device ${deviceName} not found`);
+    }
+
+    return device;
+}
+
+/**
+ * End the active downtime of a device, if any, and send its recovery notification
+ * The cause is classified from the last heartbeat before the downtime and the heartbeat
+ * that ended it, which must already be recorded.
+ * @param fastify Fastify instance holding the monitor and notification services
+ * @param device The device that recovered
+ */
+async function endActiveDowntime(fastify: FastifyInstance, device: Device): Promise<void> {
+    const activeDowntime = await downtimeService.getActiveDowntimeEvent(device.id);
+
+    if (!activeDowntime) {
+        return;
+    }
+
+    await endDowntime(fastify, device, activeDowntime);
+
+    // Only downtimes whose detection was alerted get a recovery alert
+    await fastify.downtimeMonitor.sendPendingRecoveries(device);
+}
+
+/**
+ * End a downtime at the last recorded heartbeat and classify its cause
+ * @param fastify Fastify instance used for logging
+ * @param device The device that recovered
+ * @param activeDowntime The downtime to end
+ */
+async function endDowntime(
+    fastify: FastifyInstance,
+    device: Device,
+    activeDowntime: DowntimeEvent
+): Promise<void> {
+    const [lastHeartbeatBefore, recoveryHeartbeat] = await Promise.all([
+        heartbeatService.getHeartbeatBefore(activeDowntime.started_at, device.id),
+        heartbeatService.getLastHeartbeat(device.id),
+    ]);
+    const cause = classifyDowntimeCause(
+        activeDowntime.source,
+        lastHeartbeatBefore,
+        recoveryHeartbeat
+    );
+
+    // End at the recovery heartbeat, like the gaps found by reconciliation
+    const endedAt = recoveryHeartbeat ? new Date(recoveryHeartbeat.timestamp) : new Date();
+    await downtimeService.endDowntimeEvent(activeDowntime.id, endedAt, cause);
+
+    fastify.log.info(
+        { downtimeId: activeDowntime.id, device: device.name, cause },
+        'Downtime event ended'
+    );
+}
+
+/**
+ * Run a monitor that only observes the heartbeats, such as the clock drift or IP change monitor
+ * Its failures are logged without failing the ingestion of the heartbeats.
+ * @param fastify Fastify instance used for logging
+ * @param device The device that sent the heartbeats
+ * @param monitor Name of the monitor, for the logs
+ * @param check The monitor check
+ */
+async function runSideMonitor(
+    fastify: FastifyInstance,
+    device: Device,
+    monitor: string,
+    check: () => Promise<unknown>
+): Promise<void> {
+    try {
+        await check();
+    } catch (error) {
+        fastify.log.error({ error, device: device.name, monitor }, 'Heartbeat monitor failed');
+    }
+}
+
 /**
  * Heartbeat routes
  */
 export const heartbeatRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+    // Let agents check that their heartbeats reached the real server
+    fastify.addHook('onSend', signResponse);
+
     /**
      * POST /heartbeat
      * Record a new heartbeat
      */
     const schema: HeartbeatRouteOptions = {
-        preHandler: authMiddleware,
+        preHandler: createAuthMiddleware({ scope: 'ingest' }),
+        config: { rateLimit: INGEST_RATE_LIMIT },
         schema: {
             body: {
                 type: 'object',
                 required: ['connection_state', 'timestamp'],
-                properties: {
-                    connection_state: { type: 'string' },
-                    timestamp: { type: 'string' },
-                    ipv4: { type: 'string' },
-                    ipv6: { type: 'string' },
-                    media_state: { type: 'string' },
-                    connection_type: { type: 'string' },
-                    bandwidth_down: { type: 'number' },
-                    bandwidth_up: { type: 'number' },
-                    rate_down: { type: 'number' },
-                    rate_up: { type: 'number' },
-                    bytes_down: { type: 'number' },
-                    bytes_up: { type: 'number' },
-                },
+                properties: HEARTBEAT_PROPERTIES,
                 additionalProperties: true,
             },
         },
@@ -53,37 +221,45 @@ export const heartbeatRoutes: FastifyPluginAsync = async (fastify): Promise<void
                 });
             }
 
+            const device = await getRequestDevice(request);
+            const clockDrift = computeClockDrift(timestampDate, new Date());
+
             // Record the heartbeat (passes entire body to service)
-            const id = await heartbeatService.recordHeartbeat({
-                ...heartbeatData,
-                timestamp,
-            });
+            const id = await heartbeatService.recordHeartbeat(
+                {
+                    ...heartbeatData,
+                    timestamp,
+                },
+                device.id,
+                clockDrift
+            );
+
+            await runSideMonitor(fastify, device, 'clockDrift', () =>
+                fastify.clockDriftMonitor.checkDrift(device, clockDrift)
+            );
 
             // Check if we need to end any active downtime
-            const activeDowntime = await downtimeService.getActiveDowntimeEvent();
             const connectionState = heartbeatData.connection_state;
 
-            if (activeDowntime && connectionState === 'up') {
-                const endedAt = new Date();
-                await downtimeService.endDowntimeEvent(activeDowntime.id, endedAt);
-
-                // Mark downtime as ended in the monitor
-                fastify.downtimeMonitor.markDowntimeEnded(activeDowntime.id);
+            if (connectionState === 'up') {
+                await endActiveDowntime(fastify, device);
+            } else {
+                await fastify.downtimeMonitor.checkReportedDowntime(device);
+            }
 
-                fastify.log.info({ downtimeId: activeDowntime.id }, 'Downtime event ended');
+            await runSideMonitor(fastify, device, 'ipChange', () =>
+                fastify.ipChangeMonitor.checkHeartbeats(device, [{ ...heartbeatData, timestamp }])
+            );
+            await runSideMonitor(fastify, device, 'backup', () =>
+                fastify.backupMonitor.checkHeartbeats(device, [{ ...heartbeatData, timestamp }])
+            );
 
-                // Send recovery notification
-                if (fastify.notificationService.isEnabled()) {
-                    await fastify.notificationService.sendRecoveryAlert(
-                        activeDowntime.id,
-                        activeDowntime.started_at,
-                        endedAt
-                    );
-                }
-            }
+            await runSideMonitor(fastify, device, 'degradation', () =>
+                fastify.degradationMonitor.checkDegradation(device)
+            );
 
             fastify.log.info(
-                { heartbeatId: id, connection_state: connectionState },
+                { heartbeatId: id, device: device.name, connection_state: connectionState },
                 'Heartbeat recorded'
             );
 
@@ -100,4 +276,226 @@ export const heartbeatRoutes: FastifyPluginAsync = async (fastify): Promise<void
             });
         }
     });
+
+    /**
+     * POST /heartbeats/batch
+     * Record heartbeats buffered by the agent, typically replayed after an outage
+     */
+    const batchSchema: HeartbeatRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'ingest' }),
+        config: { rateLimit: INGEST_RATE_LIMIT },
+        schema: {
+            body: {
+                type: 'array',
+                minItems: 1,
+                maxItems: MAX_BATCH_SIZE,
+                // Items are validated one by one so that a bad item does not reject the batch
+                items: {},
+            },
+        },
+    };
+
+    fastify.post<{ Body: unknown[] }>('/heartbeats/batch', batchSchema, async (request, reply) => {
+        const results: HeartbeatBatchItemResult[] = [];
+        const accepted: Array<{ index: number; heartbeat: HeartbeatInput }> = [];
+
+        request.body.forEach((item, index) => {
+            const error = validateBatchItem(item);
+            if (error) {
+                results.push({ index, accepted: false, error });
+            } else {
+                accepted.push({ index, heartbeat: item as HeartbeatInput });
+            }
+        });
+
+        try {
+            const device = await getRequestDevice(request);
+            const ids =
+                accepted.length > 0
+                    ? await heartbeatService.recordHeartbeats(
+                          accepted.map(({ heartbeat }) => heartbeat),
+                          device.id
+                      )
+                    : [];
+
+            accepted.forEach(({ index }, position) => {
+                results.push({ index, accepted: true, id: ids[position] });
+            });
+            results.sort((a, b) => a.index - b.index);
+
+            const timestamps = accepted.map(({ heartbeat }) => new Date(heartbeat.timestamp));
+            const latest = accepted.reduce<HeartbeatInput | null>(
+                (current, { heartbeat }) =>
+                    !current || new Date(heartbeat.timestamp) >= new Date(current.timestamp)
+                        ? heartbeat
+                        : current,
+                null
+            );
+
+            // The most recent heartbeat tells whether the line is back or still reported down.
+            // A recovered downtime is ended first so that its cause is classified, then
+            // reconciled like the other events.
+            const activeDowntime =
+                latest?.connection_state === 'up'
+                    ? await downtimeService.getActiveDowntimeEvent(device.id)
+                    : null;
+            if (activeDowntime) {
+                await endDowntime(fastify, device, activeDowntime);
+            }
+
+            // Realign the downtime events covered by the replayed heartbeats before notifying,
+            // so that a downtime they cleared gets no recovery alert
+            const reconciliation =
+                timestamps.length > 0
+                    ? await reconciliationService.reconcileDowntimeEvents(
+                          device.id,
+                          new Date(Math.min(...timestamps.map((date) => date.getTime()))),
+                          new Date(Math.max(...timestamps.map((date) => date.getTime()))),
+                          fastify.downtimeMonitor.getHeartbeatTimeoutMs(device)
+                      )
+                    : { updated: [], created: [], cleared: [] };
+
+            if (latest?.connection_state === 'up') {
+                await fastify.downtimeMonitor.sendPendingRecoveries(device);
+            } else if (latest) {
+                await fastify.downtimeMonitor.checkReportedDowntime(device);
+            }
+
+            await runSideMonitor(fastify, device, 'ipChange', () =>
+                fastify.ipChangeMonitor.checkHeartbeats(
+                    device,
+                    accepted.map(({ heartbeat }) => heartbeat)
+                )
+            );
+            await runSideMonitor(fastify, device, 'backup', () =>
+                fastify.backupMonitor.checkHeartbeats(
+                    device,
+                    accepted.map(({ heartbeat }) => heartbeat)
+                )
+            );
+
+            if (latest) {
+                await runSideMonitor(fastify, device, 'degradation', () =>
+                    fastify.degradationMonitor.checkDegradation(device)
+                );
+            }
+
+            fastify.log.info(
+                {
+                    device: device.name,
+                    accepted: accepted.length,
+                    rejected: request.body.length - accepted.length,
+                    reconciliation,
+                },
+                'Heartbeat batch recorded'
+            );
+
+            return reply.code(200).send({
+                success: true,
+                message: 'Heartbeat batch processed',
+                accepted: accepted.length,
+                rejected: request.body.length - accepted.length,
+                results,
+                reconciliation,
+            });
+        } catch (error) {
+            fastify.log.error({ error }, 'Failed to record heartbeat batch');
+            return reply.code(500).send({
+                error: 'Internal Server Error',
+                message: 'Failed to record heartbeat batch',
+            });
+        }
+    });
+
+    /**
+     * GET /heartbeats
+     * List recorded heartbeats with filters, field selection and cursor pagination
+     */
+    const listSchema: HeartbeatRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'read' }),
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    device: { type: 'string' },
+                    from: { type: 'string' },
+                    to: { type: 'string' },
+                    status: { type: 'string' },
+                    connection_type: { type: 'string' },
+                    media_state: { type: 'string' },
+                    fields: { type: 'string' },
+                    cursor: { type: 'string' },
+                    limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE },
+                    order: { type: 'string', enum: ['asc', 'desc'] },
+                },
+                additionalProperties: false,
+            },
+        },
+    };
+
+    fastify.get<{ Querystring: HeartbeatListQuerystring }>(
+        '/heartbeats',
+        listSchema,
+        async (request, reply) => {
+            const { status, connection_type, media_state } = request.query;
+
+            const from = parseDateParam(request.query.from);
+            const to = parseDateParam(request.query.to);
+            if (from === null || to === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'Invalid date format for from/to',
+                });
+            }
+
+            const fields = parseListParam(request.query.fields, HEARTBEAT_FIELDS);
+            if (fields === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: `Invalid fields, allowed values: ${HEARTBEAT_FIELDS.join(', ')}`,
+                });
+            }
+
+            const cursor = request.query.cursor ? decodeCursor(request.query.cursor) : undefined;
+            if (cursor === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'Invalid cursor',
+                });
+            }
+
+            try {
+                const device = request.query.device
+                    ? await deviceService.getDeviceByName(request.query.device)
+                    : undefined;
+                if (device === null) {
+                    return reply.code(400).send({
+                        error: 'Bad Request',
+                        message: 'Unknown device',
+                    });
+                }
+
+                const page = await heartbeatService.queryHeartbeats({
+                    deviceId: device?.id,
+                    from,
+                    to,
+                    status,
+                    connection_type,
+                    media_state,
+                    fields,
+                    cursor,
+                    limit: request.query.limit ?? DEFAULT_PAGE_SIZE,
+                    order: request.query.order ?? 'desc',
+                });
+
+                return reply.code(200).send(page);
+            } catch (error) {
+                fastify.log.error({ error }, 'Failed to query heartbeats');
+                return reply.code(500).send({
+                    error: 'Internal Server Error',
+                    message: 'Failed to query heartbeats',
+                });
+            }
+        }
+    );
 };
@@ -0,0 +1,95 @@
+import { type FastifyPluginAsync, type RouteShorthandOptions } from 'fastify';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import ipChangeService, { IP_FAMILIES, type IpFamily } from '../services/ipChange.js';
+import deviceService from '../services/device.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, decodeCursor, parseDateParam } from '../utils/query.js';
+
+type IpHistoryRouteOptions = RouteShorthandOptions;
+
+interface IpHistoryQuerystring {
+    device?: string;
+    family?: IpFamily;
+    from?: string;
+    to?: string;
+    cursor?: string;
+    limit?: number;
+}
+
+/**
+ * IP history routes
+ */
+export const ipHistoryRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+    /**
+     * GET /ip-history
+     * List the public address changes of the devices, most recent first
+     */
+    const listSchema: IpHistoryRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'read' }),
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    device: { type: 'string' },
+                    family: { type: 'string', enum: [...IP_FAMILIES] },
+                    from: { type: 'string' },
+                    to: { type: 'string' },
+                    cursor: { type: 'string' },
+                    limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE },
+                },
+                additionalProperties: false,
+            },
+        },
+    };
+
+    fastify.get<{ Querystring: IpHistoryQuerystring }>(
+        '/ip-history',
+        listSchema,
+        async (request, reply) => {
+            const from = parseDateParam(request.query.from);
+            const to = parseDateParam(request.query.to);
+            if (from === null || to === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'Invalid date format for from/to',
+                });
+            }
+
+            const cursor = request.query.cursor ? decodeCursor(request.query.cursor) : undefined;
+            if (cursor === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'Invalid cursor',
+                });
+            }
+
+            try {
+                const device = request.query.device
+                    ? await deviceService.getDeviceByName(request.query.device)
+                    : undefined;
+                if (device === null) {
+                    return reply.code(400).send({
+                        error: 'Bad Request',
+                        message: 'Unknown device',
+                    });
+                }
+
+                const page = await ipChangeService.queryIpChanges({
+                    deviceId: device?.id,
+                    family: request.query.family,
+                    from,
+                    to,
+                    cursor,
+                    limit: request.query.limit ?? DEFAULT_PAGE_SIZE,
+                });
+
+                return reply.code(200).send(page);
+            } catch (error) {
+                fastify.log.error({ error }, 'Failed to query IP history');
+                return reply.code(500).send({
+                    error: 'Internal Server Error',
+                    message: 'Failed to query IP history',
+                });
+            }
+        }
+    );
+};
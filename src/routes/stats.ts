@@ -0,0 +1,254 @@
+import { type FastifyPluginAsync, type RouteShorthandOptions } from 'fastify';
+import { createAuthMiddleware } from '../middleware/auth.js';
+import statsService, { type StatsGranularity } from '../services/stats.js';
+import deviceService, { DEFAULT_DEVICE_NAME } from '../services/device.js';
+import { parseDateParam } from '../utils/query.js';
+
+type StatsRouteOptions = RouteShorthandOptions;
+
+interface UptimeQuerystring {
+    device?: string;
+    from?: string;
+    to?: string;
+    granularity?: StatsGranularity;
+    include_unobserved?: boolean;
+}
+
+interface HeartbeatStatsQuerystring {
+    device?: string;
+    from?: string;
+    to?: string;
+    granularity?: StatsGranularity;
+}
+
+interface BackupQuerystring {
+    device?: string;
+    from?: string;
+    to?: string;
+}
+
+/**
+ * Default reporting window when no start date is given (30 days)
+ */
+const DEFAULT_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Default backup reporting window when no start date is given (365 days)
+ */
+const DEFAULT_BACKUP_WINDOW_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Statistics routes
+ */
+export const statsRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+    /**
+     * GET /stats/uptime
+     * Availability, MTTR, MTBF and outage statistics computed from downtime events
+     */
+    const uptimeSchema: StatsRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'read' }),
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    device: { type: 'string' },
+                    from: { type: 'string' },
+                    to: { type: 'string' },
+                    granularity: { type: 'string', enum: ['day', 'week', 'month'] },
+                    include_unobserved: { type: 'boolean' },
+                },
+                additionalProperties: false,
+            },
+        },
+    };
+
+    fastify.get<{ Querystring: UptimeQuerystring }>(
+        '/stats/uptime',
+        uptimeSchema,
+        async (request, reply) => {
+            const fromParam = parseDateParam(request.query.from);
+            const toParam = parseDateParam(request.query.to);
+            if (fromParam === null || toParam === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'Invalid date format for from/to',
+                });
+            }
+
+            const to = toParam ?? new Date();
+            const from = fromParam ?? new Date(to.getTime() - DEFAULT_WINDOW_MS);
+            if (from >= to) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'from must be before to',
+                });
+            }
+
+            try {
+                // Merging the timelines of several devices would make their outages overlap
+                const device = await deviceService.getDeviceByName(
+                    request.query.device ?? DEFAULT_DEVICE_NAME
+                );
+                if (!device) {
+                    return reply.code(400).send({
+                        error: 'Bad Request',
+                        message: 'Unknown device',
+                    });
+                }
+
+                const report = await statsService.getUptimeReport(
+                    from,
+                    to,
+                    request.query.granularity ?? null,
+                    device.id,
+                    request.query.include_unobserved ?? false
+                );
+
+                return reply.code(200).send(report);
+            } catch (error) {
+                fastify.log.error({ error }, 'Failed to compute uptime statistics');
+                return reply.code(500).send({
+                    error: 'Internal Server Error',
+                    message: 'Failed to compute uptime statistics',
+                });
+            }
+        }
+    );
+
+    /**
+     * GET /stats/heartbeats
+     * Expected, received and missed heartbeats of a device and their jitter
+     */
+    const heartbeatsSchema: StatsRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'read' }),
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    device: { type: 'string' },
+                    from: { type: 'string' },
+                    to: { type: 'string' },
+                    granularity: { type: 'string', enum: ['day', 'week', 'month'] },
+                },
+                additionalProperties: false,
+            },
+        },
+    };
+
+    fastify.get<{ Querystring: HeartbeatStatsQuerystring }>(
+        '/stats/heartbeats',
+        heartbeatsSchema,
+        async (request, reply) => {
+            const fromParam = parseDateParam(request.query.from);
+            const toParam = parseDateParam(request.query.to);
+            if (fromParam === null || toParam === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'Invalid date format for from/to',
+                });
+            }
+
+            const to = toParam ?? new Date();
+            const from = fromParam ?? new Date(to.getTime() - DEFAULT_WINDOW_MS);
+            if (from >= to) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'from must be before to',
+                });
+            }
+
+            try {
+                // Intervals are specific to each agent, so the report covers a single device
+                const device = await deviceService.getDeviceByName(
+                    request.query.device ?? DEFAULT_DEVICE_NAME
+                );
+                if (!device) {
+                    return reply.code(400).send({
+                        error: 'Bad Request',
+                        message: 'Unknown device',
+                    });
+                }
+
+                const report = await statsService.getHeartbeatReport(
+                    device,
+                    from,
+                    to,
+                    request.query.granularity ?? null
+                );
+
+                return reply.code(200).send(report);
+            } catch (error) {
+                fastify.log.error({ error }, 'Failed to compute heartbeat statistics');
+                return reply.code(500).send({
+                    error: 'Internal Server Error',
+                    message: 'Failed to compute heartbeat statistics',
+                });
+            }
+        }
+    );
+
+    /**
+     * GET /stats/backup
+     * Time and bytes spent on the backup link, by calendar month
+     */
+    const backupSchema: StatsRouteOptions = {
+        preHandler: createAuthMiddleware({ scope: 'read' }),
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    device: { type: 'string' },
+                    from: { type: 'string' },
+                    to: { type: 'string' },
+                },
+                additionalProperties: false,
+            },
+        },
+    };
+
+    fastify.get<{ Querystring: BackupQuerystring }>(
+        '/stats/backup',
+        backupSchema,
+        async (request, reply) => {
+            const fromParam = parseDateParam(request.query.from);
+            const toParam = parseDateParam(request.query.to);
+            if (fromParam === null || toParam === null) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'Invalid date format for from/to',
+                });
+            }
+
+            const to = toParam ?? new Date();
+            const from = fromParam ?? new Date(to.getTime() - DEFAULT_BACKUP_WINDOW_MS);
+            if (from >= to) {
+                return reply.code(400).send({
+                    error: 'Bad Request',
+                    message: 'from must be before to',
+                });
+            }
+
+            try {
+                const device = request.query.device
+                    ? await deviceService.getDeviceByName(request.query.device)
+                    : undefined;
+                if (device === null) {
+                    return reply.code(400).send({
+                        error: 'Bad Request',
+                        message: 'Unknown device',
+                    });
+                }
+
+                const report = await statsService.getBackupReport(from, to, device?.id);
+
+                return reply.code(200).send(report);
+            } catch (error) {
+                fastify.log.error({ error }, 'Failed to compute backup statistics');
+                return reply.code(500).send({
+                    error: 'Internal Server Error',
+                    message: 'Failed to compute backup statistics',
+                });
+            }
+        }
+    );
+};
@@ -0,0 +1,24 @@
+import { type FastifyPluginAsync } from 'fastify';
+import { MAX_FUTURE_SKEW, MAX_TIMESTAMP_AGE } from '../middleware/auth.js';
+
+/**
+ * Server time routes
+ */
+export const timeRoutes: FastifyPluginAsync = async (fastify): Promise<void> => {
+    /**
+     * GET /time
+     * Return the server time so that agents can measure the offset of their clock
+     * Not authenticated: an agent whose clock drifted cannot sign valid requests.
+     */
+    fastify.get('/time', async (_request, reply) => {
+        const now = Date.now();
+
+        return reply.code(200).send({
+            timestamp: Math.floor(now / 1000),
+            timestamp_ms: now,
+            iso: new Date(now).toISOString(),
+            max_timestamp_age: MAX_TIMESTAMP_AGE,
+            max_future_skew: MAX_FUTURE_SKEW,
+        });
+    });
+};
@@ -0,0 +1,66 @@
+import 'dotenv/config';
+import deviceService from '../services/device.js';
+import apiKeyService, { generateApiSecret } from '../services/apiKey.js';
+import { closeConnection } from '../db/config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Device names are sent in headers and shown in notifications: letters, digits, dots,
+ * hyphens, and no leading or trailing separator
+ */
+const DEVICE_NAME_PATTERN = /^[a-z0-9]+([.-][a-z0-9]+)*$/i;
+
+/**
+ * Register a new device with a first API key and print its generated secret
+ * The key ID is the device name, so the agent may send only Signature-Device.
+ * Usage: yarn devices:add <name> [label] [heartbeat_timeout_ms]
+ */
+async function main(): Promise<void> {
+    const [name, label, timeoutArg] = process.argv.slice(2);
+
+    if (!name) {
+        logger.error('Usage: yarn devices:add <name> [label] [heartbeat_timeout_ms]');
+        process.exitCode = 1;
+        return;
+    }
+
+    if (!DEVICE_NAME_PATTERN.test(name)) {
+        logger.error({ name }, 'Device name must only contain letters, digits, dots and hyphens');
+        process.exitCode = 1;
+        return;
+    }
+
+    const heartbeatTimeout = timeoutArg ? Number.parseInt(timeoutArg, 10) : null;
+    if (heartbeatTimeout !== null && (Number.isNaN(heartbeatTimeout) || heartbeatTimeout <= 0)) {
+        logger.error('Heartbeat timeout must be a positive number of milliseconds');
+        process.exitCode = 1;
+        return;
+    }
+
+    if (await deviceService.getDeviceByName(name)) {
+        logger.error({ name }, 'Device already exists');
+        process.exitCode = 1;
+        return;
+    }
+
+    const id = await deviceService.createDevice({
+        name,
+        label: label ?? null,
+        heartbeat_timeout: heartbeatTimeout,
+    });
+
+    const secret = generateApiSecret();
+    await apiKeyService.createApiKey({ key_id: name, device_id: id, secret });
+
+    logger.info({ id, name }, 'Device created');
+    console.log(`Signature-Device: ${name}`);
+    console.log(`Signature-Key-Id: ${name}`);
+    console.log(`Secret: ${secret}`);
+}
+
+main()
+    .catch((error) => {
+        logger.error({ error }, 'Failed to create device');
+        process.exitCode = 1;
+    })
+    .finally(() => closeConnection());
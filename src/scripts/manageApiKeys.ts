@@ -0,0 +1,174 @@
+import 'dotenv/config';
+import { readFile } from 'node:fs/promises';
+import deviceService from '../services/device.js';
+import apiKeyService, {
+    generateApiSecret,
+    getApiKeyStatus,
+    parseEd25519PublicKey,
+    parseScopes,
+} from '../services/apiKey.js';
+import { closeConnection } from '../db/config.js';
+import { parseDateParam } from '../utils/query.js';
+import { logger } from '../utils/logger.js';
+
+const USAGE = [
+    'Usage:',
+    '  yarn keys list <device>',
+    '  yarn keys add <device> <key_id> [not_before] [expires_at] [--scopes=ingest,read,admin]',
+    '                [--public-key=<ed25519_public_key.pem>]',
+    '  yarn keys deprecate <key_id> [expires_at]',
+].join('\n');
+
+/**
+ * Parse an optional ISO date argument
+ * @returns The date, undefined when absent, or null when invalid
+ */
+function parseDateArg(value: string | undefined): Date | undefined | null {
+    return parseDateParam(value || undefined);
+}
+
+/**
+ * List, create and deprecate the API keys of a device
+ *
+ * Rotating a key without downtime:
+ * 1. add a new key, valid from now or from a later not_before date
+ * 2. deploy the new key ID and secret to the agent
+ * 3. deprecate the old key, with an expiry date once every agent is updated
+ */
+async function main(): Promise<void> {
+    const [command, ...args] = process.argv.slice(2);
+
+    switch (command) {
+        case 'list': {
+            const device = args[0] ? await deviceService.getDeviceByName(args[0]) : null;
+            if (!device) {
+                logger.error({ device: args[0] }, 'Unknown device');
+                process.exitCode = 1;
+                return;
+            }
+
+            const keys = await apiKeyService.getApiKeysByDevice(device.id);
+            for (const key of keys) {
+                console.log(
+                    [
+                        key.key_id,
+                        key.algorithm,
+                        getApiKeyStatus(key),
+                        `scopes=${key.scopes.join(',')}`,
+                        `not_before=${key.not_before ? new Date(key.not_before).toISOString() : '-'}`,
+                        `expires_at=${key.expires_at ? new Date(key.expires_at).toISOString() : '-'}`,
+                    ].join('\t')
+                );
+            }
+            return;
+        }
+
+        case 'add': {
+            // New keys can only ingest heartbeats unless other scopes are requested
+            const scopesArg = args.find((arg) => arg.startsWith('--scopes='));
+            const scopes = parseScopes(scopesArg?.slice('--scopes='.length) ?? 'ingest');
+            // A public key creates an Ed25519 key instead of generating an HMAC secret
+            const publicKeyArg = args.find((arg) => arg.startsWith('--public-key='));
+            const positional = args.filter((arg) => !arg.startsWith('--'));
+            const [deviceName, keyId] = positional;
+            const notBefore = parseDateArg(positional[2]);
+            const expiresAt = parseDateArg(positional[3]);
+
+            if (
+                !deviceName ||
+                !keyId ||
+                notBefore === null ||
+                expiresAt === null ||
+                !scopes?.length
+            ) {
+                logger.error(USAGE);
+                process.exitCode = 1;
+                return;
+            }
+
+            const device = await deviceService.getDeviceByName(deviceName);
+            if (!device) {
+                logger.error({ device: deviceName }, 'Unknown device');
+                process.exitCode = 1;
+                return;
+            }
+            if (await apiKeyService.getApiKeyByKeyId(keyId)) {
+                logger.error({ keyId }, 'API key already exists');
+                process.exitCode = 1;
+                return;
+            }
+
+            if (publicKeyArg) {
+                const publicKey = await readFile(
+                    publicKeyArg.slice('--public-key='.length),
+                    'utf8'
+                );
+                if (!parseEd25519PublicKey(publicKey)) {
+                    logger.error('Invalid public key, expected a PEM encoded Ed25519 public key');
+                    process.exitCode = 1;
+                    return;
+                }
+
+                await apiKeyService.createApiKey({
+                    key_id: keyId,
+                    device_id: device.id,
+                    algorithm: 'ed25519',
+                    public_key: publicKey.trim(),
+                    not_before: notBefore ?? null,
+                    expires_at: expiresAt ?? null,
+                    scopes: scopes.join(','),
+                });
+
+                logger.info({ keyId, device: device.name, scopes }, 'Ed25519 API key created');
+                console.log(`Signature-Key-Id: ${keyId}`);
+                return;
+            }
+
+            const secret = generateApiSecret();
+            await apiKeyService.createApiKey({
+                key_id: keyId,
+                device_id: device.id,
+                secret,
+                not_before: notBefore ?? null,
+                expires_at: expiresAt ?? null,
+                scopes: scopes.join(','),
+            });
+
+            logger.info({ keyId, device: device.name, scopes }, 'API key created');
+            console.log(`Signature-Key-Id: ${keyId}`);
+            console.log(`Secret: ${secret}`);
+            return;
+        }
+
+        case 'deprecate': {
+            const [keyId] = args;
+            const expiresAt = parseDateArg(args[1]);
+
+            if (!keyId || expiresAt === null) {
+                logger.error(USAGE);
+                process.exitCode = 1;
+                return;
+            }
+
+            if (!(await apiKeyService.deprecateApiKey(keyId, expiresAt))) {
+                logger.error({ keyId }, 'Unknown API key');
+                process.exitCode = 1;
+                return;
+            }
+
+            logger.info({ keyId, expiresAt: expiresAt?.toISOString() }, 'API key deprecated');
+            return;
+        }
+
+        default:
+            logger.error(USAGE);
+            process.exitCode = 1;
+    }
+}
+
+main()
+    .catch((error) => {
+        logger.error({ error }, 'Failed to manage API keys');
+        process.exitCode = 1;
+    })
+    .finally(() => closeConnection());
@@ -0,0 +1,61 @@
+import 'dotenv/config';
+import { ReconciliationJob } from '../services/reconciliationJob.js';
+import { closeConnection } from '../db/config.js';
+import { logger } from '../utils/logger.js';
+
+const USAGE = 'Usage: yarn downtimes:reconcile [--dry-run] [--device <name>] [from] [to]';
+
+/**
+ * Scan the heartbeat history for gaps and record the missing downtime events
+ * The period defaults to the last RECONCILIATION_LOOKBACK milliseconds. With --dry-run, the
+ * changes are only printed.
+ * Usage: yarn downtimes:reconcile [--dry-run] [--device <name>] [from] [to]
+ */
+async function main(): Promise<void> {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes('--dry-run');
+    const deviceIndex = args.indexOf('--device');
+    const deviceName = deviceIndex >= 0 ? args[deviceIndex + 1] : undefined;
+    const [fromArg, toArg] = args.filter(
+        (arg, index) => !arg.startsWith('--') && (deviceIndex < 0 || index !== deviceIndex + 1)
+    );
+
+    const from = fromArg ? new Date(fromArg) : undefined;
+    const to = toArg ? new Date(toArg) : undefined;
+
+    if (
+        (deviceIndex >= 0 && !deviceName) ||
+        (from && Number.isNaN(from.getTime())) ||
+        (to && Number.isNaN(to.getTime()))
+    ) {
+        logger.error(USAGE);
+        process.exitCode = 1;
+        return;
+    }
+
+    const reports = await new ReconciliationJob(logger).run({ from, to, dryRun, deviceName });
+
+    for (const { device, changes } of reports) {
+        for (const change of changes) {
+            console.log(
+                [
+                    device,
+                    change.action,
+                    change.id === null ? 'new' : `#${change.id}`,
+                    change.started_at.toISOString(),
+                    change.ended_at?.toISOString() ?? 'ongoing',
+                ].join('\t')
+            );
+        }
+    }
+
+    const total = reports.reduce((count, report) => count + report.changes.length, 0);
+    console.log(dryRun ? `${total} change(s) would be made` : `${total} change(s) made`);
+}
+
+main()
+    .catch((error) => {
+        logger.error({ error }, 'Failed to reconcile downtime events');
+        process.exitCode = 1;
+    })
+    .finally(() => closeConnection());
@@ -0,0 +1,165 @@
+import { createPublicKey, randomBytes, type KeyObject } from 'node:crypto';
+import { db } from '../db/config.js';
+import type { ApiKeysTable, ApiKeysInsert, ApiKeysUpdate } from '../types/database.js';
+import { AUTH_SCOPES, type AuthScope } from '../constants/api.js';
+import { parseListParam } from '../utils/query.js';
+
+/**
+ * Algorithms used by agents to sign their requests
+ * - hmac-sha256: shared secret, stored by the server
+ * - ed25519: the agent holds the private key, the server only stores the public key
+ */
+export const SIGNATURE_ALGORITHMS = ['hmac-sha256', 'ed25519'] as const;
+
+export type SignatureAlgorithm = (typeof SIGNATURE_ALGORITHMS)[number];
+
+export interface ApiKey {
+    id: number;
+    key_id: string;
+    device_id: number;
+    algorithm: SignatureAlgorithm;
+    /** HMAC secret, null for ed25519 keys */
+    secret: string | null;
+    /** PEM encoded public key, null for hmac-sha256 keys */
+    public_key: string | null;
+    not_before: Date | null;
+    expires_at: Date | null;
+    deprecated: boolean;
+    scopes: AuthScope[];
+    created_at: Date;
+}
+
+/**
+ * Parse a comma-separated list of scopes
+ * @param value The scopes, e.g. "ingest,read"
+ * @returns The scopes, or null if one of them is unknown
+ */
+export function parseScopes(value: string): AuthScope[] | null {
+    const scopes = parseListParam(value, AUTH_SCOPES);
+
+    return scopes === undefined ? [] : scopes;
+}
+
+/**
+ * Parse a PEM encoded Ed25519 public key
+ * @param pem The public key in SPKI PEM format
+ * @returns The public key, or null if it is invalid or not an Ed25519 key
+ */
+export function parseEd25519PublicKey(pem: string): KeyObject | null {
+    try {
+        const publicKey = createPublicKey(pem);
+
+        return publicKey.asymmetricKeyType === 'ed25519' ? publicKey : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Converts a raw api_keys row into an API key
+ * Unknown scopes stored in the database are ignored. The algorithm is checked when
+ * verifying signatures, so that a key with an unknown algorithm is never accepted.
+ */
+function toApiKey(row: ApiKeysTable): ApiKey {
+    const scopes = row.scopes
+        .split(',')
+        .map((scope) => scope.trim())
+        .filter((scope): scope is AuthScope => AUTH_SCOPES.includes(scope as AuthScope));
+
+    return { ...row, algorithm: row.algorithm as SignatureAlgorithm, scopes };
+}
+
+/**
+ * Validity of an API key at a given time
+ * Deprecated keys are still accepted but their use is logged.
+ */
+export type ApiKeyStatus = 'valid' | 'deprecated' | 'not_yet_valid' | 'expired';
+
+/**
+ * Get the validity of an API key
+ * @param apiKey The API key
+ * @param now Reference time
+ * @returns The key status
+ */
+export function getApiKeyStatus(
+    apiKey: Pick<ApiKey, 'not_before' | 'expires_at' | 'deprecated'>,
+    now: Date = new Date()
+): ApiKeyStatus {
+    if (apiKey.not_before && new Date(apiKey.not_before) > now) {
+        return 'not_yet_valid';
+    }
+    if (apiKey.expires_at && new Date(apiKey.expires_at) <= now) {
+        return 'expired';
+    }
+
+    return apiKey.deprecated ? 'deprecated' : 'valid';
+}
+
+/**
+ * Generate a random secret for a new API key
+ * @returns A 64 characters base64url secret
+ */
+export function generateApiSecret(): string {
+    return randomBytes(48).toString('base64url');
+}
+
+/**
+ * ApiKeyService handles the HMAC keys used by devices to sign their requests
+ */
+export class ApiKeyService {
+    /**
+     * Get an API key by its key ID
+     * @param keyId The key ID sent in the Signature-Key-Id header
+     * @returns The API key or null if not found
+     */
+    async getApiKeyByKeyId(keyId: string): Promise<ApiKey | null> {
+        const apiKey = await db<ApiKeysTable>('api_keys').where('key_id', keyId).first();
+
+        return apiKey ? toApiKey(apiKey) : null;
+    }
+
+    /**
+     * Get every API key of a device
+     * @param deviceId The device ID
+     * @returns Array of API keys ordered by creation
+     */
+    async getApiKeysByDevice(deviceId: number): Promise<ApiKey[]> {
+        const apiKeys = await db<ApiKeysTable>('api_keys')
+            .where('device_id', deviceId)
+            .orderBy('id', 'asc');
+
+        return apiKeys.map(toApiKey);
+    }
+
+    /**
+     * Create a new API key
+     * @param apiKey The API key data
+     * @returns The ID of the created API key
+     */
+    async createApiKey(apiKey: ApiKeysInsert): Promise<number> {
+        const [id] = await db<ApiKeysTable>('api_keys').insert(apiKey);
+
+        return id as number;
+    }
+
+    /**
+     * Mark an API key as deprecated, optionally scheduling its expiry
+     * @param keyId The key ID
+     * @param expiresAt Optional date after which the key is rejected
+     * @returns true if the key exists
+     */
+    async deprecateApiKey(keyId: string, expiresAt?: Date): Promise<boolean> {
+        const updateData: ApiKeysUpdate = {
+            deprecated: true,
+            ...(expiresAt ? { expires_at: expiresAt } : {}),
+        };
+
+        const updated = await db<ApiKeysTable>('api_keys')
+            .where('key_id', keyId)
+            .update(updateData);
+
+        return updated > 0;
+    }
+}
+
+export default new ApiKeyService();
@@ -0,0 +1,177 @@
+/**
+ * Reasons why a request failed authentication, logged and counted against its source IP
+ */
+export type AuthFailureReason =
+    | 'invalid_header'
+    | 'invalid_timestamp'
+    | 'stale_timestamp'
+    | 'invalid_nonce'
+    | 'bad_signature'
+    | 'nonce_reused'
+    | 'invalid_key_header'
+    | 'unknown_key'
+    | 'device_mismatch'
+    | 'key_not_yet_valid'
+    | 'key_expired'
+    | 'weak_secret'
+    | 'invalid_public_key'
+    | 'unsupported_algorithm';
+
+/**
+ * A source IP currently locked out after repeated authentication failures
+ */
+export interface AuthLockout {
+    ip: string;
+    /** Failures counted in the window that triggered the lockout */
+    failures: number;
+    last_reason: AuthFailureReason;
+    locked_at: Date;
+    locked_until: Date;
+}
+
+interface FailureRecord {
+    /** Failure times in milliseconds, within the counting window */
+    failures: number[];
+    lastReason: AuthFailureReason;
+    lockedAt: number | null;
+    lockedUntil: number | null;
+}
+
+/**
+ * AuthLockoutService counts authentication failures per source IP and locks out IPs
+ * failing too often
+ *
+ * An IP failing AUTH_LOCKOUT_THRESHOLD times (default: 10, 0 disables lockouts) within
+ * AUTH_LOCKOUT_WINDOW milliseconds (default: 10 minutes) is locked out for
+ * AUTH_LOCKOUT_DURATION milliseconds (default: 15 minutes). A successful authentication
+ * clears the failures of its IP. Counters are kept in process memory.
+ */
+export class AuthLockoutService {
+    private records = new Map<string, FailureRecord>();
+
+    private get threshold(): number {
+        return Number.parseInt(process.env.AUTH_LOCKOUT_THRESHOLD ?? '10', 10);
+    }
+
+    private get windowMs(): number {
+        return Number.parseInt(process.env.AUTH_LOCKOUT_WINDOW ?? '600000', 10);
+    }
+
+    private get durationMs(): number {
+        return Number.parseInt(process.env.AUTH_LOCKOUT_DURATION ?? '900000', 10);
+    }
+
+    /**
+     * Get the end of the lockout of an IP
+     * @param ip The source IP
+     * @param now Reference time
+     * @returns When the lockout ends, or null if the IP is not locked out
+     */
+    getLockedUntil(ip: string, now: Date = new Date()): Date | null {
+        const lockedUntil = this.records.get(ip)?.lockedUntil;
+
+        return lockedUntil && lockedUntil > now.getTime() ? new Date(lockedUntil) : null;
+    }
+
+    /**
+     * Count an authentication failure of an IP
+     * @param ip The source IP
+     * @param reason Why the authentication failed
+     * @param now Reference time
+     * @returns true if this failure locked out the IP
+     */
+    recordFailure(ip: string, reason: AuthFailureReason, now: Date = new Date()): boolean {
+        const time = now.getTime();
+        this.purgeExpired(time);
+
+        const record = this.records.get(ip) ?? {
+            failures: [],
+            lastReason: reason,
+            lockedAt: null,
+            lockedUntil: null,
+        };
+        record.failures.push(time);
+        record.lastReason = reason;
+        this.records.set(ip, record);
+
+        const isLockedOut = record.lockedUntil !== null && record.lockedUntil > time;
+        if (isLockedOut || this.threshold <= 0 || record.failures.length < this.threshold) {
+            return false;
+        }
+
+        record.lockedAt = time;
+        record.lockedUntil = time + this.durationMs;
+        return true;
+    }
+
+    /**
+     * Clear the failures of an IP after a successful authentication
+     * @param ip The source IP
+     */
+    recordSuccess(ip: string): void {
+        const record = this.records.get(ip);
+
+        if (record && record.lockedUntil === null) {
+            this.records.delete(ip);
+        }
+    }
+
+    /**
+     * Get the IPs currently locked out
+     * @param now Reference time
+     * @returns The lockouts, the most recent first
+     */
+    getLockouts(now: Date = new Date()): AuthLockout[] {
+        this.purgeExpired(now.getTime());
+
+        const lockouts: AuthLockout[] = [];
+        for (const [ip, record] of this.records) {
+            if (record.lockedAt !== null && record.lockedUntil !== null) {
+                lockouts.push({
+                    ip,
+                    failures: record.failures.length,
+                    last_reason: record.lastReason,
+                    locked_at: new Date(record.lockedAt),
+                    locked_until: new Date(record.lockedUntil),
+                });
+            }
+        }
+
+        return lockouts.sort((a, b) => b.locked_at.getTime() - a.locked_at.getTime());
+    }
+
+    /**
+     * Lift the lockout of an IP and forget its failures
+     * @param ip The source IP
+     * @param now Reference time
+     * @returns true if the IP was locked out
+     */
+    unlock(ip: string, now: Date = new Date()): boolean {
+        const isLockedOut = this.getLockedUntil(ip, now) !== null;
+        this.records.delete(ip);
+
+        return isLockedOut;
+    }
+
+    /**
+     * Forget failures outside the counting window and ended lockouts
+     */
+    private purgeExpired(time: number): void {
+        const windowStart = time - this.windowMs;
+
+        for (const [ip, record] of this.records) {
+            if (record.lockedUntil !== null && record.lockedUntil <= time) {
+                this.records.delete(ip);
+                continue;
+            }
+            if (record.lockedUntil === null) {
+                record.failures = record.failures.filter((failure) => failure > windowStart);
+                if (record.failures.length === 0) {
+                    this.records.delete(ip);
+                }
+            }
+        }
+    }
+}
+
+export default new AuthLockoutService();
@@ -0,0 +1,177 @@
+import { db } from '../db/config.js';
+import type {
+    BackupEventsTable,
+    BackupEventsInsert,
+    BackupEventsUpdate,
+} from '../types/database.js';
+import type { HeartbeatRecord } from './heartbeat.js';
+
+/**
+ * A period during which a device was connected over its backup link (e.g. the 4G backup of
+ * the Freebox Delta), while its connection_state stayed up
+ */
+export interface BackupEvent {
+    id: number;
+    device_id: number;
+    started_at: Date;
+    ended_at: Date | null;
+    duration: number | null;
+    is_active: boolean;
+    /** The backup media_state or connection_type reported by the agent */
+    media: string | null;
+    /** Bytes transferred over the backup link, null until the event ends */
+    bytes_down: number | null;
+    bytes_up: number | null;
+    created_at: Date;
+}
+
+/**
+ * Bytes transferred between heartbeats
+ */
+export interface TransferredBytes {
+    bytes_down: number | null;
+    bytes_up: number | null;
+}
+
+/**
+ * Heartbeat fields telling which link a heartbeat was sent over
+ */
+export type ConnectionSnapshot = Pick<HeartbeatRecord, 'media_state' | 'connection_type'>;
+
+/**
+ * Check whether a heartbeat was sent over a backup link
+ * Matches connection types and media states such as "backup", "backup_4g" or "lte".
+ */
+export function isBackupConnection(heartbeat: ConnectionSnapshot): boolean {
+    return [heartbeat.connection_type, heartbeat.media_state].some(
+        (value) => value !== null && /backup|4g|lte/i.test(value)
+    );
+}
+
+/**
+ * Compute the bytes transferred over a series of heartbeats from their byte counters
+ * A counter lower than the previous one was reset (e.g. box reboot) and counts from zero.
+ * @param heartbeats The heartbeats, in chronological order
+ * @returns The bytes received and sent, null when fewer than two heartbeats carry a counter
+ */
+export function computeTransferredBytes(
+    heartbeats: Pick<HeartbeatRecord, 'bytes_down' | 'bytes_up'>[]
+): TransferredBytes {
+    const sum = (counters: number[]): number | null =>
+        counters.length < 2
+            ? null
+            : counters.slice(1).reduce((total, counter, index) => {
+                  const delta = counter - counters[index];
+                  return total + (delta >= 0 ? delta : counter);
+              }, 0);
+
+    return {
+        bytes_down: sum(
+            heartbeats.flatMap((heartbeat) =>
+                heartbeat.bytes_down === null ? [] : [Number(heartbeat.bytes_down)]
+            )
+        ),
+        bytes_up: sum(
+            heartbeats.flatMap((heartbeat) =>
+                heartbeat.bytes_up === null ? [] : [Number(heartbeat.bytes_up)]
+            )
+        ),
+    };
+}
+
+/**
+ * BackupService handles tracking the periods spent on the backup link
+ */
+export class BackupService {
+    /**
+     * Create a new backup event
+     * @param deviceId The device that switched to its backup link
+     * @param startedAt When the device switched to its backup link
+     * @param media The backup media_state or connection_type
+     * @returns The ID of the created backup event
+     */
+    async createBackupEvent(
+        deviceId: number,
+        startedAt: Date,
+        media: string | null = null
+    ): Promise<number> {
+        const insertData: BackupEventsInsert = {
+            device_id: deviceId,
+            started_at: startedAt,
+            is_active: true,
+            media,
+        };
+
+        const [id] = await db<BackupEventsTable>('backup_events').insert(insertData);
+
+        return id as number;
+    }
+
+    /**
+     * End a backup event
+     * @param id The backup event ID
+     * @param endedAt When the device switched back to its primary link
+     * @param bytes Bytes transferred over the backup link
+     * @throws Error if the backup event does not exist
+     */
+    async endBackupEvent(id: number, endedAt: Date, bytes: TransferredBytes): Promise<void> {
+        const backupEvent = await db<BackupEventsTable>('backup_events').where('id', id).first();
+
+        if (!backupEvent) {
+            throw new Error(`Backup event with ID ${id} not found`);
+        }
+
+        const startedAt = new Date(backupEvent.started_at);
+        const updateData: BackupEventsUpdate = {
+            ended_at: endedAt,
+            duration: Math.floor((endedAt.getTime() - startedAt.getTime()) / 1000),
+            is_active: false,
+            bytes_down: bytes.bytes_down,
+            bytes_up: bytes.bytes_up,
+        };
+
+        await db<BackupEventsTable>('backup_events').where('id', id).update(updateData);
+    }
+
+    /**
+     * Get the active backup event of a device
+     * @param deviceId The device ID
+     * @returns The active backup event or null if the device is on its primary link
+     */
+    async getActiveBackupEvent(deviceId: number): Promise<BackupEvent | null> {
+        const event = await db<BackupEventsTable>('backup_events')
+            .where('device_id', deviceId)
+            .andWhere('is_active', true)
+            .orderBy('started_at', 'desc')
+            .first();
+
+        return event ?? null;
+    }
+
+    /**
+     * Get every backup event overlapping a date range, including the active ones
+     * @param startDate Start date
+     * @param endDate End date
+     * @param deviceId Optional device ID to restrict the events to
+     * @returns Array of backup events ordered from the oldest to the most recent
+     */
+    async getBackupEventsInRange(
+        startDate: Date,
+        endDate: Date,
+        deviceId?: number
+    ): Promise<BackupEvent[]> {
+        const builder = db<BackupEventsTable>('backup_events')
+            .where('started_at', '<=', endDate)
+            .andWhere((rangeBuilder) => {
+                rangeBuilder.where('ended_at', '>=', startDate).orWhereNull('ended_at');
+            });
+
+        if (deviceId !== undefined) {
+            builder.where('device_id', deviceId);
+        }
+
+        return await builder.orderBy('started_at', 'asc');
+    }
+}
+
+export default new BackupService();
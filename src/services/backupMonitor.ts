@@ -0,0 +1,96 @@
+import type { FastifyBaseLogger } from 'fastify';
+import heartbeatService, { type HeartbeatInput } from './heartbeat.js';
+import backupService, { computeTransferredBytes, isBackupConnection } from './backup.js';
+import { getDeviceDisplayName, type Device } from './device.js';
+import { NotificationService } from './notification.js';
+
+/**
+ * BackupMonitor tracks the failovers of the devices to their backup link
+ *
+ * While a Freebox runs on its 4G backup, its connection_state stays up and only its
+ * connection_type or media_state tell the difference. A backup event starts at the first
+ * heartbeat sent over the backup link and ends at the first heartbeat back on the primary
+ * line. Heartbeats of a line that is not up, or without connection_type and media_state,
+ * say nothing about the link and are ignored.
+ */
+export class BackupMonitor {
+    private logger: FastifyBaseLogger;
+    private notificationService: NotificationService;
+
+    constructor(logger: FastifyBaseLogger, notificationService: NotificationService) {
+        this.logger = logger.child({ service: 'BackupMonitor' });
+        this.notificationService = notificationService;
+    }
+
+    /**
+     * Start or end the backup event of a device from recorded heartbeats
+     * @param device The device that sent the heartbeats
+     * @param heartbeats The heartbeats, in any order
+     */
+    async checkHeartbeats(device: Device, heartbeats: HeartbeatInput[]): Promise<void> {
+        const sorted = heartbeats
+            .filter(
+                (heartbeat) =>
+                    heartbeat.connection_state === 'up' &&
+                    (heartbeat.connection_type !== undefined || heartbeat.media_state !== undefined)
+            )
+            .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+        if (sorted.length === 0) {
+            return;
+        }
+
+        let activeBackup = await backupService.getActiveBackupEvent(device.id);
+
+        for (const heartbeat of sorted) {
+            const timestamp = new Date(heartbeat.timestamp);
+            const onBackup = isBackupConnection({
+                connection_type: heartbeat.connection_type ?? null,
+                media_state: heartbeat.media_state ?? null,
+            });
+
+            if (onBackup && !activeBackup) {
+                const media = heartbeat.media_state ?? heartbeat.connection_type ?? null;
+                const backupId = await backupService.createBackupEvent(device.id, timestamp, media);
+                activeBackup = await backupService.getActiveBackupEvent(device.id);
+
+                this.logger.warn({ backupId, device: device.name, media }, 'Backup mode started');
+
+                if (this.notificationService.isEnabled()) {
+                    await this.notificationService.sendBackupStartedAlert({
+                        backupId,
+                        startedAt: timestamp,
+                        device: getDeviceDisplayName(device),
+                        media,
+                    });
+                }
+            } else if (!onBackup && activeBackup && timestamp > new Date(activeBackup.started_at)) {
+                const startedAt = new Date(activeBackup.started_at);
+                const bytes = computeTransferredBytes(
+                    await heartbeatService.getHeartbeatsInRange(startedAt, timestamp, device.id)
+                );
+                await backupService.endBackupEvent(activeBackup.id, timestamp, bytes);
+
+                this.logger.info(
+                    { backupId: activeBackup.id, device: device.name, ...bytes },
+                    'Backup mode ended'
+                );
+
+                if (this.notificationService.isEnabled()) {
+                    await this.notificationService.sendBackupEndedAlert(
+                        {
+                            backupId: activeBackup.id,
+                            startedAt,
+                            device: getDeviceDisplayName(device),
+                            media: activeBackup.media,
+                        },
+                        timestamp,
+                        bytes
+                    );
+                }
+
+                activeBackup = null;
+            }
+        }
+    }
+}
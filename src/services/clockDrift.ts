@@ -0,0 +1,80 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { getDeviceDisplayName, type Device } from './device.js';
+import { NotificationService } from './notification.js';
+
+/**
+ * Compute the drift between the reception of a heartbeat and its timestamp
+ * A positive drift means the agent clock is behind the server (or the request was slow),
+ * a negative drift that it is ahead.
+ * @param timestamp Timestamp sent by the agent
+ * @param receivedAt When the server received the heartbeat
+ * @returns The drift in milliseconds
+ */
+export function computeClockDrift(timestamp: Date, receivedAt: Date): number {
+    return receivedAt.getTime() - timestamp.getTime();
+}
+
+/**
+ * ClockDriftMonitor warns when the clock of a device drifts from the server clock
+ *
+ * Signed requests are rejected once the drift exceeds the accepted timestamp skew, so a
+ * warning is sent when the drift of a live heartbeat exceeds CLOCK_DRIFT_THRESHOLD
+ * (default: 30 seconds, 0 disables the warning). A device is only reported again once its
+ * drift went back under the threshold.
+ */
+export class ClockDriftMonitor {
+    private driftingDeviceIds = new Set<number>();
+    private readonly thresholdMs: number;
+    private logger: FastifyBaseLogger;
+    private notificationService: NotificationService;
+
+    constructor(logger: FastifyBaseLogger, notificationService: NotificationService) {
+        this.logger = logger.child({ service: 'ClockDriftMonitor' });
+        this.notificationService = notificationService;
+
+        this.thresholdMs = Number.parseInt(process.env.CLOCK_DRIFT_THRESHOLD ?? '30000', 10);
+
+        if (Number.isNaN(this.thresholdMs)) {
+            throw new Error('Invalid CLOCK_DRIFT_THRESHOLD: must be a number of milliseconds');
+        }
+    }
+
+    /**
+     * Check the drift of a live heartbeat and warn if it exceeds the threshold
+     * @param device The device that sent the heartbeat
+     * @param clockDrift The drift in milliseconds
+     * @returns true if a warning was sent
+     */
+    async checkDrift(device: Device, clockDrift: number): Promise<boolean> {
+        if (this.thresholdMs <= 0) {
+            return false;
+        }
+
+        if (Math.abs(clockDrift) <= this.thresholdMs) {
+            if (this.driftingDeviceIds.delete(device.id)) {
+                this.logger.info({ device: device.name, clockDrift }, 'Clock drift resolved');
+            }
+            return false;
+        }
+
+        if (this.driftingDeviceIds.has(device.id)) {
+            return false;
+        }
+
+        this.driftingDeviceIds.add(device.id);
+        this.logger.warn(
+            { device: device.name, clockDrift, thresholdMs: this.thresholdMs },
+            'Clock drift exceeds threshold'
+        );
+
+        if (this.notificationService.isEnabled()) {
+            await this.notificationService.sendClockDriftAlert(
+                getDeviceDisplayName(device),
+                clockDrift,
+                this.thresholdMs
+            );
+        }
+
+        return true;
+    }
+}
@@ -6,7 +6,22 @@ import { ChartConfiguration } from 'chart.js';
 import fs from 'fs/promises';
 import path from 'path';
 import { logger } from '../utils/logger.js';
-import { HeartbeatService } from './heartbeat.js';
+import { HeartbeatService, getArrivalTime } from './heartbeat.js';
+import statsService, {
+    computeHeartbeatStats,
+    estimateHeartbeatInterval,
+    type HeartbeatStats,
+} from './stats.js';
+import defaultDowntimeService, {
+    DowntimeService,
+    getClippedDuration,
+    type DowntimeEventInRange,
+} from './downtime.js';
+import defaultDeviceService, {
+    DeviceService,
+    getDeviceDisplayName,
+    type Device,
+} from './device.js';
 
 const WATERMARK = 'github.com/teol/freebox-watcher';
 const DEFAULT_CRON_SCHEDULE = '0 5 * * *'; // Daily at 5:00 AM
@@ -17,6 +32,8 @@ const DEFAULT_CRON_SCHEDULE = '0 5 * * *'; // Daily at 5:00 AM
 export class DailyChartService {
     private cronJob: cron.ScheduledTask | null = null;
     private heartbeatService: HeartbeatService;
+    private downtimeService: DowntimeService;
+    private deviceService: DeviceService;
     private discordWebhookUrl: string | null;
     private cronSchedule: string;
     private intervalHours: number;
@@ -28,9 +45,13 @@ export class DailyChartService {
     constructor(
         heartbeatService: HeartbeatService,
         discordWebhookUrl?: string,
-        cronSchedule?: string
+        cronSchedule?: string,
+        downtimeService: DowntimeService = defaultDowntimeService,
+        deviceService: DeviceService = defaultDeviceService
     ) {
         this.heartbeatService = heartbeatService;
+        this.downtimeService = downtimeService;
+        this.deviceService = deviceService;
         this.discordWebhookUrl = discordWebhookUrl || null;
         this.cronSchedule = cronSchedule || DEFAULT_CRON_SCHEDULE;
         this.intervalHours = DailyChartService.parseCronInterval(this.cronSchedule);
@@ -141,6 +162,7 @@ export class DailyChartService {
 
     /**
      * Manually trigger chart generation and sending (useful for testing)
+     * One chart is sent per device.
      */
     public async generateAndSendChart(): Promise<void> {
         if (!this.discordWebhookUrl) {
@@ -148,33 +170,82 @@ export class DailyChartService {
             return;
         }
 
-        let chartPath: string | undefined;
         try {
-            logger.info('Starting chart generation...');
-
-            // Get heartbeat data for the configured time interval
+            // Get data for the configured time interval
             const endDate = new Date();
             const startDate = new Date(endDate.getTime() - this.intervalHours * 60 * 60 * 1000);
 
-            const heartbeats = await this.heartbeatService.getHeartbeatsInRange(startDate, endDate);
+            const devices = await this.deviceService.getDevices();
+
+            for (const device of devices) {
+                await this.generateAndSendDeviceChart(device, startDate, endDate);
+            }
+        } catch (error) {
+            logger.error({ error }, 'Error generating or sending daily chart');
+            // Do not re-throw to prevent crashing the scheduled task, allowing future runs.
+        }
+    }
+
+    /**
+     * Generate and send the chart of a single device
+     */
+    private async generateAndSendDeviceChart(
+        device: Device,
+        startDate: Date,
+        endDate: Date
+    ): Promise<void> {
+        let chartPath: string | undefined;
+        try {
+            logger.info({ device: device.name }, 'Starting chart generation...');
+
+            const heartbeats = await this.heartbeatService.getHeartbeatsInRange(
+                startDate,
+                endDate,
+                device.id
+            );
 
             if (heartbeats.length === 0) {
                 logger.warn(
+                    { device: device.name },
                     `No heartbeat data available for the last ${this.intervalHours} hour(s)`
                 );
                 return;
             }
 
+            // Observed downtime events overlapping the interval, false positives aside
+            const observedEvents = (
+                await this.downtimeService.getDowntimeEventsInRange(startDate, endDate, device.id)
+            ).filter((event) => !event.cleared && !event.unobserved);
+            // Planned ones only count once they outlast their maintenance, clipped to the interval
+            const downtimeEvents = (await statsService.excludeMaintenance(observedEvents))
+                .map((event) => ({
+                    ...event,
+                    clipped_duration: getClippedDuration(event, startDate, endDate),
+                }))
+                .filter((event) => !event.planned || event.clipped_duration > 0);
+
+            // Expected, received and missed heartbeats, at the interval learned over the report
+            const arrivals = heartbeats
+                .map((heartbeat) => getArrivalTime(heartbeat))
+                .sort((a, b) => a.getTime() - b.getTime());
+            const heartbeatStats = computeHeartbeatStats(
+                arrivals,
+                { from: startDate, to: endDate },
+                estimateHeartbeatInterval(arrivals)
+            );
+
+            const deviceName = getDeviceDisplayName(device);
+
             // Generate chart image
-            chartPath = await this.createChartImage(heartbeats);
+            chartPath = await this.createChartImage(heartbeats, deviceName);
 
             // Send to Discord
-            await this.sendToDiscord(chartPath);
+            await this.sendToDiscord(chartPath, downtimeEvents, heartbeatStats, deviceName);
 
-            logger.info('Chart generated and sent successfully');
+            logger.info({ device: device.name }, 'Chart generated and sent successfully');
         } catch (error) {
-            logger.error({ error }, 'Error generating or sending daily chart');
-            // Do not re-throw to prevent crashing the scheduled task, allowing future runs.
+            logger.error({ error, device: device.name }, 'Error generating or sending daily chart');
+            // Do not re-throw so that the charts of the other devices are still sent.
             // The error has been logged for monitoring and debugging purposes.
         } finally {
             // Always clean up temporary file
@@ -196,7 +267,8 @@ export class DailyChartService {
      * Creates a chart image from heartbeat data
      */
     private async createChartImage(
-        heartbeats: Array<{ timestamp: Date; rate_down: number | null; rate_up: number | null }>
+        heartbeats: Array<{ timestamp: Date; rate_down: number | null; rate_up: number | null }>,
+        deviceName: string
     ): Promise<string> {
         const canvasRenderService = new ChartJSNodeCanvas({
             width: this.chartWidth,
@@ -270,7 +342,7 @@ export class DailyChartService {
                 plugins: {
                     title: {
                         display: true,
-                        text: `Freebox Network Rate - Last ${this.intervalHours === 1 ? 'Hour' : `${this.intervalHours} Hours`} (${new Date().toLocaleDateString('en-US')})`,
+                        text: `Freebox Network Rate (${deviceName}) - Last ${this.intervalHours === 1 ? 'Hour' : `${this.intervalHours} Hours`} (${new Date().toLocaleDateString('en-US')})`,
                         color: 'rgba(255, 255, 255, 0.9)',
                         font: {
                             size: 22,
@@ -350,10 +422,66 @@ export class DailyChartService {
         return chartPath;
     }
 
+    /**
+     * Builds the Discord embed fields summarizing downtime over the report interval
+     */
+    private buildDowntimeFields(
+        downtimeEvents: DowntimeEventInRange[]
+    ): Array<{ name: string; value: string; inline: boolean }> {
+        const totalSeconds = downtimeEvents.reduce(
+            (total, event) => total + event.clipped_duration,
+            0
+        );
+        const longestSeconds = downtimeEvents.reduce(
+            (longest, event) => Math.max(longest, event.clipped_duration),
+            0
+        );
+        const intervalSeconds = this.intervalHours * 60 * 60;
+        const availability = ((intervalSeconds - totalSeconds) / intervalSeconds) * 100;
+
+        const formatMinutes = (seconds: number): string => `${Math.round(seconds / 60)} min`;
+
+        return [
+            { name: 'Availability', value: `${availability.toFixed(2)}%`, inline: true },
+            { name: 'Downtimes', value: `${downtimeEvents.length}`, inline: true },
+            { name: 'Total downtime', value: formatMinutes(totalSeconds), inline: true },
+            { name: 'Longest outage', value: formatMinutes(longestSeconds), inline: true },
+        ];
+    }
+
+    /**
+     * Builds the Discord embed fields summarizing missed heartbeats and jitter
+     */
+    private buildHeartbeatFields(
+        stats: HeartbeatStats
+    ): Array<{ name: string; value: string; inline: boolean }> {
+        const formatSeconds = (milliseconds: number | null): string =>
+            milliseconds === null ? 'n/a' : `${(milliseconds / 1000).toFixed(1)} s`;
+
+        return [
+            {
+                name: 'Heartbeats',
+                value: `${stats.received} / ${stats.expected} expected`,
+                inline: true,
+            },
+            {
+                name: 'Missed',
+                value: stats.loss === null ? 'n/a' : `${stats.missed} (${stats.loss}%)`,
+                inline: true,
+            },
+            { name: 'Jitter (p95)', value: formatSeconds(stats.jitter_p95), inline: true },
+        ];
+    }
+
     /**
      * Sends the chart image to Discord via webhook
      */
-    private async sendToDiscord(imagePath: string): Promise<void> {
+    private async sendToDiscord(
+        imagePath: string,
+        downtimeEvents: DowntimeEventInRange[],
+        heartbeatStats: HeartbeatStats,
+        deviceName: string
+    ): Promise<void> {
         if (!this.discordWebhookUrl) {
             throw new Error('Discord webhook URL is not configured');
         }
@@ -367,10 +495,14 @@ export class DailyChartService {
         formData.append('file', blob, filename);
 
         const payload = {
-            content: `📊 **Freebox Network Rate ${this.getIntervalDescription('discord')}**`,
+            content: `📊 **Freebox Network Rate (${deviceName}) ${this.getIntervalDescription('discord')}**`,
             embeds: [
                 {
                     color: 0x5865f2,
+                    fields: [
+                        ...this.buildDowntimeFields(downtimeEvents),
+                        ...this.buildHeartbeatFields(heartbeatStats),
+                    ],
                     timestamp: new Date().toISOString(),
                     footer: {
                         text: 'Freebox Watcher',
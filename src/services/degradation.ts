@@ -0,0 +1,292 @@
+import type { FastifyBaseLogger } from 'fastify';
+import heartbeatService, { type HeartbeatRecord } from './heartbeat.js';
+import { getDeviceDisplayName, type Device } from './device.js';
+import incidentService from './incident.js';
+import { NotificationService } from './notification.js';
+
+/**
+ * Heartbeat metrics checked for degradation, all in bits per second
+ * - bandwidth_*: sync rate of the line
+ * - rate_*: throughput measured by the agent
+ */
+export const DEGRADATION_METRICS = [
+    'bandwidth_down',
+    'bandwidth_up',
+    'rate_down',
+    'rate_up',
+] as const;
+
+export type DegradationMetric = (typeof DEGRADATION_METRICS)[number];
+
+/**
+ * Human readable names of the metrics, used in incident notes and notifications
+ */
+const DEGRADATION_METRIC_LABELS: Record<DegradationMetric, string> = {
+    bandwidth_down: 'Line rate down',
+    bandwidth_up: 'Line rate up',
+    rate_down: 'Throughput down',
+    rate_up: 'Throughput up',
+};
+
+/**
+ * Minimum acceptable value of each metric, metrics without a threshold are not checked
+ */
+export type DegradationThresholds = Partial<Record<DegradationMetric, number>>;
+
+type DegradationSample = Pick<HeartbeatRecord, DegradationMetric>;
+
+/**
+ * Parse a degradation threshold
+ * @param value Absolute value in bits per second (e.g. "50000000"), or percentage of the
+ *              subscription speed (e.g. "50%"); empty to disable the threshold
+ * @param subscriptionSpeed Subscription speed in bits per second, required by percentages
+ * @returns The threshold in bits per second, or null if disabled
+ * @throws Error if the value is invalid
+ */
+export function parseDegradationThreshold(
+    value: string | undefined,
+    subscriptionSpeed: number | null
+): number | null {
+    const trimmed = value?.trim() ?? '';
+    if (trimmed === '') {
+        return null;
+    }
+
+    if (trimmed.endsWith('%')) {
+        const percentage = Number(trimmed.slice(0, -1));
+        if (subscriptionSpeed === null || !(percentage > 0 && percentage <= 100)) {
+            throw new Error(`expected a percentage of a configured subscription speed: ${value}`);
+        }
+        return Math.round((subscriptionSpeed * percentage) / 100);
+    }
+
+    const threshold = Number(trimmed);
+    if (!Number.isInteger(threshold) || threshold <= 0) {
+        throw new Error(`expected a positive number of bits per second or a percentage: ${value}`);
+    }
+
+    return threshold;
+}
+
+/**
+ * Get the metrics of a heartbeat below their threshold
+ * Metrics the heartbeat does not carry are not considered breached.
+ * @param heartbeat The heartbeat
+ * @param thresholds The degradation thresholds
+ * @returns The breached metrics
+ */
+export function getBreachedMetrics(
+    heartbeat: DegradationSample,
+    thresholds: DegradationThresholds
+): DegradationMetric[] {
+    return DEGRADATION_METRICS.filter((metric) => {
+        const threshold = thresholds[metric];
+        const value = heartbeat[metric];
+
+        return threshold !== undefined && value !== null && value < threshold;
+    });
+}
+
+/**
+ * Get the metrics breached by every heartbeat of a series
+ * @param heartbeats The heartbeats
+ * @param thresholds The degradation thresholds
+ * @returns The metrics breached throughout the series, empty for an empty series
+ */
+export function getSustainedBreaches(
+    heartbeats: DegradationSample[],
+    thresholds: DegradationThresholds
+): DegradationMetric[] {
+    if (heartbeats.length === 0) {
+        return [];
+    }
+
+    return heartbeats
+        .map((heartbeat) => getBreachedMetrics(heartbeat, thresholds))
+        .reduce((sustained, breached) => sustained.filter((metric) => breached.includes(metric)));
+}
+
+/**
+ * Format a bit rate for humans
+ * @param bitsPerSecond The bit rate
+ * @returns The bit rate in Kbps, Mbps or Gbps
+ */
+export function formatBitRate(bitsPerSecond: number): string {
+    if (bitsPerSecond >= 1e9) {
+        return `${Number((bitsPerSecond / 1e9).toFixed(2))} Gbps`;
+    }
+    if (bitsPerSecond >= 1e6) {
+        return `${Number((bitsPerSecond / 1e6).toFixed(1))} Mbps`;
+    }
+    return `${Math.round(bitsPerSecond / 1e3)} Kbps`;
+}
+
+/**
+ * DegradationMonitor opens degraded incidents when the line is up but slow
+ *
+ * A device is degraded once every heartbeat of the last DEGRADED_DURATION (default: 10
+ * minutes) is below the same threshold, and recovers once every heartbeat of that duration
+ * is above all of them. Heartbeats of a line that is not up belong to outages and suspend
+ * the evaluation. Thresholds are disabled unless configured.
+ */
+export class DegradationMonitor {
+    private readonly thresholds: DegradationThresholds = {};
+    private readonly durationMs: number;
+    private logger: FastifyBaseLogger;
+    private notificationService: NotificationService;
+
+    constructor(logger: FastifyBaseLogger, notificationService: NotificationService) {
+        this.logger = logger.child({ service: 'DegradationMonitor' });
+        this.notificationService = notificationService;
+
+        // Parse configuration from environment variables
+        this.durationMs = Number.parseInt(process.env.DEGRADED_DURATION ?? '600000', 10);
+        const subscriptionDown = process.env.SUBSCRIPTION_SPEED_DOWN
+            ? Number.parseInt(process.env.SUBSCRIPTION_SPEED_DOWN, 10)
+            : null;
+        const subscriptionUp = process.env.SUBSCRIPTION_SPEED_UP
+            ? Number.parseInt(process.env.SUBSCRIPTION_SPEED_UP, 10)
+            : null;
+
+        if (
+            Number.isNaN(this.durationMs) ||
+            Number.isNaN(subscriptionDown) ||
+            Number.isNaN(subscriptionUp)
+        ) {
+            throw new Error(
+                'Invalid degradation configuration: One or more environment variables are not valid numbers.'
+            );
+        }
+
+        const values: Record<DegradationMetric, string | undefined> = {
+            bandwidth_down: process.env.DEGRADED_BANDWIDTH_DOWN,
+            bandwidth_up: process.env.DEGRADED_BANDWIDTH_UP,
+            rate_down: process.env.DEGRADED_RATE_DOWN,
+            rate_up: process.env.DEGRADED_RATE_UP,
+        };
+
+        for (const metric of DEGRADATION_METRICS) {
+            try {
+                const threshold = parseDegradationThreshold(
+                    values[metric],
+                    metric.endsWith('_down') ? subscriptionDown : subscriptionUp
+                );
+                if (threshold !== null) {
+                    this.thresholds[metric] = threshold;
+                }
+            } catch (error) {
+                throw new Error(
+                    `Invalid degradation configuration: DEGRADED_${metric.toUpperCase()} ${(error as Error).message}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Check if at least one degradation threshold is configured
+     */
+    isEnabled(): boolean {
+        return Object.keys(this.thresholds).length > 0;
+    }
+
+    /**
+     * Open or close the degraded incident of a device from its recent heartbeats
+     * @param device The device
+     * @param now Current time
+     */
+    async checkDegradation(device: Device, now: Date = new Date()): Promise<void> {
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        const since = new Date(now.getTime() - this.durationMs);
+        const [previousHeartbeat, recentHeartbeats] = await Promise.all([
+            heartbeatService.getHeartbeatBefore(since, device.id),
+            heartbeatService.getHeartbeatsInRange(since, now, device.id),
+        ]);
+
+        // The heartbeats must cover the whole duration, while the line is up
+        if (!previousHeartbeat) {
+            return;
+        }
+        const heartbeats = [previousHeartbeat, ...recentHeartbeats];
+        if (heartbeats.some((heartbeat) => heartbeat.status !== 'up')) {
+            return;
+        }
+
+        const activeIncident = await incidentService.getActiveIncident(device.id, 'degraded');
+        const observedSince = new Date(previousHeartbeat.timestamp);
+
+        if (!activeIncident) {
+            const breaches = getSustainedBreaches(heartbeats, this.thresholds);
+            if (breaches.length > 0) {
+                await this.openIncident(device, observedSince, breaches, heartbeats);
+            }
+            return;
+        }
+
+        const healthy = heartbeats.every(
+            (heartbeat) => getBreachedMetrics(heartbeat, this.thresholds).length === 0
+        );
+        if (!healthy) {
+            return;
+        }
+
+        await incidentService.endIncident(activeIncident.id, observedSince);
+
+        this.logger.info(
+            { incidentId: activeIncident.id, device: device.name },
+            'Ended degraded incident'
+        );
+
+        if (this.notificationService.isEnabled()) {
+            await this.notificationService.sendDegradationRecoveredAlert(
+                {
+                    incidentId: activeIncident.id,
+                    startedAt: new Date(activeIncident.started_at),
+                    device: getDeviceDisplayName(device),
+                },
+                observedSince
+            );
+        }
+    }
+
+    /**
+     * Open a degraded incident and alert on it
+     */
+    private async openIncident(
+        device: Device,
+        startedAt: Date,
+        breaches: DegradationMetric[],
+        heartbeats: HeartbeatRecord[]
+    ): Promise<void> {
+        // Lowest value of each breached metric over the duration, against its threshold
+        const details = breaches
+            .map((metric) => {
+                const lowest = Math.min(
+                    ...heartbeats.map((heartbeat) => heartbeat[metric] as number)
+                );
+                const threshold = this.thresholds[metric] as number;
+
+                return `${DEGRADATION_METRIC_LABELS[metric]} ${formatBitRate(lowest)} < ${formatBitRate(threshold)}`;
+            })
+            .join(', ');
+
+        const incidentId = await incidentService.createIncident(
+            device.id,
+            startedAt,
+            'degraded',
+            details
+        );
+
+        this.logger.warn({ incidentId, device: device.name, details }, 'Opened degraded incident');
+
+        if (this.notificationService.isEnabled()) {
+            await this.notificationService.sendDegradedAlert(
+                { incidentId, startedAt, device: getDeviceDisplayName(device) },
+                details,
+                this.durationMs
+            );
+        }
+    }
+}
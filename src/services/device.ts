@@ -0,0 +1,72 @@
+import { db } from '../db/config.js';
+import type { DevicesTable, DevicesInsert } from '../types/database.js';
+
+/**
+ * Name of the device created by the migrations, which can authenticate with API_SECRET
+ */
+export const DEFAULT_DEVICE_NAME = 'default';
+
+export interface Device {
+    id: number;
+    name: string;
+    label: string | null;
+    heartbeat_timeout: number | null;
+    created_at: Date;
+}
+
+/**
+ * Get the name used to refer to a device in notifications and logs
+ * @param device The device
+ * @returns The device label, or its name when no label is set
+ */
+export function getDeviceDisplayName(device: Pick<Device, 'name' | 'label'>): string {
+    return device.label || device.name;
+}
+
+/**
+ * DeviceService handles the monitored Freebox devices
+ */
+export class DeviceService {
+    /**
+     * Get all devices
+     * @returns Array of devices ordered by ID
+     */
+    async getDevices(): Promise<Device[]> {
+        return await db<DevicesTable>('devices').orderBy('id', 'asc');
+    }
+
+    /**
+     * Get a device by ID
+     * @param id The device ID
+     * @returns The device or null if not found
+     */
+    async getDeviceById(id: number): Promise<Device | null> {
+        const device = await db<DevicesTable>('devices').where('id', id).first();
+
+        return device ?? null;
+    }
+
+    /**
+     * Get a device by its unique name
+     * @param name The device name
+     * @returns The device or null if not found
+     */
+    async getDeviceByName(name: string): Promise<Device | null> {
+        const device = await db<DevicesTable>('devices').where('name', name).first();
+
+        return device ?? null;
+    }
+
+    /**
+     * Create a new device
+     * @param device The device data
+     * @returns The ID of the created device
+     */
+    async createDevice(device: DevicesInsert): Promise<number> {
+        const [id] = await db<DevicesTable>('devices').insert(device);
+
+        return id as number;
+    }
+}
+
+export default new DeviceService();
@@ -1,17 +1,126 @@
+import type { Knex } from 'knex';
 import { db } from '../db/config.js';
 import type {
     DowntimeEventsTable,
     DowntimeEventsInsert,
     DowntimeEventsUpdate,
 } from '../types/database.js';
+import { encodeCursor, type Cursor } from '../utils/query.js';
+import type { DowntimeCause } from './downtimeCause.js';
+
+/**
+ * How a downtime was detected
+ * - heartbeat_silence: no heartbeat arrived for longer than the heartbeat timeout
+ * - reported_down: the agent kept reporting a connection_state other than up
+ */
+export const DOWNTIME_SOURCES = ['heartbeat_silence', 'reported_down'] as const;
+
+export type DowntimeSource = (typeof DOWNTIME_SOURCES)[number];
+
+/**
+ * Telegram alerts sent once per downtime, each recorded in its own *_sent_at column
+ * - alert: the downtime was detected or reported
+ * - recovery: the downtime ended
+ * Escalation alerts are counted in escalation_count instead.
+ */
+export const DOWNTIME_NOTIFICATIONS = ['alert', 'recovery'] as const;
+
+export type DowntimeNotification = (typeof DOWNTIME_NOTIFICATIONS)[number];
+
+const NOTIFICATION_COLUMNS = {
+    alert: 'alert_sent_at',
+    recovery: 'recovery_sent_at',
+} as const satisfies Record<DowntimeNotification, keyof DowntimeEventsTable>;
 
 export interface DowntimeEvent {
     id: number;
+    device_id: number;
     started_at: Date;
     ended_at: Date | null;
     duration: number | null;
     is_active: boolean;
     notes: string | null;
+    source: DowntimeSource;
+    /** Probable cause, provisional until the downtime ends */
+    cause: DowntimeCause | null;
+    /** Flapping incident grouping this downtime, if any */
+    incident_id: number | null;
+    /** Started during a maintenance window: not alerted on nor counted in availability */
+    planned: boolean;
+    /** Overlaps a period during which the watcher was offline: not counted in availability */
+    unobserved: boolean;
+    /** Proved a false positive by replayed heartbeats: neither recovered nor counted */
+    cleared: boolean;
+    alert_sent_at: Date | null;
+    recovery_sent_at: Date | null;
+    /** Escalation alerts sent so far, stages and reminders included */
+    escalation_count: number;
+    escalated_at: Date | null;
+}
+
+export interface DowntimeEventInRange extends DowntimeEvent {
+    /** Full duration in seconds, measured up to now for active events */
+    full_duration: number;
+    /** Duration in seconds inside the requested range */
+    clipped_duration: number;
+}
+
+export interface DowntimeQuery {
+    deviceId?: number;
+    from?: Date;
+    to?: Date;
+    active?: boolean;
+    minDuration?: number;
+    cursor?: Cursor;
+    limit: number;
+}
+
+export interface DowntimePage {
+    data: DowntimeEvent[];
+    next_cursor: string | null;
+}
+
+/**
+ * Compute the part of a downtime event that falls inside a window, in seconds
+ * Still active events are counted up to the given current time.
+ * @param event The downtime event
+ * @param startDate Window start
+ * @param endDate Window end
+ * @param now Current time, used as the end of active events
+ * @returns The clipped duration in seconds
+ */
+export function getClippedDuration(
+    event: Pick<DowntimeEvent, 'started_at' | 'ended_at'>,
+    startDate: Date,
+    endDate: Date,
+    now: Date = new Date()
+): number {
+    const eventStart = new Date(event.started_at).getTime();
+    const eventEnd = event.ended_at ? new Date(event.ended_at).getTime() : now.getTime();
+    const windowStart = Math.max(eventStart, startDate.getTime());
+    const windowEnd = Math.min(eventEnd, endDate.getTime());
+
+    return Math.max(0, Math.floor((windowEnd - windowStart) / 1000));
+}
+
+/**
+ * Restrict a downtime events query to the events overlapping a date range
+ * An event overlaps when it starts before the range ends and ends (or is still active)
+ * after the range starts.
+ */
+function whereOverlaps(
+    builder: Knex.QueryBuilder<DowntimeEventsTable>,
+    startDate: Date | undefined,
+    endDate: Date | undefined
+): void {
+    if (endDate) {
+        builder.where('started_at', '<=', endDate);
+    }
+    if (startDate) {
+        builder.where((rangeBuilder) => {
+            rangeBuilder.where('ended_at', '>=', startDate).orWhereNull('ended_at');
+        });
+    }
 }
 
 /**
@@ -20,15 +129,34 @@ export interface DowntimeEvent {
 export class DowntimeService {
     /**
      * Create a new downtime event
+     * @param deviceId The device that went down
      * @param startedAt When the downtime started
      * @param notes Optional notes about the downtime
+     * @param source How the downtime was detected
+     * @param cause Optional probable cause of the downtime
+     * @param planned Whether the downtime started during a maintenance window
+     * @param unobserved Whether the downtime overlaps a period during which the watcher was
+     *                   offline
      * @returns The ID of the created downtime event
      */
-    async createDowntimeEvent(startedAt: Date, notes: string | null = null): Promise<number> {
+    async createDowntimeEvent(
+        deviceId: number,
+        startedAt: Date,
+        notes: string | null = null,
+        source: DowntimeSource = 'heartbeat_silence',
+        cause: DowntimeCause | null = null,
+        planned = false,
+        unobserved = false
+    ): Promise<number> {
         const insertData: DowntimeEventsInsert = {
+            device_id: deviceId,
             started_at: startedAt,
             is_active: true,
             notes,
+            source,
+            cause,
+            planned,
+            unobserved,
         };
 
         const [id] = await db<DowntimeEventsTable>('downtime_events').insert(insertData);
@@ -36,12 +164,114 @@ export class DowntimeService {
         return id as number;
     }
 
+    /**
+     * Create a downtime event that has already ended
+     * @param deviceId The device that went down
+     * @param startedAt When the downtime started
+     * @param endedAt When the downtime ended
+     * @param notes Optional notes about the downtime
+     * @param planned Whether the downtime started during a maintenance window
+     * @param unobserved Whether the downtime overlaps a period during which the watcher was
+     *                   offline
+     * @returns The ID of the created downtime event
+     */
+    async createEndedDowntimeEvent(
+        deviceId: number,
+        startedAt: Date,
+        endedAt: Date,
+        notes: string | null = null,
+        planned = false,
+        unobserved = false
+    ): Promise<number> {
+        const insertData: DowntimeEventsInsert = {
+            device_id: deviceId,
+            started_at: startedAt,
+            ended_at: endedAt,
+            duration: Math.floor((endedAt.getTime() - startedAt.getTime()) / 1000),
+            is_active: false,
+            notes,
+            planned,
+            unobserved,
+        };
+
+        const [id] = await db<DowntimeEventsTable>('downtime_events').insert(insertData);
+
+        return id as number;
+    }
+
+    /**
+     * Flag the downtime events overlapping a period as unobserved
+     * @param startDate Period start
+     * @param endDate Period end
+     * @returns The number of events newly flagged
+     */
+    async markUnobservedDowntimes(startDate: Date, endDate: Date): Promise<number> {
+        const builder = db<DowntimeEventsTable>('downtime_events').where('unobserved', false);
+
+        whereOverlaps(builder, startDate, endDate);
+
+        return await builder.update({ unobserved: true });
+    }
+
+    /**
+     * Move the boundaries of a downtime event
+     * A null end keeps (or makes) the event active.
+     * @param id The downtime event ID
+     * @param startedAt The new start
+     * @param endedAt The new end, or null if the downtime is still ongoing
+     * @param notes Optional notes replacing the current ones
+     */
+    async updateDowntimeBoundaries(
+        id: number,
+        startedAt: Date,
+        endedAt: Date | null,
+        notes?: string
+    ): Promise<void> {
+        const updateData: DowntimeEventsUpdate = {
+            started_at: startedAt,
+            ended_at: endedAt,
+            duration: endedAt ? Math.floor((endedAt.getTime() - startedAt.getTime()) / 1000) : null,
+            is_active: endedAt === null,
+            ...(notes !== undefined ? { notes } : {}),
+        };
+
+        await db<DowntimeEventsTable>('downtime_events').where('id', id).update(updateData);
+    }
+
+    /**
+     * Clear a downtime event proved to be a false positive
+     * The event is kept, closed with a zero duration.
+     * @param id The downtime event ID
+     * @param notes Optional notes replacing the current ones
+     * @throws Error if the downtime event does not exist
+     */
+    async clearDowntimeEvent(id: number, notes?: string): Promise<void> {
+        const downtimeEvent = await db<DowntimeEventsTable>('downtime_events')
+            .where('id', id)
+            .first();
+
+        if (!downtimeEvent) {
+            throw new Error(`Downtime event with ID ${id} not found`);
+        }
+
+        const updateData: DowntimeEventsUpdate = {
+            ended_at: downtimeEvent.started_at,
+            duration: 0,
+            is_active: false,
+            cleared: true,
+            ...(notes !== undefined ? { notes } : {}),
+        };
+
+        await db<DowntimeEventsTable>('downtime_events').where('id', id).update(updateData);
+    }
+
     /**
      * End an active downtime event
      * @param id The downtime event ID
      * @param endedAt When the downtime ended
+     * @param cause Optional probable cause replacing the provisional one
      */
-    async endDowntimeEvent(id: number, endedAt: Date): Promise<void> {
+    async endDowntimeEvent(id: number, endedAt: Date, cause?: DowntimeCause): Promise<void> {
         const downtimeEvent = await db<DowntimeEventsTable>('downtime_events')
             .where('id', id)
             .first();
@@ -57,18 +287,91 @@ export class DowntimeService {
             ended_at: endedAt,
             duration,
             is_active: false,
+            ...(cause !== undefined ? { cause } : {}),
         };
 
         await db<DowntimeEventsTable>('downtime_events').where('id', id).update(updateData);
     }
 
     /**
-     * Get the current active downtime event if any
+     * Record that an alert of a downtime event is being sent, unless it already was
+     * The check and the update are a single statement, so that concurrent callers and
+     * restarts never send the same alert twice.
+     * @param id The downtime event ID
+     * @param notification The alert to send
+     * @param sentAt When the alert is sent
+     * @returns true if the caller must send the alert, false if it was already sent
+     */
+    async claimNotification(
+        id: number,
+        notification: DowntimeNotification,
+        sentAt: Date = new Date()
+    ): Promise<boolean> {
+        const column = NOTIFICATION_COLUMNS[notification];
+        const updateData: DowntimeEventsUpdate = { [column]: sentAt };
+
+        const updated = await db<DowntimeEventsTable>('downtime_events')
+            .where('id', id)
+            .whereNull(column)
+            .update(updateData);
+
+        return updated > 0;
+    }
+
+    /**
+     * Record that an escalation alert of a downtime event is being sent
+     * The update only applies if no other escalation was recorded since the caller read the
+     * event, so that concurrent callers and restarts never send the same escalation twice.
+     * @param id The downtime event ID
+     * @param sentCount Escalation alerts already sent, as read by the caller
+     * @param dueCount Escalation alerts due, including the one being sent
+     * @param sentAt When the alert is sent
+     * @returns true if the caller must send the alert
+     */
+    async claimEscalation(
+        id: number,
+        sentCount: number,
+        dueCount: number,
+        sentAt: Date = new Date()
+    ): Promise<boolean> {
+        const updateData: DowntimeEventsUpdate = {
+            escalation_count: dueCount,
+            escalated_at: sentAt,
+        };
+
+        const updated = await db<DowntimeEventsTable>('downtime_events')
+            .where('id', id)
+            .andWhere('escalation_count', sentCount)
+            .update(updateData);
+
+        return updated > 0;
+    }
+
+    /**
+     * Get the ended downtime events of a device whose detection was alerted but not their
+     * recovery
+     * Cleared events are included: they get a false alarm notice instead of a recovery alert.
+     * @param deviceId The device ID
+     * @returns Array of downtime events ordered from the oldest to the most recent
+     */
+    async getPendingRecoveryEvents(deviceId: number): Promise<DowntimeEvent[]> {
+        return await db<DowntimeEventsTable>('downtime_events')
+            .where('device_id', deviceId)
+            .andWhere('is_active', false)
+            .whereNotNull('alert_sent_at')
+            .whereNull('recovery_sent_at')
+            .orderBy('started_at', 'asc');
+    }
+
+    /**
+     * Get the current active downtime event of a device if any
+     * @param deviceId The device ID
      * @returns Active downtime event or null
      */
-    async getActiveDowntimeEvent(): Promise<DowntimeEvent | null> {
+    async getActiveDowntimeEvent(deviceId: number): Promise<DowntimeEvent | null> {
         const event = await db<DowntimeEventsTable>('downtime_events')
-            .where('is_active', true)
+            .where('device_id', deviceId)
+            .andWhere('is_active', true)
             .orderBy('started_at', 'desc')
             .first();
 
@@ -87,30 +390,119 @@ export class DowntimeService {
     }
 
     /**
-     * Get downtime events within a date range
+     * Get a downtime event by ID
+     * @param id The downtime event ID
+     * @returns The downtime event or null if not found
+     */
+    async getDowntimeEventById(id: number): Promise<DowntimeEvent | null> {
+        const event = await db<DowntimeEventsTable>('downtime_events').where('id', id).first();
+
+        return event ?? null;
+    }
+
+    /**
+     * Query downtime events with filters and cursor pagination
+     * Events are ordered from the most recent to the oldest. The from/to range matches every
+     * event overlapping the interval, including still active ones.
+     * @param query The query filters and pagination options
+     * @returns A page of downtime events and the cursor of the next page, if any
+     */
+    async queryDowntimeEvents(query: DowntimeQuery): Promise<DowntimePage> {
+        const builder = db<DowntimeEventsTable>('downtime_events');
+
+        whereOverlaps(builder, query.from, query.to);
+
+        if (query.deviceId !== undefined) {
+            builder.where('device_id', query.deviceId);
+        }
+        if (query.active !== undefined) {
+            builder.where('is_active', query.active);
+        }
+        if (query.minDuration !== undefined) {
+            // Active events have no duration yet, so compare their start against now instead
+            const minDuration = query.minDuration;
+            const latestStart = new Date(Date.now() - minDuration * 1000);
+            builder.where((durationBuilder) => {
+                durationBuilder.where('duration', '>=', minDuration).orWhere((activeBuilder) => {
+                    activeBuilder.whereNull('ended_at').andWhere('started_at', '<=', latestStart);
+                });
+            });
+        }
+        if (query.cursor) {
+            const { timestamp, id } = query.cursor;
+            builder.where((cursorBuilder) => {
+                cursorBuilder.where('started_at', '<', timestamp).orWhere((tieBuilder) => {
+                    tieBuilder.where('started_at', timestamp).andWhere('id', '<', id);
+                });
+            });
+        }
+
+        // Fetch one extra row to know whether another page exists
+        const rows = await builder
+            .orderBy([
+                { column: 'started_at', order: 'desc' },
+                { column: 'id', order: 'desc' },
+            ])
+            .limit(query.limit + 1);
+
+        const hasMore = rows.length > query.limit;
+        const pageRows = hasMore ? rows.slice(0, query.limit) : rows;
+        const lastRow = pageRows[pageRows.length - 1];
+
+        return {
+            data: pageRows,
+            next_cursor:
+                hasMore && lastRow
+                    ? encodeCursor({ timestamp: new Date(lastRow.started_at), id: lastRow.id })
+                    : null,
+        };
+    }
+
+    /**
+     * Get every downtime event overlapping a date range, including still active ones
+     * Each event carries its full duration and the part of it that falls inside the range,
+     * active events being measured up to now.
      * @param startDate Start date
      * @param endDate End date
-     * @returns Array of downtime events
+     * @param deviceId Optional device ID to restrict the events to
+     * @returns Array of downtime events ordered from the most recent to the oldest
      */
-    async getDowntimeEventsInRange(startDate: Date, endDate: Date): Promise<DowntimeEvent[]> {
-        return await db<DowntimeEventsTable>('downtime_events')
-            .where((builder) => {
-                builder
-                    .whereBetween('started_at', [startDate, endDate])
-                    .orWhereBetween('ended_at', [startDate, endDate]);
-            })
-            .orderBy('started_at', 'desc');
+    async getDowntimeEventsInRange(
+        startDate: Date,
+        endDate: Date,
+        deviceId?: number
+    ): Promise<DowntimeEventInRange[]> {
+        const now = new Date();
+        const builder = db<DowntimeEventsTable>('downtime_events');
+
+        whereOverlaps(builder, startDate, endDate);
+
+        if (deviceId !== undefined) {
+            builder.where('device_id', deviceId);
+        }
+
+        const events = await builder.orderBy('started_at', 'desc');
+
+        return events.map((event) => ({
+            ...event,
+            full_duration:
+                event.duration ??
+                Math.floor((now.getTime() - new Date(event.started_at).getTime()) / 1000),
+            clipped_duration: getClippedDuration(event, startDate, endDate, now),
+        }));
     }
 
     /**
      * Calculate total downtime in a period
+     * Events are clipped to the period and active events are counted up to now.
      * @param startDate Start date
      * @param endDate End date
+     * @param deviceId Optional device ID to restrict the events to
      * @returns Total downtime in seconds
      */
-    async getTotalDowntime(startDate: Date, endDate: Date): Promise<number> {
-        const events = await this.getDowntimeEventsInRange(startDate, endDate);
-        return events.reduce((total, event) => total + (event.duration ?? 0), 0);
+    async getTotalDowntime(startDate: Date, endDate: Date, deviceId?: number): Promise<number> {
+        const events = await this.getDowntimeEventsInRange(startDate, endDate, deviceId);
+        return events.reduce((total, event) => total + event.clipped_duration, 0);
     }
 }
 
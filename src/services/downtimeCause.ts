@@ -0,0 +1,85 @@
+import type { HeartbeatRecord } from './heartbeat.js';
+import type { DowntimeSource } from './downtime.js';
+import { isBackupConnection } from './backup.js';
+
+/**
+ * Probable causes of a downtime
+ * - agent_silent: the line was up but the agent stopped sending heartbeats
+ * - wan_down: the agent reported the connection down
+ * - media_change: the media state changed between before and after the downtime
+ * - ip_change: the IPv4 address changed on recovery (box reboot, PPP renegotiation)
+ * - backup_connection: the connection switched to a backup link
+ * - unknown: not enough heartbeats to tell
+ */
+export const DOWNTIME_CAUSES = [
+    'agent_silent',
+    'wan_down',
+    'media_change',
+    'ip_change',
+    'backup_connection',
+    'unknown',
+] as const;
+
+export type DowntimeCause = (typeof DOWNTIME_CAUSES)[number];
+
+/**
+ * Heartbeat fields used to classify a downtime
+ */
+export type HeartbeatSnapshot = Pick<
+    HeartbeatRecord,
+    'status' | 'ipv4' | 'media_state' | 'connection_type'
+>;
+
+/**
+ * Human readable descriptions of the causes, used in notifications
+ */
+const DOWNTIME_CAUSE_LABELS: Record<DowntimeCause, string> = {
+    agent_silent: 'Agent silent while the line was up',
+    wan_down: 'WAN reported down',
+    media_change: 'Media state changed',
+    ip_change: 'IPv4 changed on recovery (reboot or PPP renegotiation)',
+    backup_connection: 'Switched to backup connection',
+    unknown: 'Unknown',
+};
+
+/**
+ * Get the description of a downtime cause
+ * @param cause The cause
+ * @returns The description
+ */
+export function getDowntimeCauseLabel(cause: DowntimeCause): string {
+    return DOWNTIME_CAUSE_LABELS[cause];
+}
+
+/**
+ * Classify the probable cause of a downtime from the heartbeats around it
+ * Before recovery, only the heartbeat before the downtime is known and the cause is
+ * provisional.
+ * @param source How the downtime was detected
+ * @param before Last heartbeat before the downtime, if any
+ * @param after First heartbeat after the downtime, null while it is ongoing
+ * @returns The probable cause
+ */
+export function classifyDowntimeCause(
+    source: DowntimeSource,
+    before: HeartbeatSnapshot | null,
+    after: HeartbeatSnapshot | null
+): DowntimeCause {
+    if (after && isBackupConnection(after) && !(before && isBackupConnection(before))) {
+        return 'backup_connection';
+    }
+    if (source === 'reported_down' || (before && before.status !== 'up')) {
+        return 'wan_down';
+    }
+    if (!before) {
+        return 'unknown';
+    }
+    if (after?.media_state && before.media_state && after.media_state !== before.media_state) {
+        return 'media_change';
+    }
+    if (after?.ipv4 && before.ipv4 && after.ipv4 !== before.ipv4) {
+        return 'ip_change';
+    }
+
+    return 'agent_silent';
+}
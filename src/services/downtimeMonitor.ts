@@ -1,18 +1,31 @@
 import type { FastifyBaseLogger } from 'fastify';
-import heartbeatService from './heartbeat.js';
-import downtimeService from './downtime.js';
+import heartbeatService, { type HeartbeatRecord } from './heartbeat.js';
+import downtimeService, { type DowntimeEvent } from './downtime.js';
+import deviceService, { getDeviceDisplayName, type Device } from './device.js';
 import { NotificationService } from './notification.js';
+import { classifyDowntimeCause } from './downtimeCause.js';
+import incidentService, { countTransitions } from './incident.js';
+import maintenanceService from './maintenance.js';
+import watcherService from './watcher.js';
+import { getDueEscalation, parseEscalationPolicy, type EscalationStage } from './escalation.js';
 
 /**
  * DowntimeMonitor periodically checks for downtime conditions
  * and sends notifications via Telegram
+ *
+ * Sent alerts are recorded on the downtime events, so that a restart neither repeats an
+ * escalation nor drops a recovery.
  */
 export class DowntimeMonitor {
     private intervalId: NodeJS.Timeout | null = null;
-    private confirmedDowntimeIds = new Set<number>();
     private readonly checkIntervalMs: number;
     private readonly confirmationDelayMs: number;
     private readonly heartbeatTimeoutMs: number;
+    private readonly downReportThreshold: number;
+    private readonly flapThreshold: number;
+    private readonly flapWindowMs: number;
+    private readonly flapStablePeriodMs: number;
+    private readonly escalationPolicy: EscalationStage[];
     private logger: FastifyBaseLogger;
     private notificationService: NotificationService;
 
@@ -27,16 +40,29 @@ export class DowntimeMonitor {
             10
         );
         this.heartbeatTimeoutMs = Number.parseInt(process.env.HEARTBEAT_TIMEOUT ?? '300000', 10);
+        this.downReportThreshold = Number.parseInt(process.env.DOWN_REPORT_THRESHOLD ?? '3', 10);
+        this.flapThreshold = Number.parseInt(process.env.FLAP_THRESHOLD ?? '4', 10);
+        this.flapWindowMs = Number.parseInt(process.env.FLAP_WINDOW ?? '3600000', 10);
+        this.flapStablePeriodMs = Number.parseInt(process.env.FLAP_STABLE_PERIOD ?? '1800000', 10);
 
         if (
             Number.isNaN(this.checkIntervalMs) ||
             Number.isNaN(this.confirmationDelayMs) ||
-            Number.isNaN(this.heartbeatTimeoutMs)
+            Number.isNaN(this.heartbeatTimeoutMs) ||
+            Number.isNaN(this.downReportThreshold) ||
+            Number.isNaN(this.flapThreshold) ||
+            Number.isNaN(this.flapWindowMs) ||
+            Number.isNaN(this.flapStablePeriodMs)
         ) {
             throw new Error(
                 'Invalid monitoring configuration: One or more environment variables are not valid numbers.'
             );
         }
+
+        this.escalationPolicy = parseEscalationPolicy(
+            process.env.ESCALATION_POLICY,
+            this.confirmationDelayMs
+        );
     }
 
     /**
@@ -76,100 +102,434 @@ export class DowntimeMonitor {
     }
 
     /**
-     * Check for downtime and handle notifications
+     * Check every device for downtime and handle notifications
      */
     private async checkDowntime(): Promise<void> {
         try {
-            const activeDowntime = await downtimeService.getActiveDowntimeEvent();
+            // A crash is inferred from the last check that ran
+            await watcherService.recordSeen();
+
+            const devices = await deviceService.getDevices();
+
+            for (const device of devices) {
+                await this.checkDeviceDowntime(device);
+            }
+        } catch (error) {
+            this.logger.error({ error }, 'Error in downtime check');
+        }
+    }
+
+    /**
+     * Check a single device for downtime
+     * Errors are logged per device so that one failing device does not block the others.
+     */
+    private async checkDeviceDowntime(device: Device): Promise<void> {
+        try {
+            await this.sendPendingRecoveries(device);
+
+            const activeDowntime = await downtimeService.getActiveDowntimeEvent(device.id);
 
             if (activeDowntime) {
-                // If there's an active downtime, we only need to check for confirmation
-                if (!this.confirmedDowntimeIds.has(activeDowntime.id)) {
-                    await this.checkConfirmationNotification(activeDowntime);
+                // Planned downtimes stay silent until they outlast their maintenance
+                if (activeDowntime.planned) {
+                    if (await maintenanceService.getActiveMaintenanceWindow(device.id)) {
+                        return;
+                    }
+                    await this.alertMaintenanceOverrun(device, activeDowntime);
                 }
+
+                // If there's an active downtime, we only need to check for escalation
+                await this.checkEscalation(device, activeDowntime);
                 return;
             }
 
+            await this.checkIncidentStable(device);
+
             // If no active downtime, check if we should create one
-            const lastHeartbeat = await heartbeatService.getLastHeartbeat();
+            const lastHeartbeat = await heartbeatService.getLastHeartbeat(device.id);
             if (lastHeartbeat) {
                 const timeSinceLast = Date.now() - lastHeartbeat.timestamp.getTime();
-                if (timeSinceLast > this.heartbeatTimeoutMs) {
-                    await this.createNewDowntime(lastHeartbeat);
+                if (timeSinceLast > this.getHeartbeatTimeoutMs(device)) {
+                    await this.createNewDowntime(device, lastHeartbeat);
                 }
             }
         } catch (error) {
-            this.logger.error({ error }, 'Error in downtime check');
+            this.logger.error({ error, device: device.name }, 'Error in downtime check');
         }
     }
 
     /**
      * Create a new downtime event and send initial notification
      */
-    private async createNewDowntime(lastHeartbeat: { timestamp: Date }): Promise<void> {
-        const downtimeStartedAt = new Date(
-            lastHeartbeat.timestamp.getTime() + this.heartbeatTimeoutMs
+    private async createNewDowntime(device: Device, lastHeartbeat: HeartbeatRecord): Promise<void> {
+        const heartbeatTimeoutMs = this.getHeartbeatTimeoutMs(device);
+        const downtimeStartedAt = new Date(lastHeartbeat.timestamp.getTime() + heartbeatTimeoutMs);
+        const maintenanceWindow = await maintenanceService.getActiveMaintenanceWindow(
+            device.id,
+            downtimeStartedAt
         );
+        // After a restart, the silence may be the watcher's own outage rather than the line's
+        const unobserved = await watcherService.isUnobserved(downtimeStartedAt, null);
 
         const downtimeId = await downtimeService.createDowntimeEvent(
+            device.id,
             downtimeStartedAt,
-            'Automatically detected downtime'
+            'Automatically detected downtime',
+            'heartbeat_silence',
+            classifyDowntimeCause('heartbeat_silence', lastHeartbeat, null),
+            maintenanceWindow !== null,
+            unobserved
         );
 
         this.logger.info(
-            { downtimeId, startedAt: downtimeStartedAt.toISOString() },
+            {
+                downtimeId,
+                device: device.name,
+                startedAt: downtimeStartedAt.toISOString(),
+                maintenanceWindowId: maintenanceWindow?.id,
+                unobserved,
+            },
             'Created downtime event'
         );
 
-        // Send initial notification
-        if (this.notificationService.isEnabled()) {
+        // Planned downtimes are recorded silently
+        if (maintenanceWindow) {
+            return;
+        }
+
+        const isGrouped = await this.groupIntoIncident(device, downtimeId);
+
+        // Send initial notification, flapping incidents are notified once for all their downtimes
+        if (
+            !isGrouped &&
+            this.notificationService.isEnabled() &&
+            (await downtimeService.claimNotification(downtimeId, 'alert'))
+        ) {
             await this.notificationService.sendDowntimeAlert(
                 {
                     downtimeId,
                     startedAt: downtimeStartedAt,
+                    device: getDeviceDisplayName(device),
                 },
-                this.heartbeatTimeoutMs
+                heartbeatTimeoutMs
             );
         }
     }
 
     /**
-     * Check if a downtime needs a confirmation notification
+     * Open a downtime when a device keeps reporting a connection state other than up
+     *
+     * Heartbeats can still arrive while the line is down, for instance over a backup path, so
+     * DOWN_REPORT_THRESHOLD (default: 3, 0 disables it) consecutive non-up heartbeats open a
+     * reported_down downtime starting at the first of them.
+     * @param device The device that sent a non-up heartbeat
+     * @returns The ID of the created downtime event, or null if none was created
      */
-    private async checkConfirmationNotification(downtime: {
-        id: number;
-        started_at: Date;
-    }): Promise<void> {
-        const timeSinceStart = Date.now() - downtime.started_at.getTime();
+    async checkReportedDowntime(device: Device): Promise<number | null> {
+        if (this.downReportThreshold <= 0) {
+            return null;
+        }
+
+        if (await downtimeService.getActiveDowntimeEvent(device.id)) {
+            return null;
+        }
+
+        const heartbeats = await heartbeatService.getRecentHeartbeats(
+            device.id,
+            this.downReportThreshold
+        );
+
+        if (
+            heartbeats.length < this.downReportThreshold ||
+            heartbeats.some((heartbeat) => heartbeat.status === 'up')
+        ) {
+            return null;
+        }
+
+        const latest = heartbeats[0];
+        const first = heartbeats[heartbeats.length - 1];
+        const downtimeStartedAt = new Date(first.timestamp);
+        const maintenanceWindow = await maintenanceService.getActiveMaintenanceWindow(
+            device.id,
+            downtimeStartedAt
+        );
+        const downtimeId = await downtimeService.createDowntimeEvent(
+            device.id,
+            downtimeStartedAt,
+            `Reported by the agent (connection_state: ${latest.status})`,
+            'reported_down',
+            classifyDowntimeCause('reported_down', first, null),
+            maintenanceWindow !== null
+        );
+
+        this.logger.info(
+            {
+                downtimeId,
+                device: device.name,
+                startedAt: downtimeStartedAt.toISOString(),
+                connectionState: latest.status,
+                maintenanceWindowId: maintenanceWindow?.id,
+            },
+            'Created reported downtime event'
+        );
+
+        if (maintenanceWindow) {
+            return downtimeId;
+        }
+
+        const isGrouped = await this.groupIntoIncident(device, downtimeId);
+
+        if (
+            !isGrouped &&
+            this.notificationService.isEnabled() &&
+            (await downtimeService.claimNotification(downtimeId, 'alert'))
+        ) {
+            await this.notificationService.sendReportedDowntimeAlert(
+                {
+                    downtimeId,
+                    startedAt: downtimeStartedAt,
+                    device: getDeviceDisplayName(device),
+                },
+                latest.status,
+                heartbeats.length
+            );
+        }
+
+        return downtimeId;
+    }
+
+    /**
+     * Group a new downtime under the flapping incident of its device
+     *
+     * A device making more than FLAP_THRESHOLD transitions (default: 4, 0 disables it) within
+     * FLAP_WINDOW milliseconds (default: 1 hour) is flapping: its recent downtimes are grouped
+     * under an incident and a single flapping alert is sent. Later downtimes join the incident
+     * silently until it ends.
+     * @param device The device that went down
+     * @param downtimeId The downtime event just created
+     * @returns true if the downtime belongs to an incident and must not be notified on its own
+     */
+    private async groupIntoIncident(device: Device, downtimeId: number): Promise<boolean> {
+        if (this.flapThreshold <= 0) {
+            return false;
+        }
+
+        const activeIncident = await incidentService.getActiveIncident(device.id);
+        if (activeIncident) {
+            await incidentService.attachDowntimeEvents(activeIncident.id, [downtimeId]);
+            return true;
+        }
+
+        const now = new Date();
+        const windowStart = new Date(now.getTime() - this.flapWindowMs);
+        const events = (
+            await downtimeService.getDowntimeEventsInRange(windowStart, now, device.id)
+        ).filter((event) => !event.planned && !event.cleared);
+        const transitions = countTransitions(events, windowStart, now);
+
+        if (transitions <= this.flapThreshold) {
+            return false;
+        }
+
+        // Downtimes of a previous incident stay with it
+        const ungrouped = events.filter((event) => event.incident_id === null);
+        const incidentStartedAt = new Date(
+            Math.min(...ungrouped.map((event) => new Date(event.started_at).getTime()))
+        );
+        const incidentId = await incidentService.createIncident(device.id, incidentStartedAt);
+        await incidentService.attachDowntimeEvents(
+            incidentId,
+            ungrouped.map((event) => event.id)
+        );
 
-        // If downtime has been active for more than 30 minutes, send confirmation
-        if (timeSinceStart >= this.confirmationDelayMs) {
-            this.confirmedDowntimeIds.add(downtime.id);
+        this.logger.warn(
+            { incidentId, device: device.name, transitions, downtimes: ungrouped.length },
+            'Line is flapping, opened incident'
+        );
+
+        if (this.notificationService.isEnabled()) {
+            await this.notificationService.sendFlappingAlert(
+                {
+                    incidentId,
+                    startedAt: incidentStartedAt,
+                    device: getDeviceDisplayName(device),
+                },
+                transitions,
+                this.flapWindowMs
+            );
+        }
+
+        return true;
+    }
+
+    /**
+     * End the flapping incident of a device once the line has been stable for
+     * FLAP_STABLE_PERIOD milliseconds (default: 30 minutes), and send its summary
+     */
+    private async checkIncidentStable(device: Device): Promise<void> {
+        const incident = await incidentService.getActiveIncident(device.id);
+        if (!incident) {
+            return;
+        }
+
+        const events = await incidentService.getIncidentDowntimeEvents(incident.id);
+        if (events.some((event) => event.ended_at === null)) {
+            return;
+        }
 
-            this.logger.info(
+        const endedAt = new Date(
+            Math.max(
+                new Date(incident.started_at).getTime(),
+                ...events.map((event) => new Date(event.ended_at as Date).getTime())
+            )
+        );
+        if (Date.now() - endedAt.getTime() < this.flapStablePeriodMs) {
+            return;
+        }
+
+        await incidentService.endIncident(incident.id, endedAt);
+
+        const totalDowntime = events.reduce((total, event) => total + (event.duration ?? 0), 0);
+
+        this.logger.info(
+            { incidentId: incident.id, device: device.name, downtimes: events.length },
+            'Line is stable again, ended incident'
+        );
+
+        if (this.notificationService.isEnabled()) {
+            await this.notificationService.sendIncidentSummary(
                 {
-                    downtimeId: downtime.id,
-                    durationMinutes: Math.floor(timeSinceStart / 60000),
+                    incidentId: incident.id,
+                    startedAt: new Date(incident.started_at),
+                    device: getDeviceDisplayName(device),
                 },
-                'Sending confirmation notification for downtime'
+                endedAt,
+                events.length,
+                totalDowntime
             );
+        }
+    }
+
+    /**
+     * Send the recovery alerts of the ended downtimes of a device whose detection was alerted
+     * Called when a device recovers and on every check, so that a recovery missed because of
+     * a restart is still sent. Downtimes that were never alerted, such as planned ones or those
+     * of a flapping incident, get no recovery alert either. Alerted downtimes that replayed
+     * heartbeats cleared get a false alarm notice instead.
+     * @param device The device to check
+     */
+    async sendPendingRecoveries(device: Device): Promise<void> {
+        if (!this.notificationService.isEnabled()) {
+            return;
+        }
 
-            if (this.notificationService.isEnabled()) {
-                await this.notificationService.sendDowntimeConfirmedAlert(
-                    {
-                        downtimeId: downtime.id,
-                        startedAt: downtime.started_at,
-                    },
-                    this.confirmationDelayMs
+        const downtimes = await downtimeService.getPendingRecoveryEvents(device.id);
+
+        for (const downtime of downtimes) {
+            if (!(await downtimeService.claimNotification(downtime.id, 'recovery'))) {
+                continue;
+            }
+
+            if (downtime.cleared) {
+                await this.notificationService.sendFalseAlarmAlert(
+                    downtime.id,
+                    new Date(downtime.started_at),
+                    getDeviceDisplayName(device)
                 );
+                continue;
             }
+
+            await this.notificationService.sendRecoveryAlert(
+                downtime.id,
+                new Date(downtime.started_at),
+                new Date(downtime.ended_at ?? Date.now()),
+                getDeviceDisplayName(device),
+                downtime.cause ?? undefined
+            );
+        }
+    }
+
+    /**
+     * Send the detection alert of a planned downtime once its maintenance window is over
+     * The alert is only sent once, and lets its recovery be alerted too.
+     */
+    private async alertMaintenanceOverrun(
+        device: Device,
+        downtime: Pick<DowntimeEvent, 'id' | 'started_at'>
+    ): Promise<void> {
+        if (
+            !this.notificationService.isEnabled() ||
+            !(await downtimeService.claimNotification(downtime.id, 'alert'))
+        ) {
+            return;
+        }
+
+        this.logger.warn(
+            { downtimeId: downtime.id, device: device.name },
+            'Planned downtime outlasted its maintenance window'
+        );
+
+        await this.notificationService.sendMaintenanceOverrunAlert({
+            downtimeId: downtime.id,
+            startedAt: downtime.started_at,
+            device: getDeviceDisplayName(device),
+        });
+    }
+
+    /**
+     * Check if a downtime needs an escalation notification
+     * Only the latest due step of the escalation ladder is sent, so that steps missed while
+     * the monitor was stopped are not replayed.
+     */
+    private async checkEscalation(
+        device: Device,
+        downtime: Pick<DowntimeEvent, 'id' | 'started_at' | 'escalation_count'>
+    ): Promise<void> {
+        const timeSinceStart = Date.now() - downtime.started_at.getTime();
+        const due = getDueEscalation(this.escalationPolicy, timeSinceStart);
+        const sentCount = downtime.escalation_count ?? 0;
+
+        if (!due || due.count <= sentCount) {
+            return;
         }
+
+        const stage = this.escalationPolicy[due.stageIndex];
+        if (
+            !this.notificationService.isChannelEnabled(stage.channel, stage.recipients) ||
+            !(await downtimeService.claimEscalation(downtime.id, sentCount, due.count))
+        ) {
+            return;
+        }
+
+        this.logger.info(
+            {
+                downtimeId: downtime.id,
+                device: device.name,
+                durationMinutes: Math.floor(timeSinceStart / 60000),
+                stage: due.stageIndex + 1,
+                reminder: due.reminder,
+                channel: stage.channel,
+            },
+            'Sending escalation notification for downtime'
+        );
+
+        await this.notificationService.sendDowntimeConfirmedAlert(
+            {
+                downtimeId: downtime.id,
+                startedAt: downtime.started_at,
+                device: getDeviceDisplayName(device),
+            },
+            stage.after,
+            { stage, stageNumber: due.stageIndex + 1, reminder: due.reminder }
+        );
     }
 
     /**
-     * Mark a downtime as ended and clear from confirmed set
+     * Get the heartbeat timeout after which a downtime is detected
+     * @param device Optional device whose own timeout overrides HEARTBEAT_TIMEOUT
+     * @returns The timeout in milliseconds
      */
-    markDowntimeEnded(downtimeId: number): void {
-        this.confirmedDowntimeIds.delete(downtimeId);
+    getHeartbeatTimeoutMs(device?: Pick<Device, 'heartbeat_timeout'>): number {
+        return device?.heartbeat_timeout ?? this.heartbeatTimeoutMs;
     }
 }
@@ -0,0 +1,167 @@
+/**
+ * Channels escalation alerts can be delivered to
+ * - telegram: recipients are chat IDs (default: TELEGRAM_CHAT_ID)
+ * - discord: recipients are webhook URLs (default: DISCORD_WEBHOOK_URL)
+ */
+export const ESCALATION_CHANNELS = ['telegram', 'discord'] as const;
+
+export type EscalationChannel = (typeof ESCALATION_CHANNELS)[number];
+
+/**
+ * A step of the escalation ladder of long downtimes
+ */
+export interface EscalationStage {
+    /** Delay after the start of the downtime, in milliseconds */
+    after: number;
+    /** Interval between reminders until the next stage, in milliseconds (null: no reminder) */
+    repeat: number | null;
+    channel: EscalationChannel;
+    /** Chat IDs or webhook URLs, null for the default recipient of the channel */
+    recipients: string[] | null;
+    /** Message template, null for the default message */
+    template: string | null;
+}
+
+/**
+ * The escalation alert due for a downtime
+ */
+export interface DueEscalation {
+    /** Number of escalation alerts due so far, stages and reminders included */
+    count: number;
+    /** Index of the stage in the policy */
+    stageIndex: number;
+    /** Reminder number within the stage, 0 for the first alert of the stage */
+    reminder: number;
+}
+
+/**
+ * Values available to message templates as {placeholder}
+ */
+export interface EscalationTemplateValues {
+    id: number;
+    device: string;
+    started_at: string;
+    /** Downtime duration in minutes */
+    duration: number;
+    /** Stage number, starting at 1 */
+    stage: number;
+    reminder: number;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Parse an escalation policy
+ * Without a policy, a single stage confirms downtimes after the confirmation delay.
+ * @param value JSON array of stages, e.g. [{"after":1800000},{"after":7200000,"repeat":86400000}]
+ * @param confirmationDelayMs Delay of the default stage
+ * @returns The stages ordered by delay
+ * @throws Error if the policy is invalid
+ */
+export function parseEscalationPolicy(
+    value: string | undefined,
+    confirmationDelayMs: number
+): EscalationStage[] {
+    if (value === undefined || value.trim() === '') {
+        return [
+            {
+                after: confirmationDelayMs,
+                repeat: null,
+                channel: 'telegram',
+                recipients: null,
+                template: null,
+            },
+        ];
+    }
+
+    let stages: unknown;
+    try {
+        stages = JSON.parse(value);
+    } catch {
+        throw new Error('Invalid ESCALATION_POLICY: not valid JSON');
+    }
+
+    if (!Array.isArray(stages) || stages.length === 0) {
+        throw new Error('Invalid ESCALATION_POLICY: expected a non-empty array of stages');
+    }
+
+    return stages
+        .map((stage: Record<string, unknown>, index): EscalationStage => {
+            const channel = stage?.channel ?? 'telegram';
+            const recipients = stage?.recipients ?? null;
+
+            if (
+                !isPositiveInteger(stage?.after) ||
+                !(stage.repeat === undefined || isPositiveInteger(stage.repeat)) ||
+                !ESCALATION_CHANNELS.includes(channel as EscalationChannel) ||
+                !(
+                    recipients === null ||
+                    (Array.isArray(recipients) &&
+                        recipients.length > 0 &&
+                        recipients.every((recipient) => typeof recipient === 'string'))
+                ) ||
+                !(stage.template === undefined || typeof stage.template === 'string')
+            ) {
+                throw new Error(`Invalid ESCALATION_POLICY: stage ${index + 1} is not valid`);
+            }
+
+            return {
+                after: stage.after,
+                repeat: (stage.repeat as number | undefined) ?? null,
+                channel: channel as EscalationChannel,
+                recipients: recipients as string[] | null,
+                template: (stage.template as string | undefined) ?? null,
+            };
+        })
+        .sort((a, b) => a.after - b.after);
+}
+
+/**
+ * Get the latest escalation alert due for a downtime
+ * Each stage sends an alert once its delay has elapsed, then reminders every `repeat`
+ * milliseconds until the next stage starts.
+ * @param policy The stages ordered by delay
+ * @param elapsedMs Time since the start of the downtime
+ * @returns The latest due alert, or null if no stage is due yet
+ */
+export function getDueEscalation(
+    policy: EscalationStage[],
+    elapsedMs: number
+): DueEscalation | null {
+    let due: DueEscalation | null = null;
+    let count = 0;
+
+    for (const [stageIndex, stage] of policy.entries()) {
+        if (elapsedMs < stage.after) {
+            break;
+        }
+
+        // Reminders of a stage stop when the next one starts
+        const nextStage = policy[stageIndex + 1];
+        const stageEnd = nextStage ? Math.min(elapsedMs, nextStage.after - 1) : elapsedMs;
+        const reminder = stage.repeat ? Math.floor((stageEnd - stage.after) / stage.repeat) : 0;
+
+        count += 1 + reminder;
+        due = { count, stageIndex, reminder };
+    }
+
+    return due;
+}
+
+/**
+ * Fill the {placeholders} of a message template
+ * Unknown placeholders are left as is.
+ * @param template The message template
+ * @param values The values of the placeholders
+ * @returns The message
+ */
+export function renderEscalationTemplate(
+    template: string,
+    values: EscalationTemplateValues
+): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in values ? String(values[name as keyof EscalationTemplateValues]) : placeholder
+    );
+}
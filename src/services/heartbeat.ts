@@ -1,8 +1,10 @@
 import { db } from '../db/config.js';
 import type { HeartbeatsTable, HeartbeatsInsert } from '../types/database.js';
+import { encodeCursor, type Cursor, type SortOrder } from '../utils/query.js';
 
 export interface HeartbeatRecord {
     id: number;
+    device_id: number;
     status: string;
     timestamp: Date;
     received_at: Date;
@@ -16,9 +18,54 @@ export interface HeartbeatRecord {
     rate_up: number | null;
     bytes_down: number | null;
     bytes_up: number | null;
+    /** received_at - timestamp in milliseconds, null for heartbeats replayed in batches */
+    clock_drift: number | null;
     metadata: Record<string, unknown> | null;
 }
 
+/**
+ * Fields of a heartbeat record that can be selected through the API
+ */
+export const HEARTBEAT_FIELDS = [
+    'id',
+    'device_id',
+    'status',
+    'timestamp',
+    'received_at',
+    'ipv4',
+    'ipv6',
+    'media_state',
+    'connection_type',
+    'bandwidth_down',
+    'bandwidth_up',
+    'rate_down',
+    'rate_up',
+    'bytes_down',
+    'bytes_up',
+    'clock_drift',
+    'metadata',
+] as const satisfies readonly (keyof HeartbeatRecord)[];
+
+export type HeartbeatField = (typeof HEARTBEAT_FIELDS)[number];
+
+export interface HeartbeatQuery {
+    deviceId?: number;
+    from?: Date;
+    to?: Date;
+    status?: string;
+    connection_type?: string;
+    media_state?: string;
+    cursor?: Cursor;
+    limit: number;
+    order: SortOrder;
+    fields?: HeartbeatField[];
+}
+
+export interface HeartbeatPage {
+    data: Partial<HeartbeatRecord>[];
+    next_cursor: string | null;
+}
+
 export interface HeartbeatInput {
     connection_state: string;
     timestamp: string | Date;
@@ -35,6 +82,86 @@ export interface HeartbeatInput {
     [key: string]: unknown;
 }
 
+/**
+ * Get when the server received a heartbeat
+ * Live heartbeats carry their clock drift, which gives their arrival time. Heartbeats without
+ * one (replayed in a batch) are placed at their timestamp.
+ * @param heartbeat The heartbeat
+ * @returns The arrival time
+ */
+export function getArrivalTime(
+    heartbeat: Pick<HeartbeatRecord, 'timestamp' | 'clock_drift'>
+): Date {
+    const timestamp = new Date(heartbeat.timestamp).getTime();
+
+    return new Date(timestamp + (heartbeat.clock_drift ?? 0));
+}
+
+/**
+ * Converts a raw heartbeats row into a record with parsed metadata
+ */
+function toHeartbeatRecord(heartbeat: Partial<HeartbeatsTable>): Partial<HeartbeatRecord> {
+    const { metadata, ...columns } = heartbeat;
+
+    if (metadata === undefined) {
+        return columns;
+    }
+
+    return {
+        ...columns,
+        metadata: metadata ? JSON.parse(metadata) : null,
+    };
+}
+
+/**
+ * Converts heartbeat input into a heartbeats row
+ * Known fields map to columns, any additional field is stored in metadata.
+ */
+function toHeartbeatInsert(
+    heartbeatData: HeartbeatInput,
+    deviceId: number,
+    clockDrift: number | null = null
+): HeartbeatsInsert {
+    const {
+        connection_state,
+        timestamp,
+        ipv4,
+        ipv6,
+        media_state,
+        connection_type,
+        bandwidth_down,
+        bandwidth_up,
+        rate_down,
+        rate_up,
+        bytes_down,
+        bytes_up,
+        ...additionalFields
+    } = heartbeatData;
+
+    // Collect all additional fields into metadata, filtering out undefined values
+    const metadata = Object.fromEntries(
+        Object.entries(additionalFields).filter(([, value]) => value !== undefined)
+    );
+
+    return {
+        device_id: deviceId,
+        status: connection_state,
+        timestamp: new Date(timestamp),
+        ipv4: ipv4 ?? null,
+        ipv6: ipv6 ?? null,
+        media_state: media_state ?? null,
+        connection_type: connection_type ?? null,
+        bandwidth_down: bandwidth_down ?? null,
+        bandwidth_up: bandwidth_up ?? null,
+        rate_down: rate_down ?? null,
+        rate_up: rate_up ?? null,
+        bytes_down: bytes_down ?? null,
+        bytes_up: bytes_up ?? null,
+        clock_drift: clockDrift,
+        metadata: Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
+    };
+}
+
 /**
  * HeartbeatService handles storing and managing heartbeat data
  */
@@ -42,57 +169,53 @@ export class HeartbeatService {
     /**
      * Record a new heartbeat
      * @param heartbeatData The heartbeat data
+     * @param deviceId The device that sent the heartbeat
+     * @param clockDrift Drift between reception and the heartbeat timestamp, in milliseconds
      * @returns The ID of the inserted heartbeat
      */
-    async recordHeartbeat(heartbeatData: HeartbeatInput): Promise<number> {
-        const {
-            connection_state,
-            timestamp,
-            ipv4,
-            ipv6,
-            media_state,
-            connection_type,
-            bandwidth_down,
-            bandwidth_up,
-            rate_down,
-            rate_up,
-            bytes_down,
-            bytes_up,
-            ...additionalFields
-        } = heartbeatData;
-
-        // Collect all additional fields into metadata, filtering out undefined values
-        const metadata = Object.fromEntries(
-            Object.entries(additionalFields).filter(([, value]) => value !== undefined)
+    async recordHeartbeat(
+        heartbeatData: HeartbeatInput,
+        deviceId: number,
+        clockDrift: number | null = null
+    ): Promise<number> {
+        const [id] = await db<HeartbeatsTable>('heartbeats').insert(
+            toHeartbeatInsert(heartbeatData, deviceId, clockDrift)
         );
 
-        const insertData: HeartbeatsInsert = {
-            status: connection_state,
-            timestamp: new Date(timestamp),
-            ipv4: ipv4 ?? null,
-            ipv6: ipv6 ?? null,
-            media_state: media_state ?? null,
-            connection_type: connection_type ?? null,
-            bandwidth_down: bandwidth_down ?? null,
-            bandwidth_up: bandwidth_up ?? null,
-            rate_down: rate_down ?? null,
-            rate_up: rate_up ?? null,
-            bytes_down: bytes_down ?? null,
-            bytes_up: bytes_up ?? null,
-            metadata: Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
-        };
+        return id as number;
+    }
+
+    /**
+     * Record several heartbeats in a single transaction
+     * Either every heartbeat is stored or none is.
+     * @param heartbeats The heartbeats to record
+     * @param deviceId The device that sent the heartbeats
+     * @returns The IDs of the inserted heartbeats, in input order
+     */
+    async recordHeartbeats(heartbeats: HeartbeatInput[], deviceId: number): Promise<number[]> {
+        return await db.transaction(async (trx) => {
+            const ids: number[] = [];
 
-        const [id] = await db<HeartbeatsTable>('heartbeats').insert(insertData);
+            // Insert rows one by one since MySQL only returns the first ID of a bulk insert
+            for (const heartbeat of heartbeats) {
+                const [id] = await trx<HeartbeatsTable>('heartbeats').insert(
+                    toHeartbeatInsert(heartbeat, deviceId)
+                );
+                ids.push(id as number);
+            }
 
-        return id as number;
+            return ids;
+        });
     }
 
     /**
-     * Get the last heartbeat
+     * Get the last heartbeat of a device
+     * @param deviceId The device ID
      * @returns The last heartbeat or null if none exists
      */
-    async getLastHeartbeat(): Promise<HeartbeatRecord | null> {
+    async getLastHeartbeat(deviceId: number): Promise<HeartbeatRecord | null> {
         const heartbeat = await db<HeartbeatsTable>('heartbeats')
+            .where('device_id', deviceId)
             .orderBy('timestamp', 'desc')
             .first();
 
@@ -100,24 +223,90 @@ export class HeartbeatService {
             return null;
         }
 
-        return {
-            ...heartbeat,
-            metadata: heartbeat.metadata ? JSON.parse(heartbeat.metadata) : null,
-        };
+        return toHeartbeatRecord(heartbeat) as HeartbeatRecord;
+    }
+
+    /**
+     * Get the most recent heartbeats of a device
+     * @param deviceId The device ID
+     * @param limit Maximum number of heartbeats to return
+     * @returns The heartbeats, most recent first
+     */
+    async getRecentHeartbeats(deviceId: number, limit: number): Promise<HeartbeatRecord[]> {
+        const heartbeats = await db<HeartbeatsTable>('heartbeats')
+            .where('device_id', deviceId)
+            .orderBy('timestamp', 'desc')
+            .limit(limit);
+
+        return heartbeats.map((heartbeat) => toHeartbeatRecord(heartbeat) as HeartbeatRecord);
     }
 
     /**
-     * Check if a downtime event should be created based on the last heartbeat
+     * Get the last heartbeat a device sent at or before a given date
+     * @param date The reference date
+     * @param deviceId The device ID
+     * @param status Optional connection state the heartbeat must report
+     * @returns The heartbeat or null if none exists
+     */
+    async getHeartbeatBefore(
+        date: Date,
+        deviceId: number,
+        status?: string
+    ): Promise<HeartbeatRecord | null> {
+        const builder = db<HeartbeatsTable>('heartbeats')
+            .where('device_id', deviceId)
+            .andWhere('timestamp', '<=', date);
+
+        if (status) {
+            builder.where('status', status);
+        }
+
+        const heartbeat = await builder.orderBy('timestamp', 'desc').first();
+
+        return heartbeat ? (toHeartbeatRecord(heartbeat) as HeartbeatRecord) : null;
+    }
+
+    /**
+     * Get the first heartbeat a device sent after a given date
+     * @param date The reference date
+     * @param deviceId The device ID
+     * @param status Optional connection state the heartbeat must report
+     * @returns The heartbeat or null if none exists
+     */
+    async getHeartbeatAfter(
+        date: Date,
+        deviceId: number,
+        status?: string
+    ): Promise<HeartbeatRecord | null> {
+        const builder = db<HeartbeatsTable>('heartbeats')
+            .where('device_id', deviceId)
+            .andWhere('timestamp', '>', date);
+
+        if (status) {
+            builder.where('status', status);
+        }
+
+        const heartbeat = await builder.orderBy('timestamp', 'asc').first();
+
+        return heartbeat ? (toHeartbeatRecord(heartbeat) as HeartbeatRecord) : null;
+    }
+
+    /**
+     * Check if a downtime event should be created based on the last heartbeat of a device
+     * @param deviceId The device ID
+     * @param timeoutMs Heartbeat timeout in milliseconds (default: HEARTBEAT_TIMEOUT)
      * @returns True if downtime should be triggered
      */
-    async shouldTriggerDowntime(): Promise<boolean> {
-        const lastHeartbeat = await this.getLastHeartbeat();
+    async shouldTriggerDowntime(
+        deviceId: number,
+        timeoutMs = Number.parseInt(process.env.HEARTBEAT_TIMEOUT ?? '300000', 10)
+    ): Promise<boolean> {
+        const lastHeartbeat = await this.getLastHeartbeat(deviceId);
 
         if (!lastHeartbeat) {
             return false;
         }
 
-        const timeoutMs = Number.parseInt(process.env.HEARTBEAT_TIMEOUT ?? '300000', 10);
         const lastHeartbeatTime = new Date(lastHeartbeat.timestamp);
         const timeSinceLastHeartbeat = Date.now() - lastHeartbeatTime.getTime();
 
@@ -128,17 +317,107 @@ export class HeartbeatService {
      * Get heartbeats within a time range
      * @param startDate Start date
      * @param endDate End date
+     * @param deviceId Optional device ID to restrict the heartbeats to
      * @returns Array of heartbeats
      */
-    async getHeartbeatsInRange(startDate: Date, endDate: Date): Promise<HeartbeatRecord[]> {
+    async getHeartbeatsInRange(
+        startDate: Date,
+        endDate: Date,
+        deviceId?: number
+    ): Promise<HeartbeatRecord[]> {
+        const builder = db<HeartbeatsTable>('heartbeats').whereBetween('timestamp', [
+            startDate,
+            endDate,
+        ]);
+
+        if (deviceId !== undefined) {
+            builder.andWhere('device_id', deviceId);
+        }
+
+        const heartbeats = await builder.orderBy('timestamp', 'asc');
+
+        return heartbeats.map((heartbeat) => toHeartbeatRecord(heartbeat) as HeartbeatRecord);
+    }
+
+    /**
+     * Get the arrival times of the heartbeats of a device within a time range
+     * @param startDate Start date
+     * @param endDate End date
+     * @param deviceId The device ID
+     * @returns The arrival times, in chronological order
+     */
+    async getArrivalTimes(startDate: Date, endDate: Date, deviceId: number): Promise<Date[]> {
         const heartbeats = await db<HeartbeatsTable>('heartbeats')
+            .select('timestamp', 'clock_drift')
             .whereBetween('timestamp', [startDate, endDate])
+            .andWhere('device_id', deviceId)
             .orderBy('timestamp', 'asc');
 
-        return heartbeats.map((heartbeat) => ({
-            ...heartbeat,
-            metadata: heartbeat.metadata ? JSON.parse(heartbeat.metadata) : null,
-        }));
+        return heartbeats
+            .map((heartbeat) => getArrivalTime(heartbeat))
+            .sort((a, b) => a.getTime() - b.getTime());
+    }
+
+    /**
+     * Query heartbeats with filters and cursor pagination
+     * Results are ordered by timestamp (then id) and the cursor points past the last returned row.
+     * The id and timestamp columns are always selected so that a cursor can be built.
+     * @param query The query filters and pagination options
+     * @returns A page of heartbeats and the cursor of the next page, if any
+     */
+    async queryHeartbeats(query: HeartbeatQuery): Promise<HeartbeatPage> {
+        const fields = query.fields ?? [...HEARTBEAT_FIELDS];
+        const columns = [...new Set<HeartbeatField>(['id', 'timestamp', ...fields])];
+        const comparator = query.order === 'asc' ? '>' : '<';
+
+        const builder = db<HeartbeatsTable>('heartbeats').select(columns);
+
+        if (query.deviceId !== undefined) {
+            builder.where('device_id', query.deviceId);
+        }
+        if (query.from) {
+            builder.where('timestamp', '>=', query.from);
+        }
+        if (query.to) {
+            builder.where('timestamp', '<=', query.to);
+        }
+        if (query.status) {
+            builder.where('status', query.status);
+        }
+        if (query.connection_type) {
+            builder.where('connection_type', query.connection_type);
+        }
+        if (query.media_state) {
+            builder.where('media_state', query.media_state);
+        }
+        if (query.cursor) {
+            const { timestamp, id } = query.cursor;
+            builder.where((cursorBuilder) => {
+                cursorBuilder.where('timestamp', comparator, timestamp).orWhere((tieBuilder) => {
+                    tieBuilder.where('timestamp', timestamp).andWhere('id', comparator, id);
+                });
+            });
+        }
+
+        // Fetch one extra row to know whether another page exists
+        const rows = await builder
+            .orderBy([
+                { column: 'timestamp', order: query.order },
+                { column: 'id', order: query.order },
+            ])
+            .limit(query.limit + 1);
+
+        const hasMore = rows.length > query.limit;
+        const pageRows = hasMore ? rows.slice(0, query.limit) : rows;
+        const lastRow = pageRows[pageRows.length - 1];
+
+        return {
+            data: pageRows.map((row) => toHeartbeatRecord(row)),
+            next_cursor:
+                hasMore && lastRow
+                    ? encodeCursor({ timestamp: new Date(lastRow.timestamp), id: lastRow.id })
+                    : null,
+        };
     }
 
     /**
@@ -0,0 +1,148 @@
+import { db } from '../db/config.js';
+import type {
+    DowntimeEventsTable,
+    IncidentsTable,
+    IncidentsInsert,
+    IncidentsUpdate,
+} from '../types/database.js';
+import type { DowntimeEvent } from './downtime.js';
+
+/**
+ * Types of incidents
+ * - flapping: groups the downtime events of a flapping line
+ * - degraded: the line is up but below its speed thresholds
+ */
+export const INCIDENT_TYPES = ['flapping', 'degraded'] as const;
+
+export type IncidentType = (typeof INCIDENT_TYPES)[number];
+
+/**
+ * An incident of a device, open until the line is back to normal
+ */
+export interface Incident {
+    id: number;
+    device_id: number;
+    type: IncidentType;
+    started_at: Date;
+    ended_at: Date | null;
+    is_active: boolean;
+    /** What triggered the incident, e.g. the breached thresholds of a degraded incident */
+    details: string | null;
+}
+
+/**
+ * Count the up/down transitions of downtime events inside a window
+ * Each event is a transition down when it starts and a transition up when it ends.
+ * @param events The downtime events
+ * @param startDate Window start
+ * @param endDate Window end
+ * @returns The number of transitions inside the window
+ */
+export function countTransitions(
+    events: Pick<DowntimeEvent, 'started_at' | 'ended_at'>[],
+    startDate: Date,
+    endDate: Date
+): number {
+    const isInWindow = (date: Date | null): boolean =>
+        date !== null && new Date(date) >= startDate && new Date(date) <= endDate;
+
+    return events.reduce(
+        (total, event) =>
+            total + (isInWindow(event.started_at) ? 1 : 0) + (isInWindow(event.ended_at) ? 1 : 0),
+        0
+    );
+}
+
+/**
+ * IncidentService handles the incidents of the devices
+ */
+export class IncidentService {
+    /**
+     * Create a new active incident
+     * @param deviceId The affected device
+     * @param startedAt Start of the first grouped downtime, or of the degradation
+     * @param type The incident type
+     * @param details Optional description of what triggered the incident
+     * @returns The ID of the created incident
+     */
+    async createIncident(
+        deviceId: number,
+        startedAt: Date,
+        type: IncidentType = 'flapping',
+        details: string | null = null
+    ): Promise<number> {
+        const insertData: IncidentsInsert = {
+            device_id: deviceId,
+            type,
+            started_at: startedAt,
+            is_active: true,
+            details,
+        };
+
+        const [id] = await db<IncidentsTable>('incidents').insert(insertData);
+
+        return id as number;
+    }
+
+    /**
+     * Get the current active incident of a device if any
+     * @param deviceId The device ID
+     * @param type The incident type
+     * @returns Active incident or null
+     */
+    async getActiveIncident(
+        deviceId: number,
+        type: IncidentType = 'flapping'
+    ): Promise<Incident | null> {
+        const incident = await db<IncidentsTable>('incidents')
+            .where('device_id', deviceId)
+            .andWhere('type', type)
+            .andWhere('is_active', true)
+            .orderBy('started_at', 'desc')
+            .first();
+
+        return incident ?? null;
+    }
+
+    /**
+     * Group downtime events under an incident
+     * @param incidentId The incident ID
+     * @param downtimeIds The downtime event IDs
+     */
+    async attachDowntimeEvents(incidentId: number, downtimeIds: number[]): Promise<void> {
+        if (downtimeIds.length === 0) {
+            return;
+        }
+
+        await db<DowntimeEventsTable>('downtime_events')
+            .whereIn('id', downtimeIds)
+            .update({ incident_id: incidentId });
+    }
+
+    /**
+     * Get the downtime events grouped under an incident
+     * @param incidentId The incident ID
+     * @returns Array of downtime events ordered from the oldest to the most recent
+     */
+    async getIncidentDowntimeEvents(incidentId: number): Promise<DowntimeEvent[]> {
+        return await db<DowntimeEventsTable>('downtime_events')
+            .where('incident_id', incidentId)
+            .orderBy('started_at', 'asc');
+    }
+
+    /**
+     * End an active incident
+     * @param id The incident ID
+     * @param endedAt End of the last grouped downtime, or of the degradation
+     */
+    async endIncident(id: number, endedAt: Date): Promise<void> {
+        const updateData: IncidentsUpdate = {
+            ended_at: endedAt,
+            is_active: false,
+        };
+
+        await db<IncidentsTable>('incidents').where('id', id).update(updateData);
+    }
+}
+
+export default new IncidentService();
@@ -0,0 +1,207 @@
+import { isIPv4, isIPv6 } from 'node:net';
+import { db } from '../db/config.js';
+import type { IpChangesTable, IpChangesInsert } from '../types/database.js';
+import { encodeCursor, type Cursor } from '../utils/query.js';
+import type { HeartbeatInput } from './heartbeat.js';
+
+/**
+ * Address families tracked for changes
+ * - ipv4: the public IPv4 address
+ * - ipv6: the /64 prefix of the IPv6 address, interface identifiers change on their own
+ */
+export const IP_FAMILIES = ['ipv4', 'ipv6'] as const;
+
+export type IpFamily = (typeof IP_FAMILIES)[number];
+
+/**
+ * Length of the IPv6 prefix compared between heartbeats
+ */
+export const IPV6_PREFIX_LENGTH = 64;
+
+/**
+ * An address a device started using
+ */
+export interface IpChange {
+    id: number;
+    device_id: number;
+    family: IpFamily;
+    /** Null for the first address seen */
+    previous_address: string | null;
+    address: string;
+    changed_at: Date;
+    created_at: Date;
+}
+
+export interface IpChangeQuery {
+    deviceId?: number;
+    family?: IpFamily;
+    from?: Date;
+    to?: Date;
+    cursor?: Cursor;
+    limit: number;
+}
+
+export interface IpChangePage {
+    data: IpChange[];
+    next_cursor: string | null;
+}
+
+/**
+ * Get the /64 prefix of an IPv6 address
+ * @param address The IPv6 address, optionally with a zone or prefix length
+ * @returns The prefix (e.g. "2001:db8:0:1::/64"), or null if the address is invalid
+ */
+export function getIpv6Prefix(address: string): string | null {
+    const [bare] = address.trim().split(/[%/]/);
+    if (!isIPv6(bare)) {
+        return null;
+    }
+
+    const toGroups = (part: string): string[] =>
+        part === ''
+            ? []
+            : part.split(':').flatMap((group) => {
+                  // An embedded IPv4 address fills the last two groups
+                  if (!group.includes('.')) {
+                      return [group];
+                  }
+                  const [a, b, c, d] = group.split('.').map(Number);
+                  return [((a << 8) | b).toString(16), ((c << 8) | d).toString(16)];
+              });
+
+    let groups: string[];
+    if (bare.includes('::')) {
+        const [head, tail] = bare.split('::');
+        const headGroups = toGroups(head);
+        const tailGroups = toGroups(tail);
+        groups = [
+            ...headGroups,
+            ...Array<string>(8 - headGroups.length - tailGroups.length).fill('0'),
+            ...tailGroups,
+        ];
+    } else {
+        groups = toGroups(bare);
+    }
+
+    const prefix = groups
+        .slice(0, IPV6_PREFIX_LENGTH / 16)
+        .map((group) => Number.parseInt(group, 16).toString(16));
+
+    return `${prefix.join(':')}::/${IPV6_PREFIX_LENGTH}`;
+}
+
+/**
+ * Get the tracked address of a family from a heartbeat
+ * @param heartbeat The heartbeat
+ * @param family The address family
+ * @returns The IPv4 address or IPv6 prefix, or null if missing or invalid
+ */
+export function getTrackedAddress(
+    heartbeat: Pick<HeartbeatInput, 'ipv4' | 'ipv6'>,
+    family: IpFamily
+): string | null {
+    const address = heartbeat[family]?.trim();
+    if (!address) {
+        return null;
+    }
+
+    if (family === 'ipv6') {
+        return getIpv6Prefix(address);
+    }
+
+    return isIPv4(address) ? address : null;
+}
+
+/**
+ * IpChangeService handles the address history of the devices
+ */
+export class IpChangeService {
+    /**
+     * Record an address a device started using
+     * @param change The device, family, previous and new address, and change time
+     * @returns The ID of the created IP change
+     */
+    async recordIpChange(change: IpChangesInsert): Promise<number> {
+        const [id] = await db<IpChangesTable>('ip_changes').insert(change);
+
+        return id as number;
+    }
+
+    /**
+     * Get the latest IP change of each family of a device, i.e. the addresses it currently uses
+     * @param deviceId The device ID
+     * @returns The latest IP change of each family seen so far
+     */
+    async getCurrentAddresses(deviceId: number): Promise<Partial<Record<IpFamily, IpChange>>> {
+        const current: Partial<Record<IpFamily, IpChange>> = {};
+
+        for (const family of IP_FAMILIES) {
+            const change = await db<IpChangesTable>('ip_changes')
+                .where({ device_id: deviceId, family })
+                .orderBy([
+                    { column: 'changed_at', order: 'desc' },
+                    { column: 'id', order: 'desc' },
+                ])
+                .first();
+
+            if (change) {
+                current[family] = change;
+            }
+        }
+
+        return current;
+    }
+
+    /**
+     * Query the IP change history with filters and cursor pagination
+     * Changes are ordered from the most recent to the oldest.
+     * @param query The query filters and pagination options
+     * @returns A page of IP changes and the cursor of the next page, if any
+     */
+    async queryIpChanges(query: IpChangeQuery): Promise<IpChangePage> {
+        const builder = db<IpChangesTable>('ip_changes');
+
+        if (query.deviceId !== undefined) {
+            builder.where('device_id', query.deviceId);
+        }
+        if (query.family !== undefined) {
+            builder.where('family', query.family);
+        }
+        if (query.from) {
+            builder.where('changed_at', '>=', query.from);
+        }
+        if (query.to) {
+            builder.where('changed_at', '<=', query.to);
+        }
+        if (query.cursor) {
+            const { timestamp, id } = query.cursor;
+            builder.where((cursorBuilder) => {
+                cursorBuilder.where('changed_at', '<', timestamp).orWhere((tieBuilder) => {
+                    tieBuilder.where('changed_at', timestamp).andWhere('id', '<', id);
+                });
+            });
+        }
+
+        // Fetch one extra row to know whether another page exists
+        const rows = await builder
+            .orderBy([
+                { column: 'changed_at', order: 'desc' },
+                { column: 'id', order: 'desc' },
+            ])
+            .limit(query.limit + 1);
+
+        const hasMore = rows.length > query.limit;
+        const pageRows = hasMore ? rows.slice(0, query.limit) : rows;
+        const lastRow = pageRows[pageRows.length - 1];
+
+        return {
+            data: pageRows,
+            next_cursor:
+                hasMore && lastRow
+                    ? encodeCursor({ timestamp: new Date(lastRow.changed_at), id: lastRow.id })
+                    : null,
+        };
+    }
+}
+
+export default new IpChangeService();
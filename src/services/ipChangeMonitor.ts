@@ -0,0 +1,122 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { HeartbeatInput } from './heartbeat.js';
+import { getDeviceDisplayName, type Device } from './device.js';
+import ipChangeService, { IP_FAMILIES, getTrackedAddress, type IpFamily } from './ipChange.js';
+import { NotificationService } from './notification.js';
+
+/**
+ * A change detected in the heartbeats of a device
+ */
+interface DetectedIpChange {
+    family: IpFamily;
+    previousAddress: string | null;
+    address: string;
+    changedAt: Date;
+}
+
+/**
+ * IpChangeMonitor records the public addresses of the devices and alerts when they change
+ *
+ * Each heartbeat is compared with the last recorded address of each family, the public IPv4
+ * and the IPv6 prefix. Heartbeats without an address (e.g. while the line is down) and
+ * heartbeats older than the last change are ignored, so that replayed batches do not record
+ * stale addresses. The first address of a device is recorded without alert.
+ */
+export class IpChangeMonitor {
+    private logger: FastifyBaseLogger;
+    private notificationService: NotificationService;
+
+    constructor(logger: FastifyBaseLogger, notificationService: NotificationService) {
+        this.logger = logger.child({ service: 'IpChangeMonitor' });
+        this.notificationService = notificationService;
+    }
+
+    /**
+     * Record the address changes carried by recorded heartbeats and alert on them
+     * @param device The device that sent the heartbeats
+     * @param heartbeats The heartbeats, in any order
+     * @returns The number of address changes, excluding first addresses
+     */
+    async checkHeartbeats(device: Device, heartbeats: HeartbeatInput[]): Promise<number> {
+        const sorted = heartbeats
+            .filter((heartbeat) =>
+                IP_FAMILIES.some((family) => getTrackedAddress(heartbeat, family) !== null)
+            )
+            .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+        if (sorted.length === 0) {
+            return 0;
+        }
+
+        const current = await ipChangeService.getCurrentAddresses(device.id);
+        const changes: DetectedIpChange[] = [];
+
+        for (const heartbeat of sorted) {
+            const changedAt = new Date(heartbeat.timestamp);
+
+            for (const family of IP_FAMILIES) {
+                const address = getTrackedAddress(heartbeat, family);
+                const last = current[family];
+
+                if (
+                    address === null ||
+                    (last && new Date(last.changed_at) >= changedAt) ||
+                    last?.address === address
+                ) {
+                    continue;
+                }
+
+                const change = {
+                    device_id: device.id,
+                    family,
+                    previous_address: last?.address ?? null,
+                    address,
+                    changed_at: changedAt,
+                };
+                const id = await ipChangeService.recordIpChange(change);
+                current[family] = { id, ...change, created_at: new Date() };
+
+                changes.push({
+                    family,
+                    previousAddress: change.previous_address,
+                    address,
+                    changedAt,
+                });
+            }
+        }
+
+        const alerted = changes.filter((change) => change.previousAddress !== null);
+
+        for (const change of changes) {
+            if (change.previousAddress === null) {
+                this.logger.info(
+                    { device: device.name, family: change.family, address: change.address },
+                    'First address recorded'
+                );
+                continue;
+            }
+
+            this.logger.warn(
+                {
+                    device: device.name,
+                    family: change.family,
+                    previousAddress: change.previousAddress,
+                    address: change.address,
+                },
+                'Address changed'
+            );
+
+            if (this.notificationService.isEnabled()) {
+                await this.notificationService.sendIpChangedAlert(
+                    getDeviceDisplayName(device),
+                    change.family,
+                    change.previousAddress,
+                    change.address,
+                    change.changedAt
+                );
+            }
+        }
+
+        return alerted.length;
+    }
+}
@@ -0,0 +1,203 @@
+import { CronExpressionParser } from 'cron-parser';
+import { db } from '../db/config.js';
+import type { MaintenanceWindowsTable, MaintenanceWindowsInsert } from '../types/database.js';
+
+/**
+ * A period during which downtimes are expected
+ * One-off windows have a start and an end. Recurring windows start at every occurrence of
+ * a cron expression, evaluated in the server time zone, and last for a duration.
+ */
+export interface MaintenanceWindow {
+    id: number;
+    /** Device the window applies to, null for every device */
+    device_id: number | null;
+    reason: string | null;
+    starts_at: Date | null;
+    ends_at: Date | null;
+    recurrence: string | null;
+    /** Duration of each occurrence of a recurring window, in seconds */
+    duration: number | null;
+    created_at: Date;
+}
+
+/**
+ * Check that a cron expression is valid
+ * @param expression The cron expression, e.g. "0 2 * * 2" for every Tuesday at 2:00
+ * @returns true if the expression can be parsed
+ */
+export function isValidRecurrence(expression: string): boolean {
+    try {
+        CronExpressionParser.parse(expression);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Fields of a maintenance window telling when it applies
+ */
+type WindowSchedule = Pick<MaintenanceWindow, 'starts_at' | 'ends_at' | 'recurrence' | 'duration'>;
+
+/**
+ * Get the end of the occurrence of a maintenance window covering a date
+ * @param window The maintenance window
+ * @param date The date to check
+ * @returns The end of the occurrence, or null if the window does not cover the date
+ */
+export function getMaintenanceWindowEnd(window: WindowSchedule, date: Date): Date | null {
+    if (window.recurrence) {
+        if (!window.duration) {
+            return null;
+        }
+
+        try {
+            // Last occurrence at or before the date
+            const occurrence = CronExpressionParser.parse(window.recurrence, {
+                currentDate: new Date(date.getTime() + 1),
+            })
+                .prev()
+                .toDate();
+            const end = new Date(occurrence.getTime() + window.duration * 1000);
+
+            return date < end ? end : null;
+        } catch {
+            return null;
+        }
+    }
+
+    if (
+        window.starts_at !== null &&
+        window.ends_at !== null &&
+        new Date(window.starts_at) <= date &&
+        date < new Date(window.ends_at)
+    ) {
+        return new Date(window.ends_at);
+    }
+
+    return null;
+}
+
+/**
+ * Check whether a date falls inside a maintenance window
+ * @param window The maintenance window
+ * @param date The date to check
+ * @returns true if the window covers the date
+ */
+export function isInMaintenanceWindow(window: WindowSchedule, date: Date): boolean {
+    return getMaintenanceWindowEnd(window, date) !== null;
+}
+
+/**
+ * MaintenanceService handles the maintenance windows during which downtimes are planned
+ */
+export class MaintenanceService {
+    /**
+     * Get every maintenance window
+     * @returns Array of maintenance windows ordered by creation
+     */
+    async getMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+        return await db<MaintenanceWindowsTable>('maintenance_windows').orderBy('id', 'asc');
+    }
+
+    /**
+     * Get a maintenance window by ID
+     * @param id The maintenance window ID
+     * @returns The maintenance window or null if not found
+     */
+    async getMaintenanceWindowById(id: number): Promise<MaintenanceWindow | null> {
+        const window = await db<MaintenanceWindowsTable>('maintenance_windows')
+            .where('id', id)
+            .first();
+
+        return window ?? null;
+    }
+
+    /**
+     * Create a new maintenance window
+     * @param window The maintenance window data
+     * @returns The ID of the created maintenance window
+     */
+    async createMaintenanceWindow(window: MaintenanceWindowsInsert): Promise<number> {
+        const [id] = await db<MaintenanceWindowsTable>('maintenance_windows').insert(window);
+
+        return id as number;
+    }
+
+    /**
+     * Delete a maintenance window
+     * @param id The maintenance window ID
+     * @returns true if the window existed
+     */
+    async deleteMaintenanceWindow(id: number): Promise<boolean> {
+        const deleted = await db<MaintenanceWindowsTable>('maintenance_windows')
+            .where('id', id)
+            .delete();
+
+        return deleted > 0;
+    }
+
+    /**
+     * Get the maintenance window covering a device at a given time, if any
+     * @param deviceId The device ID
+     * @param date The date to check
+     * @returns The first matching window, or null outside maintenance
+     */
+    async getActiveMaintenanceWindow(
+        deviceId: number,
+        date: Date = new Date()
+    ): Promise<MaintenanceWindow | null> {
+        const windows = await this.getDeviceMaintenanceWindows(deviceId);
+
+        return windows.find((window) => isInMaintenanceWindow(window, date)) ?? null;
+    }
+
+    /**
+     * Get when the maintenance of a device covering a given time ends
+     * Overlapping and back-to-back windows are followed until the device leaves maintenance,
+     * or until a limit for windows that never leave a gap.
+     * @param deviceId The device ID
+     * @param date The date to check
+     * @param until Limit returned instead of following windows past it
+     * @returns The end of the maintenance, or null outside maintenance
+     */
+    async getMaintenanceEnd(
+        deviceId: number,
+        date: Date,
+        until: Date = new Date()
+    ): Promise<Date | null> {
+        const windows = await this.getDeviceMaintenanceWindows(deviceId);
+        let end: Date | null = null;
+        let current = date;
+
+        do {
+            const ends = windows
+                .map((window) => getMaintenanceWindowEnd(window, current))
+                .filter((windowEnd) => windowEnd !== null);
+
+            if (ends.length === 0) {
+                return end;
+            }
+
+            end = new Date(Math.max(...ends.map((windowEnd) => windowEnd.getTime())));
+            current = end;
+        } while (current < until);
+
+        return end;
+    }
+
+    /**
+     * Get the maintenance windows applying to a device
+     * @param deviceId The device ID
+     * @returns The windows of the device and those of every device, ordered by creation
+     */
+    private async getDeviceMaintenanceWindows(deviceId: number): Promise<MaintenanceWindow[]> {
+        return await db<MaintenanceWindowsTable>('maintenance_windows')
+            .where((builder) => {
+                builder.where('device_id', deviceId).orWhereNull('device_id');
+            })
+            .orderBy('id', 'asc');
+    }
+}
+
+export default new MaintenanceService();
@@ -0,0 +1,162 @@
+import { db } from '../db/config.js';
+import type { AuthNoncesTable, AuthNoncesInsert } from '../types/database.js';
+
+/**
+ * Backends available for the nonce store (NONCE_STORE)
+ */
+export const NONCE_STORE_BACKENDS = ['memory', 'database'] as const;
+
+export type NonceStoreBackend = (typeof NONCE_STORE_BACKENDS)[number];
+
+/**
+ * A nonce used by a signed request
+ */
+export interface NonceEntry {
+    /** Device that signed the request, nonces are unique per device */
+    device: string;
+    nonce: string;
+    /** Signature timestamp, in seconds */
+    timestamp: number;
+    /** When the request can no longer be replayed because its timestamp expired */
+    expiresAt: Date;
+}
+
+/**
+ * Storage of the nonces seen while they can still be replayed
+ */
+export interface NonceStore {
+    /**
+     * Remember a nonce unless it is already known
+     * @param entry The nonce to remember
+     * @returns false if the nonce was already used and has not expired yet
+     */
+    remember(entry: NonceEntry): Promise<boolean>;
+}
+
+/**
+ * Nonce store kept in process memory
+ * Replay protection is lost on restart and is not shared between instances.
+ */
+export class MemoryNonceStore implements NonceStore {
+    private nonces = new Map<string, number>();
+
+    async remember(entry: NonceEntry): Promise<boolean> {
+        const now = Date.now();
+
+        // Forget expired nonces so that the map only holds replayable requests
+        for (const [key, expiresAt] of this.nonces) {
+            if (expiresAt <= now) {
+                this.nonces.delete(key);
+            }
+        }
+
+        const key = `${entry.device}:${entry.nonce}`;
+        if (this.nonces.has(key)) {
+            return false;
+        }
+
+        this.nonces.set(key, entry.expiresAt.getTime());
+        return true;
+    }
+}
+
+/**
+ * Minimum delay between two purges of expired nonces from the database (1 minute)
+ */
+const PURGE_INTERVAL_MS = 60000;
+
+/**
+ * Nonce store backed by the auth_nonces table
+ * Replay protection survives restarts and is shared by every instance using the database.
+ */
+export class DatabaseNonceStore implements NonceStore {
+    private lastPurgeAt = 0;
+
+    async remember(entry: NonceEntry): Promise<boolean> {
+        await this.purgeExpired();
+
+        const insertData: AuthNoncesInsert = {
+            device: entry.device,
+            nonce: entry.nonce,
+            timestamp: entry.timestamp,
+            expires_at: entry.expiresAt,
+        };
+
+        try {
+            await db<AuthNoncesTable>('auth_nonces').insert(insertData);
+            return true;
+        } catch (error) {
+            if ((error as { code?: string }).code !== 'ER_DUP_ENTRY') {
+                throw error;
+            }
+        }
+
+        // The nonce is known: it can only be reused once its previous request expired
+        const updated = await db<AuthNoncesTable>('auth_nonces')
+            .where({ device: entry.device, nonce: entry.nonce })
+            .andWhere('expires_at', '<=', new Date())
+            .update({ timestamp: entry.timestamp, expires_at: entry.expiresAt });
+
+        return updated > 0;
+    }
+
+    /**
+     * Delete expired nonces, at most once per PURGE_INTERVAL_MS
+     */
+    private async purgeExpired(): Promise<void> {
+        const now = Date.now();
+        if (now - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+            return;
+        }
+
+        this.lastPurgeAt = now;
+        await db<AuthNoncesTable>('auth_nonces').where('expires_at', '<=', new Date(now)).delete();
+    }
+}
+
+/**
+ * Create the nonce store for a backend
+ * @param backend The backend name
+ * @returns The nonce store
+ */
+export function createNonceStore(backend: string): NonceStore {
+    switch (backend) {
+        case 'memory':
+            return new MemoryNonceStore();
+        case 'database':
+            return new DatabaseNonceStore();
+        default:
+            throw new Error(
+                `Invalid NONCE_STORE "${backend}", expected one of: ${NONCE_STORE_BACKENDS.join(', ')}`
+            );
+    }
+}
+
+/**
+ * NonceService rejects nonces reused by signed requests
+ * The backend is selected with NONCE_STORE (default: memory) on first use.
+ */
+export class NonceService {
+    private store: NonceStore | null = null;
+
+    /**
+     * Get the nonce store, creating it from NONCE_STORE on first call
+     * @returns The nonce store
+     */
+    getStore(): NonceStore {
+        this.store ??= createNonceStore(process.env.NONCE_STORE?.trim() || 'memory');
+
+        return this.store;
+    }
+
+    /**
+     * Register the nonce of a signed request
+     * @param entry The nonce to register
+     * @returns false if the request is a replay
+     */
+    async registerNonce(entry: NonceEntry): Promise<boolean> {
+        return await this.getStore().remember(entry);
+    }
+}
+
+export default new NonceService();
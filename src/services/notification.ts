@@ -1,9 +1,56 @@
 import TelegramBot from 'node-telegram-bot-api';
 import type { FastifyBaseLogger } from 'fastify';
+import { getDowntimeCauseLabel, type DowntimeCause } from './downtimeCause.js';
+import {
+    renderEscalationTemplate,
+    type EscalationChannel,
+    type EscalationStage,
+} from './escalation.js';
+import type { IpFamily } from './ipChange.js';
+import type { TransferredBytes } from './backup.js';
 
 export interface DowntimeNotificationData {
     downtimeId: number;
     startedAt: Date;
+    /** Display name of the affected device */
+    device?: string;
+}
+
+export interface IncidentNotificationData {
+    incidentId: number;
+    startedAt: Date;
+    /** Display name of the affected device */
+    device?: string;
+}
+
+export interface BackupNotificationData {
+    backupId: number;
+    startedAt: Date;
+    /** Display name of the affected device */
+    device?: string;
+    /** The backup media_state or connection_type */
+    media: string | null;
+}
+
+/**
+ * Position of an escalation alert in the escalation ladder
+ */
+export interface EscalationNotificationOptions {
+    stage: EscalationStage;
+    /** Stage number, starting at 1 */
+    stageNumber: number;
+    /** Reminder number within the stage, 0 for the first alert of the stage */
+    reminder: number;
+}
+
+/**
+ * Escape the Markdown special characters of a value inserted in a message, such as a device
+ * name, so that Telegram does not reject the message or render it wrongly
+ * @param text The raw value
+ * @returns The escaped value
+ */
+export function escapeMarkdown(text: string): string {
+    return text.replace(/[_*`[]/g, '\\$&');
 }
 
 /**
@@ -51,21 +98,69 @@ export class NotificationService {
         return this.enabled;
     }
 
+    /**
+     * Check if alerts can be delivered to a channel
+     * @param channel The channel
+     * @param recipients Optional recipients replacing the default one of the channel
+     */
+    isChannelEnabled(channel: EscalationChannel, recipients: string[] | null = null): boolean {
+        if (channel === 'discord') {
+            return recipients !== null || Boolean(process.env.DISCORD_WEBHOOK_URL);
+        }
+
+        return this.isEnabled();
+    }
+
     /**
      * Send a message via Telegram
+     * @param message The Markdown message
+     * @param chatIds Optional chat IDs replacing TELEGRAM_CHAT_ID
      */
-    private async sendMessage(message: string): Promise<void> {
+    private async sendMessage(message: string, chatIds: string[] | null = null): Promise<void> {
         if (!this.enabled || !this.bot || !this.chatId) {
             return;
         }
 
-        try {
-            await this.bot.sendMessage(this.chatId, message, {
-                parse_mode: 'Markdown',
-            });
-            this.logger.debug({ chatId: this.chatId }, 'Telegram message sent');
-        } catch (error) {
-            this.logger.error({ error }, 'Failed to send Telegram message');
+        for (const chatId of chatIds ?? [this.chatId]) {
+            try {
+                await this.bot.sendMessage(chatId, message, {
+                    parse_mode: 'Markdown',
+                });
+                this.logger.debug({ chatId }, 'Telegram message sent');
+            } catch (error) {
+                this.logger.error({ error, chatId }, 'Failed to send Telegram message');
+            }
+        }
+    }
+
+    /**
+     * Send a message via Discord webhooks
+     * @param message The Markdown message
+     * @param webhookUrls Optional webhook URLs replacing DISCORD_WEBHOOK_URL
+     */
+    private async sendDiscordMessage(
+        message: string,
+        webhookUrls: string[] | null = null
+    ): Promise<void> {
+        const urls =
+            webhookUrls ??
+            (process.env.DISCORD_WEBHOOK_URL ? [process.env.DISCORD_WEBHOOK_URL] : []);
+
+        for (const url of urls) {
+            try {
+                const response = await fetch(url, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ content: message }),
+                });
+
+                if (!response.ok) {
+                    throw new Error(`${response.status} ${response.statusText}`);
+                }
+                this.logger.debug('Discord message sent');
+            } catch (error) {
+                this.logger.error({ error }, 'Failed to send Discord message');
+            }
         }
     }
 
@@ -95,6 +190,7 @@ export class NotificationService {
         const message = [
             '🔴 *Downtime Detected*',
             '',
+            ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
             `Started: ${data.startedAt.toISOString()}`,
             `ID: ${data.downtimeId}`,
             '',
@@ -105,32 +201,102 @@ export class NotificationService {
     }
 
     /**
-     * Send confirmed downtime alert (after 30 additional minutes)
+     * Send downtime alert when the agent keeps reporting that the connection is down
      */
-    async sendDowntimeConfirmedAlert(
+    async sendReportedDowntimeAlert(
         data: DowntimeNotificationData,
-        confirmationDelayMs: number
+        connectionState: string,
+        reports: number
     ): Promise<void> {
-        const durationMinutes = Math.floor((Date.now() - data.startedAt.getTime()) / 60000);
-        const confirmationDelayMinutes = Math.floor(confirmationDelayMs / 60000);
+        const message = [
+            '🔴 *Downtime Reported*',
+            '',
+            ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
+            `Started: ${data.startedAt.toISOString()}`,
+            `ID: ${data.downtimeId}`,
+            '',
+            `The agent reported connection state "${escapeMarkdown(connectionState)}" ${reports} times in a row.`,
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
 
+    /**
+     * Send downtime alert when a planned downtime outlasts its maintenance window
+     */
+    async sendMaintenanceOverrunAlert(data: DowntimeNotificationData): Promise<void> {
         const message = [
-            '⚠️ *Downtime Confirmed*',
+            '🔴 *Downtime Outlasting Maintenance*',
             '',
+            ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
             `Started: ${data.startedAt.toISOString()}`,
-            `Duration: ${durationMinutes} minutes`,
             `ID: ${data.downtimeId}`,
             '',
-            `Service has been down for over ${confirmationDelayMinutes} minutes.`,
+            'The maintenance window is over but the line is still down.',
         ].join('\n');
 
         await this.sendMessage(message);
     }
 
+    /**
+     * Send confirmed downtime alert (after 30 additional minutes)
+     * With escalation options, the alert of a stage of the escalation ladder is sent to the
+     * channel and recipients of the stage, using its template if any.
+     */
+    async sendDowntimeConfirmedAlert(
+        data: DowntimeNotificationData,
+        confirmationDelayMs: number,
+        escalation?: EscalationNotificationOptions
+    ): Promise<void> {
+        const durationMinutes = Math.floor((Date.now() - data.startedAt.getTime()) / 60000);
+        const confirmationDelayMinutes = Math.floor(confirmationDelayMs / 60000);
+        const stageNumber = escalation?.stageNumber ?? 1;
+        const reminder = escalation?.reminder ?? 0;
+
+        const message = escalation?.stage.template
+            ? renderEscalationTemplate(escalation.stage.template, {
+                  id: data.downtimeId,
+                  device: escapeMarkdown(data.device ?? ''),
+                  started_at: data.startedAt.toISOString(),
+                  duration: durationMinutes,
+                  stage: stageNumber,
+                  reminder,
+              })
+            : [
+                  stageNumber === 1 && reminder === 0
+                      ? '⚠️ *Downtime Confirmed*'
+                      : '🚨 *Downtime Still Ongoing*',
+                  '',
+                  ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
+                  `Started: ${data.startedAt.toISOString()}`,
+                  `Duration: ${durationMinutes} minutes`,
+                  ...(escalation
+                      ? [
+                            `Escalation: stage ${stageNumber}${reminder > 0 ? `, reminder ${reminder}` : ''}`,
+                        ]
+                      : []),
+                  `ID: ${data.downtimeId}`,
+                  '',
+                  `Service has been down for over ${confirmationDelayMinutes} minutes.`,
+              ].join('\n');
+
+        if (escalation?.stage.channel === 'discord') {
+            await this.sendDiscordMessage(message, escalation.stage.recipients);
+        } else {
+            await this.sendMessage(message, escalation?.stage.recipients ?? null);
+        }
+    }
+
     /**
      * Send recovery alert when service comes back online
      */
-    async sendRecoveryAlert(downtimeId: number, startedAt: Date, endedAt: Date): Promise<void> {
+    async sendRecoveryAlert(
+        downtimeId: number,
+        startedAt: Date,
+        endedAt: Date,
+        device?: string,
+        cause?: DowntimeCause
+    ): Promise<void> {
         const durationSeconds = Math.floor((endedAt.getTime() - startedAt.getTime()) / 1000);
         const durationMinutes = Math.floor(durationSeconds / 60);
         const remainingSeconds = durationSeconds % 60;
@@ -143,12 +309,212 @@ export class NotificationService {
         const message = [
             '✅ *Service Recovered*',
             '',
+            ...(device ? [`Device: ${escapeMarkdown(device)}`] : []),
             `Downtime started: ${startedAt.toISOString()}`,
             `Recovered at: ${endedAt.toISOString()}`,
             `Total duration: ${durationText}`,
+            ...(cause ? [`Cause: ${getDowntimeCauseLabel(cause)}`] : []),
             `ID: ${downtimeId}`,
         ].join('\n');
 
         await this.sendMessage(message);
     }
+
+    /**
+     * Send a notice when replayed heartbeats prove that an alerted downtime never happened
+     */
+    async sendFalseAlarmAlert(downtimeId: number, startedAt: Date, device?: string): Promise<void> {
+        const message = [
+            '↩️ *False Alarm*',
+            '',
+            ...(device ? [`Device: ${escapeMarkdown(device)}`] : []),
+            `Downtime started: ${startedAt.toISOString()}`,
+            'Heartbeats replayed by the agent show that the service stayed up',
+            `ID: ${downtimeId}`,
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
+
+    /**
+     * Send a single alert when a line starts flapping, instead of one per downtime
+     */
+    async sendFlappingAlert(
+        data: IncidentNotificationData,
+        transitions: number,
+        windowMs: number
+    ): Promise<void> {
+        const message = [
+            '🔁 *Line Flapping*',
+            '',
+            ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
+            `Started: ${data.startedAt.toISOString()}`,
+            `Incident ID: ${data.incidentId}`,
+            '',
+            `${transitions} up/down transitions in the last ${Math.floor(windowMs / 60000)} minutes.`,
+            'Further downtimes are grouped until the line is stable again.',
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
+
+    /**
+     * Send the summary of a flapping incident once the line is stable again
+     */
+    async sendIncidentSummary(
+        data: IncidentNotificationData,
+        endedAt: Date,
+        downtimeCount: number,
+        totalDowntimeSeconds: number
+    ): Promise<void> {
+        const totalMinutes = Math.floor(totalDowntimeSeconds / 60);
+        const remainingSeconds = totalDowntimeSeconds % 60;
+
+        const message = [
+            '✅ *Line Stable Again*',
+            '',
+            ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
+            `Flapping started: ${data.startedAt.toISOString()}`,
+            `Last recovery: ${endedAt.toISOString()}`,
+            `Downtimes: ${downtimeCount}`,
+            `Total downtime: ${totalMinutes > 0 ? `${totalMinutes}m ${remainingSeconds}s` : `${remainingSeconds}s`}`,
+            `Incident ID: ${data.incidentId}`,
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
+
+    /**
+     * Send an alert when a line stays up but below its speed thresholds
+     */
+    async sendDegradedAlert(
+        data: IncidentNotificationData,
+        details: string,
+        durationMs: number
+    ): Promise<void> {
+        const message = [
+            '🐢 *Line Degraded*',
+            '',
+            ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
+            `Started: ${data.startedAt.toISOString()}`,
+            `Below thresholds: ${escapeMarkdown(details)}`,
+            `Incident ID: ${data.incidentId}`,
+            '',
+            `The line has been up but slow for over ${Math.floor(durationMs / 60000)} minutes.`,
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
+
+    /**
+     * Send a recovery alert when a degraded line is back above its speed thresholds
+     */
+    async sendDegradationRecoveredAlert(
+        data: IncidentNotificationData,
+        endedAt: Date
+    ): Promise<void> {
+        const durationMinutes = Math.floor((endedAt.getTime() - data.startedAt.getTime()) / 60000);
+
+        const message = [
+            '✅ *Line Speed Recovered*',
+            '',
+            ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
+            `Degraded since: ${data.startedAt.toISOString()}`,
+            `Recovered: ${endedAt.toISOString()}`,
+            `Duration: ${durationMinutes} minutes`,
+            `Incident ID: ${data.incidentId}`,
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
+
+    /**
+     * Send a warning when the clock of a device drifts from the server clock
+     */
+    async sendClockDriftAlert(
+        device: string,
+        clockDrift: number,
+        thresholdMs: number
+    ): Promise<void> {
+        const driftSeconds = Math.round(Math.abs(clockDrift) / 1000);
+
+        const message = [
+            '🕒 *Clock Drift Detected*',
+            '',
+            `Device: ${escapeMarkdown(device)}`,
+            `Drift: ${driftSeconds}s ${clockDrift > 0 ? 'behind' : 'ahead of'} the server`,
+            `Threshold: ${Math.round(thresholdMs / 1000)}s`,
+            '',
+            'Signed requests will be rejected if the drift keeps growing, check NTP on the agent.',
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
+
+    /**
+     * Send an alert when a device fails over to its backup link
+     */
+    async sendBackupStartedAlert(data: BackupNotificationData): Promise<void> {
+        const message = [
+            '📶 *Backup Connection Active*',
+            '',
+            ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
+            ...(data.media ? [`Media: ${escapeMarkdown(data.media)}`] : []),
+            `Started: ${data.startedAt.toISOString()}`,
+            `Backup ID: ${data.backupId}`,
+            '',
+            'The primary line is unavailable, traffic goes over the backup link.',
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
+
+    /**
+     * Send an alert when a device switches back from its backup link to its primary line
+     */
+    async sendBackupEndedAlert(
+        data: BackupNotificationData,
+        endedAt: Date,
+        bytes: TransferredBytes
+    ): Promise<void> {
+        const durationMinutes = Math.floor((endedAt.getTime() - data.startedAt.getTime()) / 60000);
+        const formatBytes = (value: number | null): string =>
+            value === null ? 'unknown' : `${(value / 1e6).toFixed(1)} MB`;
+
+        const message = [
+            '✅ *Primary Connection Restored*',
+            '',
+            ...(data.device ? [`Device: ${escapeMarkdown(data.device)}`] : []),
+            `Backup started: ${data.startedAt.toISOString()}`,
+            `Restored at: ${endedAt.toISOString()}`,
+            `Time on backup: ${durationMinutes} minutes`,
+            `Transferred: ${formatBytes(bytes.bytes_down)} down, ${formatBytes(bytes.bytes_up)} up`,
+            `Backup ID: ${data.backupId}`,
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
+
+    /**
+     * Send an alert when the public IPv4 address or the IPv6 prefix of a device changes
+     */
+    async sendIpChangedAlert(
+        device: string,
+        family: IpFamily,
+        previousAddress: string,
+        address: string,
+        changedAt: Date
+    ): Promise<void> {
+        const message = [
+            '🌐 *Public IP Changed*',
+            '',
+            `Device: ${escapeMarkdown(device)}`,
+            `${family === 'ipv4' ? 'IPv4' : 'IPv6 prefix'}: ${previousAddress} → ${address}`,
+            `Changed at: ${changedAt.toISOString()}`,
+            '',
+            'Remote access and port forwarding relying on the previous address may be broken.',
+        ].join('\n');
+
+        await this.sendMessage(message);
+    }
 }
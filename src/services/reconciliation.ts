@@ -0,0 +1,311 @@
+import heartbeatService from './heartbeat.js';
+import downtimeService, { type DowntimeEvent } from './downtime.js';
+import maintenanceService from './maintenance.js';
+import watcherService from './watcher.js';
+
+/**
+ * Silence between two heartbeats longer than the heartbeat timeout
+ */
+export interface HeartbeatGap {
+    /**
+     * When the heartbeat timeout expired after the last heartbeat, which is also the start
+     * the downtime monitor records
+     */
+    start: Date;
+    /** Timestamp of the first heartbeat after the gap, or null if none arrived yet */
+    end: Date | null;
+}
+
+export interface ReconciliationResult {
+    /** Events whose boundaries were moved to match a gap */
+    updated: number[];
+    /** Events created for additional gaps found inside an existing event */
+    created: number[];
+    /** Events fully covered by heartbeats, closed with a zero duration */
+    cleared: number[];
+}
+
+/**
+ * A change made (or, in a dry run, that would be made) to the downtime events
+ */
+export interface DowntimeChange {
+    action: 'created' | 'updated' | 'cleared';
+    /** ID of the event, null for an event a dry run would create */
+    id: number | null;
+    device_id: number;
+    started_at: Date;
+    ended_at: Date | null;
+}
+
+/**
+ * Note stored on events created by reconciliation
+ */
+export const RECONCILED_DOWNTIME_NOTE = 'Reconstructed from heartbeat history';
+
+/**
+ * Note stored on events that replayed heartbeats proved to be false positives
+ */
+export const CLEARED_DOWNTIME_NOTE = 'Cleared by replayed heartbeats';
+
+/**
+ * Find the gaps longer than the timeout in a series of heartbeat timestamps
+ * @param timestamps Heartbeat timestamps
+ * @param timeoutMs Heartbeat timeout in milliseconds
+ * @param until End of the observed period; silence from the last heartbeat up to it
+ *              counts as an open gap
+ * @returns The gaps, in chronological order
+ */
+export function findHeartbeatGaps(
+    timestamps: Date[],
+    timeoutMs: number,
+    until?: Date
+): HeartbeatGap[] {
+    const sorted = [...timestamps].sort((a, b) => a.getTime() - b.getTime());
+    const gaps: HeartbeatGap[] = [];
+
+    for (let index = 1; index < sorted.length; index++) {
+        if (sorted[index].getTime() - sorted[index - 1].getTime() > timeoutMs) {
+            gaps.push({
+                start: new Date(sorted[index - 1].getTime() + timeoutMs),
+                end: sorted[index],
+            });
+        }
+    }
+
+    const last = sorted[sorted.length - 1];
+    if (until && last && until.getTime() - last.getTime() > timeoutMs) {
+        gaps.push({ start: new Date(last.getTime() + timeoutMs), end: null });
+    }
+
+    return gaps;
+}
+
+/**
+ * ReconciliationService realigns downtime events with the heartbeats actually stored,
+ * for instance after an agent replayed heartbeats it buffered during an outage
+ */
+export class ReconciliationService {
+    /**
+     * Reconcile every heartbeat silence downtime event of a device overlapping a period
+     * @param deviceId The device ID
+     * @param from Period start
+     * @param to Period end
+     * @param heartbeatTimeoutMs Heartbeat timeout of the device in milliseconds
+     * @returns The IDs of the events that were changed
+     */
+    async reconcileDowntimeEvents(
+        deviceId: number,
+        from: Date,
+        to: Date,
+        heartbeatTimeoutMs: number
+    ): Promise<ReconciliationResult> {
+        const result: ReconciliationResult = { updated: [], created: [], cleared: [] };
+        const events = await downtimeService.getDowntimeEventsInRange(from, to, deviceId);
+
+        for (const event of events) {
+            // Reported downtimes happen while heartbeats keep arriving, gaps do not apply
+            if (event.source !== 'heartbeat_silence') {
+                continue;
+            }
+
+            for (const change of await this.reconcileDowntimeEvent(event, heartbeatTimeoutMs)) {
+                result[change.action].push(change.id as number);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Scan the heartbeat history of a device for gaps and record the missing downtimes
+     *
+     * Heartbeat silence events overlapping the period are first realigned with the stored
+     * heartbeats, then an ended event is created for every gap that no downtime event covers,
+     * for instance while the watcher itself was offline. Gaps still open at the end of the
+     * period are left to the downtime monitor.
+     * @param deviceId The device ID
+     * @param from Period start
+     * @param to Period end
+     * @param heartbeatTimeoutMs Heartbeat timeout of the device in milliseconds
+     * @param dryRun Report the changes without writing them
+     * @returns The changes, in chronological order of the gaps
+     */
+    async reconcileHeartbeatGaps(
+        deviceId: number,
+        from: Date,
+        to: Date,
+        heartbeatTimeoutMs: number,
+        dryRun = false
+    ): Promise<DowntimeChange[]> {
+        const [previousHeartbeat, heartbeats, nextHeartbeat, events] = await Promise.all([
+            heartbeatService.getHeartbeatBefore(from, deviceId),
+            heartbeatService.getHeartbeatsInRange(from, to, deviceId),
+            heartbeatService.getHeartbeatAfter(to, deviceId),
+            downtimeService.getDowntimeEventsInRange(from, to, deviceId),
+        ]);
+
+        const timestamps = [previousHeartbeat, ...heartbeats, nextHeartbeat]
+            .filter((heartbeat) => heartbeat !== null)
+            .map((heartbeat) => new Date(heartbeat.timestamp));
+        const gaps = findHeartbeatGaps(timestamps, heartbeatTimeoutMs).filter(
+            (gap) => gap.end !== null && gap.end > from && gap.start < to
+        );
+
+        // Reported downtimes happen while heartbeats keep arriving, gaps do not apply
+        const silenceEvents = events
+            .filter((event) => event.source === 'heartbeat_silence')
+            .reverse();
+        const changes: DowntimeChange[] = [];
+
+        for (const event of silenceEvents) {
+            changes.push(...(await this.reconcileDowntimeEvent(event, heartbeatTimeoutMs, dryRun)));
+        }
+
+        for (const gap of gaps) {
+            const gapEnd = gap.end as Date;
+            // A reported downtime already accounts for the silence that may follow it
+            const covered = events.some(
+                (event) =>
+                    !event.cleared &&
+                    new Date(event.started_at) < gapEnd &&
+                    (!event.ended_at || new Date(event.ended_at) > gap.start)
+            );
+
+            if (covered) {
+                continue;
+            }
+
+            const planned =
+                (await maintenanceService.getActiveMaintenanceWindow(deviceId, gap.start)) !== null;
+            const unobserved = await watcherService.isUnobserved(gap.start, gapEnd);
+            const id = dryRun
+                ? null
+                : await downtimeService.createEndedDowntimeEvent(
+                      deviceId,
+                      gap.start,
+                      gapEnd,
+                      RECONCILED_DOWNTIME_NOTE,
+                      planned,
+                      unobserved
+                  );
+
+            changes.push({
+                action: 'created',
+                id,
+                device_id: deviceId,
+                started_at: gap.start,
+                ended_at: gapEnd,
+            });
+        }
+
+        return changes;
+    }
+
+    /**
+     * Reconcile a single downtime event with the heartbeats stored around it
+     *
+     * The event is moved onto the real gap in the heartbeat history. When several gaps are
+     * found, the event keeps the first one (or the open one if it is still active) and an
+     * ended event is created for each other gap. An event without any gap is cleared.
+     * @returns The changes made, or that would be made in a dry run
+     */
+    private async reconcileDowntimeEvent(
+        event: DowntimeEvent,
+        heartbeatTimeoutMs: number,
+        dryRun = false
+    ): Promise<DowntimeChange[]> {
+        const changes: DowntimeChange[] = [];
+
+        // Already cleared by a previous reconciliation
+        if (event.cleared) {
+            return changes;
+        }
+
+        const startedAt = new Date(event.started_at);
+        const endedAt = event.ended_at ? new Date(event.ended_at) : null;
+
+        // The recovery heartbeat can be timestamped slightly after the recorded end
+        const observedUntil = endedAt
+            ? new Date(endedAt.getTime() + heartbeatTimeoutMs)
+            : new Date();
+
+        const [previousHeartbeat, heartbeats] = await Promise.all([
+            heartbeatService.getHeartbeatBefore(startedAt, event.device_id),
+            heartbeatService.getHeartbeatsInRange(startedAt, observedUntil, event.device_id),
+        ]);
+
+        const timestamps = heartbeats.map((heartbeat) => new Date(heartbeat.timestamp));
+        if (previousHeartbeat) {
+            timestamps.unshift(new Date(previousHeartbeat.timestamp));
+        }
+
+        const gaps = findHeartbeatGaps(
+            timestamps,
+            heartbeatTimeoutMs,
+            endedAt ? undefined : observedUntil
+        ).filter((gap) => !gap.end || !endedAt || gap.start < endedAt);
+
+        if (gaps.length === 0) {
+            if (!dryRun) {
+                await downtimeService.clearDowntimeEvent(event.id, CLEARED_DOWNTIME_NOTE);
+            }
+            changes.push({
+                action: 'cleared',
+                id: event.id,
+                device_id: event.device_id,
+                started_at: startedAt,
+                ended_at: startedAt,
+            });
+            return changes;
+        }
+
+        // An active event must stay attached to the ongoing gap
+        const eventGap = endedAt ? gaps[0] : gaps[gaps.length - 1];
+
+        if (
+            eventGap.start.getTime() !== startedAt.getTime() ||
+            (eventGap.end?.getTime() ?? null) !== (endedAt?.getTime() ?? null)
+        ) {
+            if (!dryRun) {
+                await downtimeService.updateDowntimeBoundaries(
+                    event.id,
+                    eventGap.start,
+                    eventGap.end
+                );
+            }
+            changes.push({
+                action: 'updated',
+                id: event.id,
+                device_id: event.device_id,
+                started_at: eventGap.start,
+                ended_at: eventGap.end,
+            });
+        }
+
+        for (const gap of gaps) {
+            if (gap === eventGap || !gap.end) {
+                continue;
+            }
+
+            const id = dryRun
+                ? null
+                : await downtimeService.createEndedDowntimeEvent(
+                      event.device_id,
+                      gap.start,
+                      gap.end,
+                      RECONCILED_DOWNTIME_NOTE
+                  );
+            changes.push({
+                action: 'created',
+                id,
+                device_id: event.device_id,
+                started_at: gap.start,
+                ended_at: gap.end,
+            });
+        }
+
+        return changes;
+    }
+}
+
+export default new ReconciliationService();
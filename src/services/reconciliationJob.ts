@@ -0,0 +1,155 @@
+import cron from 'node-cron';
+import type { FastifyBaseLogger } from 'fastify';
+import deviceService, { type Device } from './device.js';
+import reconciliationService, { type DowntimeChange } from './reconciliation.js';
+
+const DEFAULT_RECONCILIATION_SCHEDULE = '15 * * * *'; // Every hour at minute 15
+
+/**
+ * Changes made to the downtime events of a device by a reconciliation run
+ */
+export interface DeviceReconciliationReport {
+    device: string;
+    changes: DowntimeChange[];
+}
+
+/**
+ * Options of a reconciliation run
+ */
+export interface ReconciliationRunOptions {
+    /** Period start (default: RECONCILIATION_LOOKBACK before the end) */
+    from?: Date;
+    /** Period end (default: now) */
+    to?: Date;
+    /** Report the changes without writing them */
+    dryRun?: boolean;
+    /** Restrict the run to a single device */
+    deviceName?: string;
+}
+
+/**
+ * ReconciliationJob periodically scans the heartbeat history for gaps and records the
+ * downtimes the monitor missed, for instance while the watcher itself was offline
+ */
+export class ReconciliationJob {
+    private cronJob: cron.ScheduledTask | null = null;
+    private readonly schedule: string;
+    private readonly lookbackMs: number;
+    private readonly heartbeatTimeoutMs: number;
+    private logger: FastifyBaseLogger;
+
+    constructor(logger: FastifyBaseLogger) {
+        this.logger = logger.child({ service: 'ReconciliationJob' });
+
+        // Parse configuration from environment variables
+        this.schedule = process.env.RECONCILIATION_SCHEDULE || DEFAULT_RECONCILIATION_SCHEDULE;
+        this.lookbackMs = Number.parseInt(process.env.RECONCILIATION_LOOKBACK ?? '86400000', 10);
+        this.heartbeatTimeoutMs = Number.parseInt(process.env.HEARTBEAT_TIMEOUT ?? '300000', 10);
+
+        if (
+            Number.isNaN(this.lookbackMs) ||
+            Number.isNaN(this.heartbeatTimeoutMs) ||
+            !cron.validate(this.schedule)
+        ) {
+            throw new Error(
+                'Invalid reconciliation configuration: RECONCILIATION_SCHEDULE, RECONCILIATION_LOOKBACK or HEARTBEAT_TIMEOUT is not valid.'
+            );
+        }
+    }
+
+    /**
+     * Start the scheduled reconciliation
+     */
+    start(): void {
+        if (this.lookbackMs <= 0) {
+            this.logger.info('Reconciliation lookback disabled, job will not start');
+            return;
+        }
+
+        if (this.cronJob) {
+            this.logger.warn('ReconciliationJob is already running');
+            return;
+        }
+
+        this.cronJob = cron.schedule(this.schedule, async () => {
+            try {
+                await this.run();
+            } catch (error) {
+                // Do not re-throw to prevent crashing the scheduled task, allowing future runs
+                this.logger.error({ error }, 'Error in reconciliation run');
+            }
+        });
+
+        this.logger.info(
+            { schedule: this.schedule, lookbackHours: this.lookbackMs / 3600000 },
+            'Starting reconciliation job'
+        );
+    }
+
+    /**
+     * Stop the scheduled reconciliation
+     */
+    stop(): void {
+        if (this.cronJob) {
+            this.cronJob.stop();
+            this.cronJob = null;
+            this.logger.info('Stopped reconciliation job');
+        }
+    }
+
+    /**
+     * Reconcile the downtime events of every device with its heartbeat history
+     * @param options The period, dry run and device options
+     * @returns The changes of each device
+     * @throws Error if the device does not exist
+     */
+    async run(options: ReconciliationRunOptions = {}): Promise<DeviceReconciliationReport[]> {
+        const to = options.to ?? new Date();
+        const from = options.from ?? new Date(to.getTime() - this.lookbackMs);
+        const dryRun = options.dryRun ?? false;
+
+        let devices: Device[];
+        if (options.deviceName) {
+            const device = await deviceService.getDeviceByName(options.deviceName);
+            if (!device) {
+                throw new Error(`Unknown device: ${options.deviceName}`);
+            }
+            devices = [device];
+        } else {
+            devices = await deviceService.getDevices();
+        }
+
+        const reports: DeviceReconciliationReport[] = [];
+
+        for (const device of devices) {
+            const changes = await reconciliationService.reconcileHeartbeatGaps(
+                device.id,
+                from,
+                to,
+                device.heartbeat_timeout ?? this.heartbeatTimeoutMs,
+                dryRun
+            );
+
+            for (const change of changes) {
+                this.logger.info(
+                    { device: device.name, dryRun, ...change },
+                    dryRun ? 'Downtime event would be reconciled' : 'Reconciled downtime event'
+                );
+            }
+
+            reports.push({ device: device.name, changes });
+        }
+
+        this.logger.info(
+            {
+                from: from.toISOString(),
+                to: to.toISOString(),
+                dryRun,
+                changes: reports.reduce((total, report) => total + report.changes.length, 0),
+            },
+            'Reconciliation run completed'
+        );
+
+        return reports;
+    }
+}
@@ -0,0 +1,451 @@
+import downtimeService, { getClippedDuration, type DowntimeEvent } from './downtime.js';
+import backupService, { type BackupEvent } from './backup.js';
+import heartbeatService from './heartbeat.js';
+import maintenanceService from './maintenance.js';
+import type { Device } from './device.js';
+
+export type StatsGranularity = 'day' | 'week' | 'month';
+
+export interface StatsPeriod {
+    from: Date;
+    to: Date;
+}
+
+export interface UptimeStats extends StatsPeriod {
+    /** Percentage of the period without downtime (null for an empty period) */
+    availability: number | null;
+    downtime_count: number;
+    /** Total downtime in seconds */
+    total_downtime: number;
+    /** Mean time to recovery in seconds */
+    mttr: number | null;
+    /** Mean time between failures in seconds */
+    mtbf: number | null;
+    /** Longest outage in seconds */
+    longest_outage: number;
+}
+
+export interface UptimeReport {
+    granularity: StatsGranularity | null;
+    summary: UptimeStats;
+    periods: UptimeStats[];
+}
+
+export interface BackupUsage extends StatsPeriod {
+    backup_count: number;
+    /** Total time spent on the backup link in seconds */
+    total_duration: number;
+    /** Bytes transferred over the backup link, by backup events that ended */
+    bytes_down: number;
+    bytes_up: number;
+}
+
+export interface BackupReport {
+    summary: BackupUsage;
+    months: BackupUsage[];
+}
+
+export interface HeartbeatStats extends StatsPeriod {
+    /** Heartbeats the agent should have sent at the expected interval */
+    expected: number;
+    received: number;
+    missed: number;
+    /** Percentage of the expected heartbeats that were missed (null when none were expected) */
+    loss: number | null;
+    /** Mean interval between consecutive heartbeats in milliseconds */
+    mean_interval: number | null;
+    /** Mean, 95th percentile and maximum deviation from the expected interval in milliseconds */
+    jitter_mean: number | null;
+    jitter_p95: number | null;
+    jitter_max: number | null;
+}
+
+export interface HeartbeatReport {
+    /** Interval learned from the heartbeats of the window in milliseconds */
+    expected_interval: number | null;
+    granularity: StatsGranularity | null;
+    summary: HeartbeatStats;
+    periods: HeartbeatStats[];
+}
+
+/**
+ * Round a number to a fixed number of decimals
+ */
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Get the start of the calendar period (UTC) containing a date
+ */
+function startOfPeriod(date: Date, granularity: StatsGranularity): Date {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+    if (granularity === 'week') {
+        // ISO weeks start on Monday
+        const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+        start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+    } else if (granularity === 'month') {
+        start.setUTCDate(1);
+    }
+
+    return start;
+}
+
+/**
+ * Get the start of the calendar period (UTC) following the one starting at a date
+ */
+function nextPeriodStart(start: Date, granularity: StatsGranularity): Date {
+    const next = new Date(start);
+
+    if (granularity === 'day') {
+        next.setUTCDate(next.getUTCDate() + 1);
+    } else if (granularity === 'week') {
+        next.setUTCDate(next.getUTCDate() + 7);
+    } else {
+        next.setUTCMonth(next.getUTCMonth() + 1);
+    }
+
+    return next;
+}
+
+/**
+ * Split a window into calendar periods (UTC), clipped to the window bounds
+ * @param from Window start
+ * @param to Window end
+ * @param granularity Period size
+ * @returns The consecutive periods covering the window
+ */
+export function splitPeriods(from: Date, to: Date, granularity: StatsGranularity): StatsPeriod[] {
+    const periods: StatsPeriod[] = [];
+    let periodStart = startOfPeriod(from, granularity);
+
+    while (periodStart < to) {
+        const periodEnd = nextPeriodStart(periodStart, granularity);
+        periods.push({
+            from: periodStart < from ? from : periodStart,
+            to: periodEnd > to ? to : periodEnd,
+        });
+        periodStart = periodEnd;
+    }
+
+    return periods;
+}
+
+/**
+ * Compute uptime statistics for a window from the downtime events overlapping it
+ * Event durations are clipped to the window and active events count up to now.
+ * @param events Downtime events overlapping the window
+ * @param period The window to compute statistics for
+ * @param now Current time
+ * @returns The uptime statistics of the window
+ */
+export function computeUptimeStats(
+    events: Pick<DowntimeEvent, 'started_at' | 'ended_at'>[],
+    period: StatsPeriod,
+    now: Date = new Date()
+): UptimeStats {
+    const periodSeconds = Math.max(
+        0,
+        Math.floor((period.to.getTime() - period.from.getTime()) / 1000)
+    );
+    const durations = events
+        .map((event) => getClippedDuration(event, period.from, period.to, now))
+        .filter((duration) => duration > 0);
+
+    const downtimeCount = durations.length;
+    const totalDowntime = Math.min(
+        periodSeconds,
+        durations.reduce((total, duration) => total + duration, 0)
+    );
+    const uptime = periodSeconds - totalDowntime;
+
+    return {
+        from: period.from,
+        to: period.to,
+        availability: periodSeconds > 0 ? round((uptime / periodSeconds) * 100, 3) : null,
+        downtime_count: downtimeCount,
+        total_downtime: totalDowntime,
+        mttr: downtimeCount > 0 ? Math.round(totalDowntime / downtimeCount) : null,
+        mtbf: downtimeCount > 0 ? Math.round(uptime / downtimeCount) : null,
+        longest_outage: durations.reduce((longest, duration) => Math.max(longest, duration), 0),
+    };
+}
+
+/**
+ * Compute the time and bytes spent on the backup link during a window
+ * Durations are clipped to the window and active events count up to now. The bytes of an
+ * event spanning several windows are split in proportion to the time spent in each.
+ * @param events Backup events overlapping the window
+ * @param period The window to compute the usage for
+ * @param now Current time
+ * @returns The backup usage of the window
+ */
+export function computeBackupUsage(
+    events: Pick<BackupEvent, 'started_at' | 'ended_at' | 'bytes_down' | 'bytes_up'>[],
+    period: StatsPeriod,
+    now: Date = new Date()
+): BackupUsage {
+    const usage: BackupUsage = {
+        from: period.from,
+        to: period.to,
+        backup_count: 0,
+        total_duration: 0,
+        bytes_down: 0,
+        bytes_up: 0,
+    };
+
+    for (const event of events) {
+        const duration = getClippedDuration(event, period.from, period.to, now);
+        if (duration <= 0) {
+            continue;
+        }
+
+        usage.backup_count++;
+        usage.total_duration += duration;
+
+        if (event.ended_at) {
+            const fullDuration = getClippedDuration(
+                event,
+                new Date(event.started_at),
+                new Date(event.ended_at),
+                now
+            );
+            const share = fullDuration > 0 ? duration / fullDuration : 1;
+            usage.bytes_down += Math.round(Number(event.bytes_down ?? 0) * share);
+            usage.bytes_up += Math.round(Number(event.bytes_up ?? 0) * share);
+        }
+    }
+
+    return usage;
+}
+
+/**
+ * Learn the interval at which an agent sends its heartbeats
+ * The median interval between consecutive arrivals ignores both outages and bursts of
+ * replayed heartbeats.
+ * @param arrivals Arrival times, in chronological order
+ * @returns The expected interval in milliseconds, or null with fewer than two heartbeats
+ */
+export function estimateHeartbeatInterval(arrivals: Date[]): number | null {
+    const intervals = arrivals
+        .slice(1)
+        .map((arrival, index) => arrival.getTime() - arrivals[index].getTime())
+        .filter((interval) => interval > 0)
+        .sort((a, b) => a - b);
+
+    if (intervals.length === 0) {
+        return null;
+    }
+
+    const middle = Math.floor(intervals.length / 2);
+    return intervals.length % 2 === 1
+        ? intervals[middle]
+        : Math.round((intervals[middle - 1] + intervals[middle]) / 2);
+}
+
+/**
+ * Compute heartbeat counts and jitter for a window
+ * Missed heartbeats are the ones expected at the interval but never received. Jitter is
+ * measured on consecutive heartbeats with no missed one between them, i.e. less than one and a
+ * half intervals apart.
+ * @param arrivals Arrival times, in chronological order
+ * @param period The window to compute statistics for
+ * @param expectedIntervalMs The expected interval in milliseconds, null if unknown
+ * @returns The heartbeat statistics of the window
+ */
+export function computeHeartbeatStats(
+    arrivals: Date[],
+    period: StatsPeriod,
+    expectedIntervalMs: number | null
+): HeartbeatStats {
+    const inPeriod = arrivals.filter((arrival) => arrival >= period.from && arrival < period.to);
+    const intervals = inPeriod
+        .slice(1)
+        .map((arrival, index) => arrival.getTime() - inPeriod[index].getTime());
+
+    const received = inPeriod.length;
+    const periodMs = Math.max(0, period.to.getTime() - period.from.getTime());
+    const expected =
+        expectedIntervalMs && expectedIntervalMs > 0
+            ? Math.round(periodMs / expectedIntervalMs)
+            : 0;
+    const missed = Math.max(0, expected - received);
+
+    const deviations = expectedIntervalMs
+        ? intervals
+              .filter((interval) => interval < expectedIntervalMs * 1.5)
+              .map((interval) => Math.abs(interval - expectedIntervalMs))
+              .sort((a, b) => a - b)
+        : [];
+
+    return {
+        from: period.from,
+        to: period.to,
+        expected,
+        received,
+        missed,
+        loss: expected > 0 ? round((missed / expected) * 100, 3) : null,
+        mean_interval:
+            intervals.length > 0
+                ? Math.round(
+                      intervals.reduce((total, value) => total + value, 0) / intervals.length
+                  )
+                : null,
+        jitter_mean:
+            deviations.length > 0
+                ? Math.round(
+                      deviations.reduce((total, value) => total + value, 0) / deviations.length
+                  )
+                : null,
+        jitter_p95:
+            deviations.length > 0
+                ? deviations[
+                      Math.min(deviations.length - 1, Math.ceil(deviations.length * 0.95) - 1)
+                  ]
+                : null,
+        jitter_max: deviations.length > 0 ? deviations[deviations.length - 1] : null,
+    };
+}
+
+/**
+ * StatsService computes availability statistics from downtime events
+ */
+export class StatsService {
+    /**
+     * Build an uptime report for a window, optionally broken down by calendar period
+     * The window end is capped to now since the future cannot be measured.
+     * @param from Window start
+     * @param to Window end
+     * @param granularity Optional period size for the breakdown
+     * @param deviceId Optional device ID to restrict the report to
+     * @param includeUnobserved Count the downtimes overlapping an outage of the watcher itself
+     * @returns The uptime report
+     */
+    async getUptimeReport(
+        from: Date,
+        to: Date,
+        granularity: StatsGranularity | null = null,
+        deviceId?: number,
+        includeUnobserved = false
+    ): Promise<UptimeReport> {
+        const now = new Date();
+        const windowEnd = to > now ? now : to;
+        // Maintenance windows and cleared false positives do not count against the SLA, nor by
+        // default do downtimes the watcher could not observe
+        const events = await this.excludeMaintenance(
+            (await downtimeService.getDowntimeEventsInRange(from, windowEnd, deviceId)).filter(
+                (event) => !event.cleared && (includeUnobserved || !event.unobserved)
+            ),
+            now
+        );
+
+        const summary = computeUptimeStats(events, { from, to: windowEnd }, now);
+        const periods = granularity
+            ? splitPeriods(from, windowEnd, granularity).map((period) =>
+                  computeUptimeStats(events, period, now)
+              )
+            : [];
+
+        return { granularity, summary, periods };
+    }
+
+    /**
+     * Trim planned downtimes to the part that outlasted their maintenance
+     * Planned downtimes started during a maintenance window and only count from the moment the
+     * device left maintenance. Other downtimes are returned unchanged.
+     * @param events Downtime events
+     * @param now Current time, used as the end of active events
+     * @returns The events to count, planned ones starting when their maintenance ended
+     */
+    async excludeMaintenance<
+        T extends Pick<DowntimeEvent, 'device_id' | 'started_at' | 'ended_at' | 'planned'>,
+    >(events: T[], now: Date = new Date()): Promise<T[]> {
+        const counted: T[] = [];
+
+        for (const event of events) {
+            if (!event.planned) {
+                counted.push(event);
+                continue;
+            }
+
+            const endedAt = event.ended_at ? new Date(event.ended_at) : now;
+            const maintenanceEnd = await maintenanceService.getMaintenanceEnd(
+                event.device_id,
+                new Date(event.started_at),
+                endedAt
+            );
+
+            if (maintenanceEnd && maintenanceEnd < endedAt) {
+                counted.push({ ...event, started_at: maintenanceEnd });
+            }
+        }
+
+        return counted;
+    }
+
+    /**
+     * Build a report of the expected, received and missed heartbeats of a device and their jitter
+     * The interval is learned from the heartbeats of the whole window. The window starts no
+     * earlier than the creation of the device and ends no later than now.
+     * @param device The device
+     * @param from Window start
+     * @param to Window end
+     * @param granularity Optional period size for the breakdown
+     * @returns The heartbeat report
+     */
+    async getHeartbeatReport(
+        device: Pick<Device, 'id' | 'created_at'>,
+        from: Date,
+        to: Date,
+        granularity: StatsGranularity | null = null
+    ): Promise<HeartbeatReport> {
+        const now = new Date();
+        const createdAt = new Date(device.created_at);
+        const windowStart = from < createdAt ? createdAt : from;
+        const windowEnd = to > now ? now : to;
+        const arrivals =
+            windowStart < windowEnd
+                ? await heartbeatService.getArrivalTimes(windowStart, windowEnd, device.id)
+                : [];
+        const expectedInterval = estimateHeartbeatInterval(arrivals);
+
+        const summary = computeHeartbeatStats(
+            arrivals,
+            { from: windowStart, to: windowEnd },
+            expectedInterval
+        );
+        const periods =
+            granularity && windowStart < windowEnd
+                ? splitPeriods(windowStart, windowEnd, granularity).map((period) =>
+                      computeHeartbeatStats(arrivals, period, expectedInterval)
+                  )
+                : [];
+
+        return { expected_interval: expectedInterval, granularity, summary, periods };
+    }
+
+    /**
+     * Build a report of the time and bytes spent on the backup link, by calendar month
+     * The window end is capped to now since the future cannot be measured.
+     * @param from Window start
+     * @param to Window end
+     * @param deviceId Optional device ID to restrict the report to
+     * @returns The backup report
+     */
+    async getBackupReport(from: Date, to: Date, deviceId?: number): Promise<BackupReport> {
+        const now = new Date();
+        const windowEnd = to > now ? now : to;
+        const events = await backupService.getBackupEventsInRange(from, windowEnd, deviceId);
+
+        return {
+            summary: computeBackupUsage(events, { from, to: windowEnd }, now),
+            months: splitPeriods(from, windowEnd, 'month').map((period) =>
+                computeBackupUsage(events, period, now)
+            ),
+        };
+    }
+}
+
+export default new StatsService();
@@ -0,0 +1,177 @@
+import { db } from '../db/config.js';
+import downtimeService from './downtime.js';
+import type { WatcherPeriodsTable, WatcherPeriodsUpdate } from '../types/database.js';
+
+/**
+ * How a run of the watcher ended
+ * - graceful: the process was stopped by a signal
+ * - crash: the process disappeared, inferred on the next start from its last sign of life
+ */
+export const WATCHER_STOP_REASONS = ['graceful', 'crash'] as const;
+
+export type WatcherStopReason = (typeof WATCHER_STOP_REASONS)[number];
+
+/**
+ * A run of the watcher, from its start to its stop
+ */
+export interface WatcherPeriod {
+    id: number;
+    started_at: Date;
+    /** Last time the watcher was alive */
+    last_seen_at: Date;
+    /** Null while the watcher is running (or until its crash is inferred) */
+    stopped_at: Date | null;
+    stop_reason: WatcherStopReason | null;
+}
+
+/**
+ * A period during which the watcher was not running
+ */
+export interface WatcherOfflinePeriod {
+    from: Date;
+    /** Null if the watcher has not been started again */
+    to: Date | null;
+}
+
+/**
+ * Get the periods between the runs of the watcher
+ * @param periods The runs of the watcher, in chronological order
+ * @returns The offline periods, in chronological order
+ */
+export function getWatcherOfflinePeriods(periods: WatcherPeriod[]): WatcherOfflinePeriod[] {
+    const offlinePeriods: WatcherOfflinePeriod[] = [];
+
+    for (let index = 1; index < periods.length; index++) {
+        const previous = periods[index - 1];
+        offlinePeriods.push({
+            from: new Date(previous.stopped_at ?? previous.last_seen_at),
+            to: new Date(periods[index].started_at),
+        });
+    }
+
+    const last = periods[periods.length - 1];
+    if (last?.stopped_at) {
+        offlinePeriods.push({ from: new Date(last.stopped_at), to: null });
+    }
+
+    return offlinePeriods;
+}
+
+/**
+ * WatcherService records the lifecycle of the watcher itself, so that downtimes overlapping
+ * its own outages can be told apart from the ones it observed
+ */
+export class WatcherService {
+    private currentPeriodId: number | null = null;
+
+    /**
+     * Record the start of the watcher
+     * A previous run that never recorded its stop crashed, and is closed at its last sign of
+     * life. Downtime events overlapping the offline period since then are flagged unobserved.
+     * @param startedAt When the watcher started
+     * @returns The offline period that just ended, or null on the first start
+     */
+    async recordStart(startedAt: Date = new Date()): Promise<WatcherOfflinePeriod | null> {
+        const crashedPeriods =
+            await db<WatcherPeriodsTable>('watcher_periods').whereNull('stopped_at');
+
+        for (const period of crashedPeriods) {
+            const updateData: WatcherPeriodsUpdate = {
+                stopped_at: period.last_seen_at,
+                stop_reason: 'crash',
+            };
+
+            await db<WatcherPeriodsTable>('watcher_periods')
+                .where('id', period.id)
+                .update(updateData);
+        }
+
+        const previous = await db<WatcherPeriodsTable>('watcher_periods')
+            .orderBy('started_at', 'desc')
+            .first();
+
+        const [id] = await db<WatcherPeriodsTable>('watcher_periods').insert({
+            started_at: startedAt,
+            last_seen_at: startedAt,
+        });
+        this.currentPeriodId = id as number;
+
+        if (!previous) {
+            return null;
+        }
+
+        const offlinePeriod = {
+            from: new Date(previous.stopped_at ?? previous.last_seen_at),
+            to: startedAt,
+        };
+        await downtimeService.markUnobservedDowntimes(offlinePeriod.from, offlinePeriod.to);
+
+        return offlinePeriod;
+    }
+
+    /**
+     * Record that the running watcher is still alive
+     * @param seenAt When the watcher was alive
+     */
+    async recordSeen(seenAt: Date = new Date()): Promise<void> {
+        if (this.currentPeriodId === null) {
+            return;
+        }
+
+        await db<WatcherPeriodsTable>('watcher_periods')
+            .where('id', this.currentPeriodId)
+            .update({ last_seen_at: seenAt });
+    }
+
+    /**
+     * Record the graceful stop of the watcher
+     * @param stoppedAt When the watcher stopped
+     */
+    async recordStop(stoppedAt: Date = new Date()): Promise<void> {
+        if (this.currentPeriodId === null) {
+            return;
+        }
+
+        const updateData: WatcherPeriodsUpdate = {
+            last_seen_at: stoppedAt,
+            stopped_at: stoppedAt,
+            stop_reason: 'graceful',
+        };
+
+        await db<WatcherPeriodsTable>('watcher_periods')
+            .where('id', this.currentPeriodId)
+            .update(updateData);
+        this.currentPeriodId = null;
+    }
+
+    /**
+     * Get the periods during which the watcher was offline overlapping a date range
+     * @param startDate Start date
+     * @param endDate End date
+     * @returns The offline periods, in chronological order
+     */
+    async getOfflinePeriods(startDate: Date, endDate: Date): Promise<WatcherOfflinePeriod[]> {
+        const periods = await db<WatcherPeriodsTable>('watcher_periods').orderBy(
+            'started_at',
+            'asc'
+        );
+
+        return getWatcherOfflinePeriods(periods).filter(
+            (period) => period.from < endDate && (period.to === null || period.to > startDate)
+        );
+    }
+
+    /**
+     * Check whether a downtime overlaps a period during which the watcher was offline
+     * @param startedAt Downtime start
+     * @param endedAt Downtime end, or null if it is still ongoing
+     * @returns true if the downtime was not fully observed
+     */
+    async isUnobserved(startedAt: Date, endedAt: Date | null): Promise<boolean> {
+        const offlinePeriods = await this.getOfflinePeriods(startedAt, endedAt ?? new Date());
+
+        return offlinePeriods.length > 0;
+    }
+}
+
+export default new WatcherService();
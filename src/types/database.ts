@@ -1,8 +1,77 @@
+import type { DowntimeSource } from '../services/downtime.js';
+import type { DowntimeCause } from '../services/downtimeCause.js';
+import type { WatcherStopReason } from '../services/watcher.js';
+import type { IncidentType } from '../services/incident.js';
+import type { IpFamily } from '../services/ipChange.js';
+
+/**
+ * Devices table schema
+ */
+export interface DevicesTable {
+    id: number;
+    name: string;
+    label: string | null;
+    heartbeat_timeout: number | null;
+    created_at: Date;
+}
+
+/**
+ * Insert type for devices (omit auto-generated fields)
+ */
+export interface DevicesInsert {
+    name: string;
+    label?: string | null;
+    heartbeat_timeout?: number | null;
+}
+
+/**
+ * Update type for devices
+ */
+export type DevicesUpdate = Partial<Omit<DevicesTable, 'id'>>;
+
+/**
+ * API keys table schema
+ */
+export interface ApiKeysTable {
+    id: number;
+    key_id: string;
+    device_id: number;
+    secret: string | null;
+    algorithm: string;
+    public_key: string | null;
+    not_before: Date | null;
+    expires_at: Date | null;
+    deprecated: boolean;
+    scopes: string;
+    created_at: Date;
+}
+
+/**
+ * Insert type for API keys (omit auto-generated fields)
+ */
+export interface ApiKeysInsert {
+    key_id: string;
+    device_id: number;
+    secret?: string | null;
+    algorithm?: string;
+    public_key?: string | null;
+    not_before?: Date | null;
+    expires_at?: Date | null;
+    deprecated?: boolean;
+    scopes?: string;
+}
+
+/**
+ * Update type for API keys
+ */
+export type ApiKeysUpdate = Partial<Omit<ApiKeysTable, 'id'>>;
+
 /**
  * Heartbeats table schema
  */
 export interface HeartbeatsTable {
     id: number;
+    device_id: number;
     status: string;
     timestamp: Date;
     received_at: Date;
@@ -16,6 +85,7 @@ export interface HeartbeatsTable {
     rate_up: number | null;
     bytes_down: number | null;
     bytes_up: number | null;
+    clock_drift: number | null;
     metadata: string | null;
 }
 
@@ -23,6 +93,7 @@ export interface HeartbeatsTable {
  * Insert type for heartbeats (omit auto-generated fields)
  */
 export interface HeartbeatsInsert {
+    device_id: number;
     status: string;
     timestamp: Date;
     ipv4?: string | null;
@@ -35,6 +106,7 @@ export interface HeartbeatsInsert {
     rate_up?: number | null;
     bytes_down?: number | null;
     bytes_up?: number | null;
+    clock_drift?: number | null;
     metadata?: string | null;
     received_at?: Date;
 }
@@ -49,25 +121,200 @@ export type HeartbeatsUpdate = Partial<Omit<HeartbeatsTable, 'id'>>;
  */
 export interface DowntimeEventsTable {
     id: number;
+    device_id: number;
     started_at: Date;
     ended_at: Date | null;
     duration: number | null;
     is_active: boolean;
     notes: string | null;
+    source: DowntimeSource;
+    cause: DowntimeCause | null;
+    incident_id: number | null;
+    planned: boolean;
+    unobserved: boolean;
+    cleared: boolean;
+    alert_sent_at: Date | null;
+    recovery_sent_at: Date | null;
+    escalation_count: number;
+    escalated_at: Date | null;
 }
 
 /**
  * Insert type for downtime events (omit auto-generated fields)
  */
 export interface DowntimeEventsInsert {
+    device_id: number;
     started_at: Date;
     ended_at?: Date | null;
     duration?: number | null;
     is_active?: boolean;
     notes?: string | null;
+    source?: DowntimeSource;
+    cause?: DowntimeCause | null;
+    incident_id?: number | null;
+    planned?: boolean;
+    unobserved?: boolean;
 }
 
 /**
  * Update type for downtime events
  */
 export type DowntimeEventsUpdate = Partial<Omit<DowntimeEventsTable, 'id'>>;
+
+/**
+ * Incidents table schema
+ */
+export interface IncidentsTable {
+    id: number;
+    device_id: number;
+    type: IncidentType;
+    started_at: Date;
+    ended_at: Date | null;
+    is_active: boolean;
+    details: string | null;
+}
+
+/**
+ * Insert type for incidents (omit auto-generated fields)
+ */
+export interface IncidentsInsert {
+    device_id: number;
+    type?: IncidentType;
+    started_at: Date;
+    ended_at?: Date | null;
+    is_active?: boolean;
+    details?: string | null;
+}
+
+/**
+ * Update type for incidents
+ */
+export type IncidentsUpdate = Partial<Omit<IncidentsTable, 'id'>>;
+
+/**
+ * Maintenance windows table schema
+ */
+export interface MaintenanceWindowsTable {
+    id: number;
+    device_id: number | null;
+    reason: string | null;
+    starts_at: Date | null;
+    ends_at: Date | null;
+    recurrence: string | null;
+    duration: number | null;
+    created_at: Date;
+}
+
+/**
+ * Insert type for maintenance windows (omit auto-generated fields)
+ */
+export interface MaintenanceWindowsInsert {
+    device_id?: number | null;
+    reason?: string | null;
+    starts_at?: Date | null;
+    ends_at?: Date | null;
+    recurrence?: string | null;
+    duration?: number | null;
+}
+
+/**
+ * Auth nonces table schema
+ */
+export interface AuthNoncesTable {
+    id: number;
+    device: string;
+    nonce: string;
+    timestamp: number;
+    expires_at: Date;
+}
+
+/**
+ * Insert type for auth nonces (omit auto-generated fields)
+ */
+export interface AuthNoncesInsert {
+    device: string;
+    nonce: string;
+    timestamp: number;
+    expires_at: Date;
+}
+
+/**
+ * Watcher periods table schema
+ */
+export interface WatcherPeriodsTable {
+    id: number;
+    started_at: Date;
+    last_seen_at: Date;
+    stopped_at: Date | null;
+    stop_reason: WatcherStopReason | null;
+}
+
+/**
+ * Insert type for watcher periods (omit auto-generated fields)
+ */
+export interface WatcherPeriodsInsert {
+    started_at: Date;
+    last_seen_at: Date;
+    stopped_at?: Date | null;
+    stop_reason?: WatcherStopReason | null;
+}
+
+/**
+ * Update type for watcher periods
+ */
+export type WatcherPeriodsUpdate = Partial<Omit<WatcherPeriodsTable, 'id'>>;
+
+/**
+ * IP changes table schema
+ */
+export interface IpChangesTable {
+    id: number;
+    device_id: number;
+    family: IpFamily;
+    previous_address: string | null;
+    address: string;
+    changed_at: Date;
+    created_at: Date;
+}
+
+/**
+ * Insert type for IP changes (omit auto-generated fields)
+ */
+export interface IpChangesInsert {
+    device_id: number;
+    family: IpFamily;
+    previous_address: string | null;
+    address: string;
+    changed_at: Date;
+}
+
+/**
+ * Backup events table schema
+ */
+export interface BackupEventsTable {
+    id: number;
+    device_id: number;
+    started_at: Date;
+    ended_at: Date | null;
+    duration: number | null;
+    is_active: boolean;
+    media: string | null;
+    bytes_down: number | null;
+    bytes_up: number | null;
+    created_at: Date;
+}
+
+/**
+ * Insert type for backup events (omit auto-generated fields)
+ */
+export interface BackupEventsInsert {
+    device_id: number;
+    started_at: Date;
+    is_active: boolean;
+    media?: string | null;
+}
+
+/**
+ * Update type for backup events
+ */
+export type BackupEventsUpdate = Partial<Omit<BackupEventsTable, 'id'>>;
@@ -1,16 +1,34 @@
 import 'fastify';
+import type { AuthScope } from '../constants/api.js';
 import { NotificationService } from '../services/notification.js';
 import { DowntimeMonitor } from '../services/downtimeMonitor.js';
+import { ClockDriftMonitor } from '../services/clockDrift.js';
+import { DegradationMonitor } from '../services/degradation.js';
+import { IpChangeMonitor } from '../services/ipChangeMonitor.js';
+import { BackupMonitor } from '../services/backupMonitor.js';
 import { DailyChartService } from '../services/dailyChart.js';
+import { ReconciliationJob } from '../services/reconciliationJob.js';
 
 declare module 'fastify' {
     interface FastifyInstance {
         notificationService: NotificationService;
         downtimeMonitor: DowntimeMonitor;
+        clockDriftMonitor: ClockDriftMonitor;
+        degradationMonitor: DegradationMonitor;
+        ipChangeMonitor: IpChangeMonitor;
+        backupMonitor: BackupMonitor;
         dailyChartService: DailyChartService;
+        reconciliationJob: ReconciliationJob;
     }
 
     interface FastifyRequest {
         rawBody?: string;
+        deviceName?: string;
+        authScopes?: AuthScope[];
+        /** Set by the auth middleware when the response can be signed */
+        responseSigning?: {
+            nonce: string;
+            sign: (message: string) => string;
+        };
     }
 }
@@ -0,0 +1,95 @@
+/**
+ * Default number of records returned by list endpoints
+ */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Maximum number of records a client may request in a single page
+ */
+export const MAX_PAGE_SIZE = 1000;
+
+/**
+ * Sort direction accepted by list endpoints
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Position of the last record of a page, used to fetch the next one
+ */
+export interface Cursor {
+    timestamp: Date;
+    id: number;
+}
+
+/**
+ * Encodes a cursor into an opaque base64url token
+ * @param cursor The cursor to encode
+ * @returns The encoded cursor
+ */
+export function encodeCursor(cursor: Cursor): string {
+    return Buffer.from(JSON.stringify({ t: cursor.timestamp.getTime(), id: cursor.id })).toString(
+        'base64url'
+    );
+}
+
+/**
+ * Decodes a cursor token produced by encodeCursor
+ * @param token The encoded cursor
+ * @returns The decoded cursor, or null if the token is malformed
+ */
+export function decodeCursor(token: string): Cursor | null {
+    try {
+        const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as {
+            t?: unknown;
+            id?: unknown;
+        };
+
+        if (!Number.isInteger(decoded.t) || !Number.isInteger(decoded.id)) {
+            return null;
+        }
+
+        return { timestamp: new Date(decoded.t as number), id: decoded.id as number };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parses an optional date query parameter
+ * @param value The raw query parameter value
+ * @returns undefined when absent, null when invalid, the parsed date otherwise
+ */
+export function parseDateParam(value: string | undefined): Date | null | undefined {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parses a comma-separated list query parameter against a set of allowed values
+ * @param value The raw query parameter value (e.g. "timestamp,status")
+ * @param allowed The allowed values
+ * @returns undefined when absent, null when a value is not allowed, the parsed list otherwise
+ */
+export function parseListParam<T extends string>(
+    value: string | undefined,
+    allowed: readonly T[]
+): T[] | null | undefined {
+    if (value === undefined || value.trim() === '') {
+        return undefined;
+    }
+
+    const items = value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+
+    if (items.some((item) => !allowed.includes(item as T))) {
+        return null;
+    }
+
+    return [...new Set(items)] as T[];
+}
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { generateKeyPairSync } from 'node:crypto';
+import {
+    generateApiSecret,
+    getApiKeyStatus,
+    parseEd25519PublicKey,
+} from '../src/services/apiKey.js';
+
+describe('getApiKeyStatus', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+    const key = { not_before: null, expires_at: null, deprecated: false };
+
+    it('should accept keys without validity bounds', () => {
+        assert.strictEqual(getApiKeyStatus(key, now), 'valid');
+    });
+
+    it('should report deprecated keys that are still valid', () => {
+        assert.strictEqual(getApiKeyStatus({ ...key, deprecated: true }, now), 'deprecated');
+    });
+
+    it('should reject keys outside their validity window', () => {
+        assert.strictEqual(
+            getApiKeyStatus({ ...key, not_before: new Date('2025-06-02T00:00:00Z') }, now),
+            'not_yet_valid'
+        );
+        assert.strictEqual(
+            getApiKeyStatus(
+                { ...key, deprecated: true, expires_at: new Date('2025-06-01T12:00:00Z') },
+                now
+            ),
+            'expired'
+        );
+    });
+});
+
+describe('generateApiSecret', () => {
+    it('should generate distinct secrets long enough for HMAC authentication', () => {
+        const secret = generateApiSecret();
+
+        assert.ok(secret.length >= 32);
+        assert.notStrictEqual(secret, generateApiSecret());
+    });
+});
+
+describe('parseEd25519PublicKey', () => {
+    it('should parse PEM encoded Ed25519 public keys', () => {
+        const { publicKey } = generateKeyPairSync('ed25519');
+        const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+        assert.strictEqual(parseEd25519PublicKey(pem)?.asymmetricKeyType, 'ed25519');
+    });
+
+    it('should reject invalid and non Ed25519 keys', () => {
+        const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+        const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+        assert.strictEqual(parseEd25519PublicKey('not a public key'), null);
+        assert.strictEqual(parseEd25519PublicKey(pem), null);
+    });
+});
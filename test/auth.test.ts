@@ -1,10 +1,20 @@
 import { describe, it, before, after } from 'node:test';
 import assert from 'node:assert';
 import Fastify, { type FastifyInstance } from 'fastify';
-import { authMiddleware } from '../src/middleware/auth.js';
+import { authMiddleware, createAuthMiddleware } from '../src/middleware/auth.js';
 import { registerRawBodyCapture } from '../src/middleware/rawBodyCapture.js';
-import { computeHmac, getCurrentTimestamp, generateNonce } from './helpers.js';
+import { generateKeyPairSync } from 'node:crypto';
+import {
+    buildAuthHeaders,
+    buildEd25519AuthHeaders,
+    computeHmac,
+    getCurrentTimestamp,
+    generateNonce,
+} from './helpers.js';
 import { API_PREFIX } from '../src/constants/api.js';
+import deviceService from '../src/services/device.js';
+import apiKeyService, { type ApiKey } from '../src/services/apiKey.js';
+import authLockoutService from '../src/services/authLockout.js';
 
 describe('HMAC Authentication Middleware', () => {
     let fastify: FastifyInstance;
@@ -14,6 +24,8 @@ describe('HMAC Authentication Middleware', () => {
     before(async () => {
         // Set up test environment
         process.env.API_SECRET = VALID_API_SECRET;
+        // Most tests fail on purpose, lockouts are covered by their own tests
+        process.env.AUTH_LOCKOUT_THRESHOLD = '0';
 
         fastify = Fastify({ logger: false });
 
@@ -29,11 +41,24 @@ describe('HMAC Authentication Middleware', () => {
             return { message: 'success' };
         });
 
+        fastify.get('/test-device', { preHandler: authMiddleware }, async (request) => {
+            return { device: request.deviceName };
+        });
+
+        fastify.get(
+            '/test-read',
+            { preHandler: createAuthMiddleware({ scope: 'read' }) },
+            async (request) => {
+                return { scopes: request.authScopes };
+            }
+        );
+
         await fastify.ready();
     });
 
     after(async () => {
         await fastify.close();
+        delete process.env.AUTH_LOCKOUT_THRESHOLD;
     });
 
     describe('HMAC Signature Validation', () => {
@@ -418,6 +443,63 @@ describe('HMAC Authentication Middleware', () => {
         });
     });
 
+    describe('Replay Protection', () => {
+        it('should reject a request replayed with the same nonce', async () => {
+            const headers = buildAuthHeaders('GET', '/test-protected', '', VALID_API_SECRET);
+
+            const first = await fastify.inject({ method: 'GET', url: '/test-protected', headers });
+            const replay = await fastify.inject({ method: 'GET', url: '/test-protected', headers });
+
+            assert.strictEqual(first.statusCode, 200);
+            assert.strictEqual(replay.statusCode, 401);
+            const body = JSON.parse(replay.body) as { message: string };
+            assert.strictEqual(body.message, GENERIC_ERROR_MESSAGE);
+        });
+
+        it('should not burn nonces of requests with an invalid signature', async () => {
+            const headers = buildAuthHeaders('GET', '/test-protected', '', VALID_API_SECRET);
+
+            const forged = await fastify.inject({
+                method: 'GET',
+                url: '/test-protected',
+                headers: { ...headers, authorization: 'Bearer forged-signature' },
+            });
+            const legitimate = await fastify.inject({
+                method: 'GET',
+                url: '/test-protected',
+                headers,
+            });
+
+            assert.strictEqual(forged.statusCode, 401);
+            assert.strictEqual(legitimate.statusCode, 200);
+        });
+
+        it('should reject nonces longer than 128 characters', async () => {
+            const timestamp = getCurrentTimestamp();
+            const nonce = 'n'.repeat(129);
+            const signature = computeHmac(
+                'GET',
+                '/test-protected',
+                timestamp,
+                nonce,
+                '',
+                VALID_API_SECRET
+            );
+
+            const response = await fastify.inject({
+                method: 'GET',
+                url: '/test-protected',
+                headers: {
+                    authorization: `Bearer ${signature}`,
+                    'signature-timestamp': timestamp,
+                    'signature-nonce': nonce,
+                },
+            });
+
+            assert.strictEqual(response.statusCode, 401);
+        });
+    });
+
     describe('Bearer Scheme Compatibility', () => {
         it('should accept Bearer scheme in lowercase', async () => {
             const timestamp = getCurrentTimestamp();
@@ -503,6 +585,344 @@ describe('HMAC Authentication Middleware', () => {
         });
     });
 
+    describe('Device and key authentication', () => {
+        const HOME_SECRET = 'home-device-secret-32-characters-long';
+        const NEXT_SECRET = 'home-next-secret-32-characters-long!';
+        const originalGetApiKeyByKeyId = apiKeyService.getApiKeyByKeyId;
+        const originalGetDeviceById = deviceService.getDeviceById;
+
+        const hour = 60 * 60 * 1000;
+        const agentKeys = generateKeyPairSync('ed25519');
+        const otherKeys = generateKeyPairSync('ed25519');
+        const keys: ApiKey[] = [
+            { key_id: 'home', secret: HOME_SECRET, deprecated: true },
+            { key_id: 'home-next', secret: NEXT_SECRET },
+            { key_id: 'home-old', expires_at: new Date(Date.now() - hour) },
+            { key_id: 'home-future', not_before: new Date(Date.now() + hour) },
+            { key_id: 'home-reader', scopes: ['read' as const] },
+            {
+                key_id: 'home-ed25519',
+                algorithm: 'ed25519' as const,
+                secret: null,
+                public_key: agentKeys.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+            },
+            {
+                key_id: 'home-broken',
+                algorithm: 'ed25519' as const,
+                secret: null,
+                public_key: 'not a public key',
+            },
+        ].map((key, index) => ({
+            id: index + 1,
+            device_id: 2,
+            algorithm: 'hmac-sha256' as const,
+            secret: HOME_SECRET,
+            public_key: null,
+            not_before: null,
+            expires_at: null,
+            deprecated: false,
+            scopes: ['ingest' as const],
+            created_at: new Date(),
+            ...key,
+        }));
+
+        before(() => {
+            apiKeyService.getApiKeyByKeyId = async (keyId: string) =>
+                keys.find((key) => key.key_id === keyId) ?? null;
+            deviceService.getDeviceById = async (id: number) =>
+                id === 2
+                    ? {
+                          id: 2,
+                          name: 'home',
+                          label: 'Home',
+                          heartbeat_timeout: null,
+                          created_at: new Date(),
+                      }
+                    : null;
+        });
+
+        after(() => {
+            apiKeyService.getApiKeyByKeyId = originalGetApiKeyByKeyId;
+            deviceService.getDeviceById = originalGetDeviceById;
+        });
+
+        async function requestDevice(
+            secret: string,
+            headers: Record<string, string>
+        ): Promise<{ statusCode: number; body: { device?: string } }> {
+            const response = await fastify.inject({
+                method: 'GET',
+                url: '/test-device',
+                headers: { ...buildAuthHeaders('GET', '/test-device', '', secret), ...headers },
+            });
+
+            return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+        }
+
+        it('should attribute requests without key headers to the default device', async () => {
+            const response = await requestDevice(VALID_API_SECRET, {});
+
+            assert.strictEqual(response.statusCode, 200);
+            assert.deepStrictEqual(response.body, { device: 'default' });
+        });
+
+        it('should let the default device keep using API_SECRET', async () => {
+            const response = await requestDevice(VALID_API_SECRET, {
+                'signature-device': 'default',
+            });
+
+            assert.strictEqual(response.statusCode, 200);
+            assert.deepStrictEqual(response.body, { device: 'default' });
+        });
+
+        it('should use the key named after the device when no key ID is sent', async () => {
+            const response = await requestDevice(HOME_SECRET, { 'signature-device': 'home' });
+
+            assert.strictEqual(response.statusCode, 200);
+            assert.deepStrictEqual(response.body, { device: 'home' });
+        });
+
+        it('should accept both keys of a device during a rotation', async () => {
+            const previous = await requestDevice(HOME_SECRET, { 'signature-key-id': 'home' });
+            const next = await requestDevice(NEXT_SECRET, {
+                'signature-key-id': 'home-next',
+                'signature-device': 'home',
+            });
+
+            assert.strictEqual(previous.statusCode, 200);
+            assert.strictEqual(next.statusCode, 200);
+            assert.deepStrictEqual(next.body, { device: 'home' });
+        });
+
+        it('should reject expired and not yet valid keys', async () => {
+            for (const keyId of ['home-old', 'home-future']) {
+                const response = await requestDevice(HOME_SECRET, { 'signature-key-id': keyId });
+
+                assert.strictEqual(response.statusCode, 401);
+            }
+        });
+
+        it('should reject keys signing for another device', async () => {
+            const response = await requestDevice(HOME_SECRET, {
+                'signature-key-id': 'home',
+                'signature-device': 'office',
+            });
+
+            assert.strictEqual(response.statusCode, 401);
+        });
+
+        it('should reject requests signed with another secret', async () => {
+            const response = await requestDevice(VALID_API_SECRET, {
+                'signature-key-id': 'home-next',
+            });
+
+            assert.strictEqual(response.statusCode, 401);
+        });
+
+        it('should reject unknown devices and keys', async () => {
+            for (const headers of [
+                { 'signature-device': 'garage' },
+                { 'signature-key-id': 'garage' },
+            ]) {
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: '/test-device',
+                    headers: {
+                        ...buildAuthHeaders('GET', '/test-device', '', VALID_API_SECRET),
+                        ...headers,
+                    },
+                });
+
+                assert.strictEqual(response.statusCode, 401);
+                const body = JSON.parse(response.body) as { message: string };
+                assert.strictEqual(body.message, GENERIC_ERROR_MESSAGE);
+            }
+        });
+
+        describe('Ed25519 keys', () => {
+            async function requestSigned(
+                privateKey: typeof agentKeys.privateKey,
+                keyId: string
+            ): Promise<{ statusCode: number; body: { device?: string } }> {
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: '/test-device',
+                    headers: {
+                        ...buildEd25519AuthHeaders('GET', '/test-device', '', privateKey),
+                        'signature-key-id': keyId,
+                    },
+                });
+
+                return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+            }
+
+            it('should accept requests signed with the private key of the agent', async () => {
+                const response = await requestSigned(agentKeys.privateKey, 'home-ed25519');
+
+                assert.strictEqual(response.statusCode, 200);
+                assert.deepStrictEqual(response.body, { device: 'home' });
+            });
+
+            it('should reject requests signed with another private key', async () => {
+                const response = await requestSigned(otherKeys.privateKey, 'home-ed25519');
+
+                assert.strictEqual(response.statusCode, 401);
+            });
+
+            it('should reject HMAC signatures for Ed25519 keys', async () => {
+                const response = await requestDevice(HOME_SECRET, {
+                    'signature-key-id': 'home-ed25519',
+                });
+
+                assert.strictEqual(response.statusCode, 401);
+            });
+
+            it('should reject Ed25519 signatures for HMAC keys', async () => {
+                const response = await requestSigned(agentKeys.privateKey, 'home-next');
+
+                assert.strictEqual(response.statusCode, 401);
+            });
+
+            it('should reject keys with an invalid public key', async () => {
+                const response = await requestSigned(agentKeys.privateKey, 'home-broken');
+
+                assert.strictEqual(response.statusCode, 401);
+            });
+        });
+
+        describe('Scopes', () => {
+            async function requestRead(
+                secret: string,
+                headers: Record<string, string>
+            ): Promise<{ statusCode: number; body: { scopes?: string[]; message?: string } }> {
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: '/test-read',
+                    headers: { ...buildAuthHeaders('GET', '/test-read', '', secret), ...headers },
+                });
+
+                return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+            }
+
+            it('should accept keys having the required scope', async () => {
+                const response = await requestRead(HOME_SECRET, {
+                    'signature-key-id': 'home-reader',
+                });
+
+                assert.strictEqual(response.statusCode, 200);
+                assert.deepStrictEqual(response.body, { scopes: ['read'] });
+            });
+
+            it('should reject keys without the required scope with 403', async () => {
+                const response = await requestRead(NEXT_SECRET, {
+                    'signature-key-id': 'home-next',
+                });
+
+                assert.strictEqual(response.statusCode, 403);
+                assert.strictEqual(response.body.message, 'Insufficient scope');
+            });
+
+            it('should still reject invalid signatures with 401', async () => {
+                const response = await requestRead(VALID_API_SECRET, {
+                    'signature-key-id': 'home-next',
+                });
+
+                assert.strictEqual(response.statusCode, 401);
+            });
+
+            it('should give every scope to API_SECRET by default', async () => {
+                const response = await requestRead(VALID_API_SECRET, {});
+
+                assert.strictEqual(response.statusCode, 200);
+                assert.deepStrictEqual(response.body, { scopes: ['ingest', 'read', 'admin'] });
+            });
+
+            it('should restrict API_SECRET to API_SECRET_SCOPES', async () => {
+                const originalScopes = process.env.API_SECRET_SCOPES;
+
+                try {
+                    process.env.API_SECRET_SCOPES = 'ingest';
+                    const restricted = await requestRead(VALID_API_SECRET, {});
+
+                    process.env.API_SECRET_SCOPES = 'ingest,superuser';
+                    const invalid = await requestRead(VALID_API_SECRET, {});
+
+                    assert.strictEqual(restricted.statusCode, 403);
+                    assert.strictEqual(invalid.statusCode, 500);
+                } finally {
+                    if (originalScopes === undefined) {
+                        delete process.env.API_SECRET_SCOPES;
+                    } else {
+                        process.env.API_SECRET_SCOPES = originalScopes;
+                    }
+                }
+            });
+        });
+    });
+
+    describe('IP lockout', () => {
+        before(() => {
+            process.env.AUTH_LOCKOUT_THRESHOLD = '3';
+        });
+
+        after(() => {
+            process.env.AUTH_LOCKOUT_THRESHOLD = '0';
+            authLockoutService.unlock('127.0.0.1');
+        });
+
+        it('should lock out an IP after repeated failures, even with valid requests', async () => {
+            for (let i = 0; i < 3; i++) {
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: '/test-protected',
+                    headers: buildAuthHeaders('GET', '/test-protected', '', 'wrong-secret'),
+                });
+
+                assert.strictEqual(response.statusCode, 401);
+            }
+
+            const response = await fastify.inject({
+                method: 'GET',
+                url: '/test-protected',
+                headers: buildAuthHeaders('GET', '/test-protected', '', VALID_API_SECRET),
+            });
+
+            assert.strictEqual(response.statusCode, 429);
+            assert.ok(Number(response.headers['retry-after']) > 0);
+            assert.deepStrictEqual(
+                authLockoutService
+                    .getLockouts()
+                    .map(({ ip, last_reason }) => ({ ip, last_reason })),
+                [{ ip: '127.0.0.1', last_reason: 'bad_signature' }]
+            );
+        });
+
+        it('should not count failures cleared by a successful authentication', async () => {
+            authLockoutService.unlock('127.0.0.1');
+
+            for (const secret of [
+                'wrong-secret',
+                'wrong-secret',
+                VALID_API_SECRET,
+                'wrong-secret',
+            ]) {
+                await fastify.inject({
+                    method: 'GET',
+                    url: '/test-protected',
+                    headers: buildAuthHeaders('GET', '/test-protected', '', secret),
+                });
+            }
+
+            const response = await fastify.inject({
+                method: 'GET',
+                url: '/test-protected',
+                headers: buildAuthHeaders('GET', '/test-protected', '', VALID_API_SECRET),
+            });
+
+            assert.strictEqual(response.statusCode, 200);
+        });
+    });
+
     describe('API prefix handling', () => {
         let prefixedFastify: FastifyInstance;
 
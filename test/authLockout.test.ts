@@ -0,0 +1,157 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { adminRoutes } from '../src/routes/admin.js';
+import authLockoutService, { AuthLockoutService } from '../src/services/authLockout.js';
+import { registerRawBodyCapture } from '../src/middleware/rawBodyCapture.js';
+import { buildAuthHeaders } from './helpers.js';
+
+describe('AuthLockoutService', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+    const minutesLater = (minutes: number): Date => new Date(now.getTime() + minutes * 60000);
+    let service: AuthLockoutService;
+
+    beforeEach(() => {
+        process.env.AUTH_LOCKOUT_THRESHOLD = '3';
+        process.env.AUTH_LOCKOUT_WINDOW = '600000';
+        process.env.AUTH_LOCKOUT_DURATION = '900000';
+        service = new AuthLockoutService();
+    });
+
+    afterEach(() => {
+        delete process.env.AUTH_LOCKOUT_THRESHOLD;
+        delete process.env.AUTH_LOCKOUT_WINDOW;
+        delete process.env.AUTH_LOCKOUT_DURATION;
+    });
+
+    it('should lock out an IP after too many failures within the window', () => {
+        assert.strictEqual(service.recordFailure('10.0.0.1', 'bad_signature', now), false);
+        assert.strictEqual(service.recordFailure('10.0.0.1', 'stale_timestamp', now), false);
+        assert.strictEqual(service.recordFailure('10.0.0.1', 'bad_signature', now), true);
+
+        assert.deepStrictEqual(service.getLockedUntil('10.0.0.1', now), minutesLater(15));
+        assert.strictEqual(service.getLockedUntil('10.0.0.2', now), null);
+        assert.deepStrictEqual(service.getLockouts(now), [
+            {
+                ip: '10.0.0.1',
+                failures: 3,
+                last_reason: 'bad_signature',
+                locked_at: now,
+                locked_until: minutesLater(15),
+            },
+        ]);
+    });
+
+    it('should forget failures outside the window', () => {
+        service.recordFailure('10.0.0.1', 'bad_signature', now);
+        service.recordFailure('10.0.0.1', 'bad_signature', now);
+
+        assert.strictEqual(
+            service.recordFailure('10.0.0.1', 'bad_signature', minutesLater(11)),
+            false
+        );
+        assert.strictEqual(service.getLockedUntil('10.0.0.1', minutesLater(11)), null);
+    });
+
+    it('should clear failures after a successful authentication', () => {
+        service.recordFailure('10.0.0.1', 'bad_signature', now);
+        service.recordFailure('10.0.0.1', 'bad_signature', now);
+        service.recordSuccess('10.0.0.1');
+
+        assert.strictEqual(service.recordFailure('10.0.0.1', 'bad_signature', now), false);
+    });
+
+    it('should end lockouts after their duration or when unlocked', () => {
+        for (const ip of ['10.0.0.1', '10.0.0.2']) {
+            for (let i = 0; i < 3; i++) {
+                service.recordFailure(ip, 'bad_signature', now);
+            }
+        }
+
+        assert.strictEqual(service.getLockedUntil('10.0.0.1', minutesLater(16)), null);
+        assert.strictEqual(service.unlock('10.0.0.2', now), true);
+        assert.strictEqual(service.getLockedUntil('10.0.0.2', now), null);
+        assert.strictEqual(service.unlock('10.0.0.2', now), false);
+    });
+
+    it('should never lock out IPs when the threshold is 0', () => {
+        process.env.AUTH_LOCKOUT_THRESHOLD = '0';
+
+        for (let i = 0; i < 20; i++) {
+            assert.strictEqual(service.recordFailure('10.0.0.1', 'bad_signature', now), false);
+        }
+    });
+});
+
+describe('Admin lockout routes', () => {
+    let fastify: FastifyInstance;
+    const testApiSecret = 'test-api-secret-32-characters-long-for-hmac';
+    const originalApiSecret = process.env.API_SECRET;
+
+    before(async () => {
+        process.env.API_SECRET = testApiSecret;
+
+        fastify = Fastify({ logger: false });
+        await registerRawBodyCapture(fastify);
+        await fastify.register(adminRoutes);
+        await fastify.ready();
+    });
+
+    after(async () => {
+        await fastify.close();
+        process.env.API_SECRET = originalApiSecret;
+    });
+
+    it('should list and lift the lockouts of other IPs', async () => {
+        for (let i = 0; i < 10; i++) {
+            authLockoutService.recordFailure('192.0.2.1', 'bad_signature');
+        }
+
+        try {
+            const list = await fastify.inject({
+                method: 'GET',
+                url: '/admin/lockouts',
+                headers: buildAuthHeaders('GET', '/admin/lockouts', '', testApiSecret),
+            });
+
+            assert.strictEqual(list.statusCode, 200);
+            const body = JSON.parse(list.body) as { data: Array<{ ip: string; failures: number }> };
+            assert.deepStrictEqual(
+                body.data.map(({ ip, failures }) => ({ ip, failures })),
+                [{ ip: '192.0.2.1', failures: 10 }]
+            );
+
+            const unlock = await fastify.inject({
+                method: 'DELETE',
+                url: '/admin/lockouts/192.0.2.1',
+                headers: buildAuthHeaders('DELETE', '/admin/lockouts/192.0.2.1', '', testApiSecret),
+            });
+
+            assert.strictEqual(unlock.statusCode, 204);
+            assert.deepStrictEqual(authLockoutService.getLockouts(), []);
+        } finally {
+            authLockoutService.unlock('192.0.2.1');
+        }
+    });
+
+    it('should require the admin scope', async () => {
+        const originalScopes = process.env.API_SECRET_SCOPES;
+        process.env.API_SECRET_SCOPES = 'ingest,read';
+
+        try {
+            const response = await fastify.inject({
+                method: 'GET',
+                url: '/admin/lockouts',
+                headers: buildAuthHeaders('GET', '/admin/lockouts', '', testApiSecret),
+            });
+
+            assert.strictEqual(response.statusCode, 403);
+        } finally {
+            if (originalScopes === undefined) {
+                delete process.env.API_SECRET_SCOPES;
+            } else {
+                process.env.API_SECRET_SCOPES = originalScopes;
+            }
+        }
+    });
+});
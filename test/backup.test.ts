@@ -0,0 +1,284 @@
+import { describe, it, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { statsRoutes } from '../src/routes/stats.js';
+import statsService, { computeBackupUsage } from '../src/services/stats.js';
+import backupService, {
+    computeTransferredBytes,
+    isBackupConnection,
+    type BackupEvent,
+    type TransferredBytes,
+} from '../src/services/backup.js';
+import { BackupMonitor } from '../src/services/backupMonitor.js';
+import heartbeatService, { type HeartbeatRecord } from '../src/services/heartbeat.js';
+import { NotificationService } from '../src/services/notification.js';
+import type { Device } from '../src/services/device.js';
+import { registerRawBodyCapture } from '../src/middleware/rawBodyCapture.js';
+import { buildAuthHeaders } from './helpers.js';
+
+const device: Device = {
+    id: 1,
+    name: 'default',
+    label: null,
+    heartbeat_timeout: null,
+    created_at: new Date('2025-01-01T00:00:00Z'),
+};
+
+describe('Backup mode', () => {
+    it('should recognize backup links', () => {
+        assert.strictEqual(
+            isBackupConnection({ connection_type: 'ethernet', media_state: 'backup_4g' }),
+            true
+        );
+        assert.strictEqual(isBackupConnection({ connection_type: 'lte', media_state: null }), true);
+        assert.strictEqual(
+            isBackupConnection({ connection_type: 'ethernet', media_state: 'ftth' }),
+            false
+        );
+    });
+
+    describe('computeTransferredBytes', () => {
+        it('should sum the counter increases, counting reset counters from zero', () => {
+            const bytes = computeTransferredBytes([
+                { bytes_down: 1000, bytes_up: 100 },
+                { bytes_down: 5000, bytes_up: null },
+                { bytes_down: 300, bytes_up: 700 },
+            ]);
+
+            assert.deepStrictEqual(bytes, { bytes_down: 4300, bytes_up: 600 });
+        });
+
+        it('should not guess from fewer than two counters', () => {
+            const bytes = computeTransferredBytes([{ bytes_down: 1000, bytes_up: null }]);
+
+            assert.deepStrictEqual(bytes, { bytes_down: null, bytes_up: null });
+        });
+    });
+
+    describe('computeBackupUsage', () => {
+        it('should split durations and bytes between months', () => {
+            const events = [
+                {
+                    // 2 hours in March, 1 hour in April
+                    started_at: new Date('2025-03-31T22:00:00Z'),
+                    ended_at: new Date('2025-04-01T01:00:00Z'),
+                    bytes_down: 3000,
+                    bytes_up: 300,
+                },
+                {
+                    // Ongoing: no bytes yet
+                    started_at: new Date('2025-04-10T00:00:00Z'),
+                    ended_at: null,
+                    bytes_down: null,
+                    bytes_up: null,
+                },
+            ];
+            const now = new Date('2025-04-10T00:30:00Z');
+
+            const march = computeBackupUsage(
+                events,
+                { from: new Date('2025-03-01T00:00:00Z'), to: new Date('2025-04-01T00:00:00Z') },
+                now
+            );
+            const april = computeBackupUsage(
+                events,
+                { from: new Date('2025-04-01T00:00:00Z'), to: now },
+                now
+            );
+
+            assert.deepStrictEqual(
+                [march.backup_count, march.total_duration, march.bytes_down, march.bytes_up],
+                [1, 7200, 2000, 200]
+            );
+            assert.deepStrictEqual(
+                [april.backup_count, april.total_duration, april.bytes_down, april.bytes_up],
+                [2, 3600 + 1800, 1000, 100]
+            );
+        });
+    });
+
+    describe('BackupMonitor', () => {
+        let fastify: FastifyInstance;
+        let notificationService: NotificationService;
+        let activeBackup: BackupEvent | null;
+        let alerts: string[];
+        const originals = {
+            getActiveBackupEvent: backupService.getActiveBackupEvent,
+            createBackupEvent: backupService.createBackupEvent,
+            endBackupEvent: backupService.endBackupEvent,
+            getHeartbeatsInRange: heartbeatService.getHeartbeatsInRange,
+        };
+
+        before(async () => {
+            fastify = Fastify({ logger: false });
+            await fastify.ready();
+
+            notificationService = new NotificationService(fastify.log);
+            notificationService.isEnabled = () => true;
+            notificationService.sendBackupStartedAlert = async (data) => {
+                alerts.push(`started:${data.backupId}:${data.media}`);
+            };
+            notificationService.sendBackupEndedAlert = async (data, endedAt, bytes) => {
+                alerts.push(`ended:${data.backupId}:${endedAt.toISOString()}:${bytes.bytes_down}`);
+            };
+        });
+
+        beforeEach(() => {
+            activeBackup = null;
+            alerts = [];
+
+            backupService.getActiveBackupEvent = async () => activeBackup;
+            backupService.createBackupEvent = async (
+                deviceId: number,
+                startedAt: Date,
+                media: string | null = null
+            ) => {
+                activeBackup = {
+                    id: 4,
+                    device_id: deviceId,
+                    started_at: startedAt,
+                    ended_at: null,
+                    duration: null,
+                    is_active: true,
+                    media,
+                    bytes_down: null,
+                    bytes_up: null,
+                    created_at: startedAt,
+                };
+                return 4;
+            };
+            backupService.endBackupEvent = async (
+                id: number,
+                _endedAt: Date,
+                bytes: TransferredBytes
+            ) => {
+                alerts.push(`recorded:${id}:${bytes.bytes_down}`);
+                activeBackup = null;
+            };
+            heartbeatService.getHeartbeatsInRange = async () =>
+                [
+                    { bytes_down: 1000, bytes_up: 10 },
+                    { bytes_down: 9000, bytes_up: 90 },
+                ] as HeartbeatRecord[];
+        });
+
+        after(async () => {
+            Object.assign(backupService, {
+                getActiveBackupEvent: originals.getActiveBackupEvent,
+                createBackupEvent: originals.createBackupEvent,
+                endBackupEvent: originals.endBackupEvent,
+            });
+            heartbeatService.getHeartbeatsInRange = originals.getHeartbeatsInRange;
+            await fastify.close();
+        });
+
+        it('should track a failover to the backup link and back', async () => {
+            const monitor = new BackupMonitor(fastify.log, notificationService);
+
+            await monitor.checkHeartbeats(device, [
+                {
+                    connection_state: 'up',
+                    timestamp: '2025-04-01T10:05:00Z',
+                    media_state: 'backup_4g',
+                },
+                { connection_state: 'up', timestamp: '2025-04-01T10:00:00Z', media_state: 'ftth' },
+                {
+                    connection_state: 'up',
+                    timestamp: '2025-04-01T10:10:00Z',
+                    media_state: 'backup_4g',
+                },
+            ]);
+            assert.deepStrictEqual(alerts, ['started:4:backup_4g']);
+
+            await monitor.checkHeartbeats(device, [
+                { connection_state: 'up', timestamp: '2025-04-01T11:00:00Z', media_state: 'ftth' },
+            ]);
+            assert.deepStrictEqual(alerts, [
+                'started:4:backup_4g',
+                'recorded:4:8000',
+                'ended:4:2025-04-01T11:00:00.000Z:8000',
+            ]);
+        });
+
+        it('should ignore heartbeats that say nothing about the link', async () => {
+            const monitor = new BackupMonitor(fastify.log, notificationService);
+            backupService.getActiveBackupEvent = async () => {
+                throw new Error('should not be called');
+            };
+
+            await monitor.checkHeartbeats(device, [
+                { connection_state: 'up', timestamp: '2025-04-01T10:00:00Z' },
+                {
+                    connection_state: 'down',
+                    timestamp: '2025-04-01T10:05:00Z',
+                    media_state: 'backup_4g',
+                },
+            ]);
+
+            assert.deepStrictEqual(alerts, []);
+        });
+    });
+
+    describe('GET /stats/backup', () => {
+        let fastify: FastifyInstance;
+        const testApiSecret = 'test-backup-secret-32-characters-long';
+
+        before(async () => {
+            process.env.API_SECRET = testApiSecret;
+
+            fastify = Fastify({ logger: false });
+            await registerRawBodyCapture(fastify);
+            await fastify.register(statsRoutes);
+            await fastify.ready();
+        });
+
+        after(async () => {
+            await fastify.close();
+        });
+
+        it('should pass the window to the service', async () => {
+            const originalGetBackupReport = statsService.getBackupReport;
+            const calls: Array<{ from: Date; to: Date }> = [];
+
+            statsService.getBackupReport = async (reportFrom: Date, reportTo: Date) => {
+                calls.push({ from: reportFrom, to: reportTo });
+                return {
+                    summary: computeBackupUsage([], { from: reportFrom, to: reportTo }),
+                    months: [],
+                };
+            };
+
+            try {
+                const path = '/stats/backup?from=2025-01-01T00:00:00Z&to=2025-04-01T00:00:00Z';
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: path,
+                    headers: buildAuthHeaders('GET', path, '', testApiSecret),
+                });
+
+                assert.strictEqual(response.statusCode, 200);
+                assert.deepStrictEqual(calls, [
+                    {
+                        from: new Date('2025-01-01T00:00:00Z'),
+                        to: new Date('2025-04-01T00:00:00Z'),
+                    },
+                ]);
+                const body = JSON.parse(response.body) as { summary: { backup_count: number } };
+                assert.strictEqual(body.summary.backup_count, 0);
+            } finally {
+                statsService.getBackupReport = originalGetBackupReport;
+            }
+        });
+
+        it('should reject inverted windows', async () => {
+            const path = '/stats/backup?from=2025-04-01T00:00:00Z&to=2025-01-01T00:00:00Z';
+            const response = await fastify.inject({
+                method: 'GET',
+                url: path,
+                headers: buildAuthHeaders('GET', path, '', testApiSecret),
+            });
+
+            assert.strictEqual(response.statusCode, 400);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { ClockDriftMonitor, computeClockDrift } from '../src/services/clockDrift.js';
+import { NotificationService } from '../src/services/notification.js';
+import { timeRoutes } from '../src/routes/time.js';
+import type { Device } from '../src/services/device.js';
+
+const device: Device = {
+    id: 1,
+    name: 'default',
+    label: null,
+    heartbeat_timeout: null,
+    created_at: new Date('2025-01-01T00:00:00Z'),
+};
+
+describe('Clock drift', () => {
+    let fastify: FastifyInstance;
+    let notificationService: NotificationService;
+    let alerts: number[];
+
+    before(async () => {
+        fastify = Fastify({ logger: false });
+        await fastify.register(timeRoutes);
+        await fastify.ready();
+
+        notificationService = new NotificationService(fastify.log);
+        notificationService.isEnabled = () => true;
+        notificationService.sendClockDriftAlert = async (_device: string, clockDrift: number) => {
+            alerts.push(clockDrift);
+        };
+    });
+
+    afterEach(() => {
+        delete process.env.CLOCK_DRIFT_THRESHOLD;
+    });
+
+    after(async () => {
+        await fastify.close();
+    });
+
+    it('should measure the drift from the reception time', () => {
+        const timestamp = new Date('2025-06-01T12:00:00Z');
+
+        assert.strictEqual(computeClockDrift(timestamp, new Date('2025-06-01T12:00:45Z')), 45000);
+        assert.strictEqual(computeClockDrift(timestamp, new Date('2025-06-01T11:59:50Z')), -10000);
+    });
+
+    it('should warn once per drifting period of a device', async () => {
+        alerts = [];
+        process.env.CLOCK_DRIFT_THRESHOLD = '30000';
+        const monitor = new ClockDriftMonitor(fastify.log, notificationService);
+
+        assert.strictEqual(await monitor.checkDrift(device, 5000), false);
+        assert.strictEqual(await monitor.checkDrift(device, -45000), true);
+        assert.strictEqual(await monitor.checkDrift(device, -50000), false);
+        assert.strictEqual(await monitor.checkDrift(device, 1000), false);
+        assert.strictEqual(await monitor.checkDrift(device, 40000), true);
+
+        assert.deepStrictEqual(alerts, [-45000, 40000]);
+    });
+
+    it('should not warn when the threshold is 0', async () => {
+        alerts = [];
+        process.env.CLOCK_DRIFT_THRESHOLD = '0';
+        const monitor = new ClockDriftMonitor(fastify.log, notificationService);
+
+        assert.strictEqual(await monitor.checkDrift(device, 3600000), false);
+        assert.deepStrictEqual(alerts, []);
+    });
+
+    it('should reject an invalid threshold', () => {
+        process.env.CLOCK_DRIFT_THRESHOLD = 'soon';
+
+        assert.throws(() => new ClockDriftMonitor(fastify.log, notificationService));
+    });
+
+    it('should return the server time without authentication', async () => {
+        const before = Date.now();
+        const response = await fastify.inject({ method: 'GET', url: '/time' });
+
+        assert.strictEqual(response.statusCode, 200);
+        const body = JSON.parse(response.body) as {
+            timestamp: number;
+            timestamp_ms: number;
+            iso: string;
+            max_timestamp_age: number;
+            max_future_skew: number;
+        };
+        assert.ok(body.timestamp_ms >= before && body.timestamp_ms <= Date.now());
+        assert.strictEqual(body.timestamp, Math.floor(body.timestamp_ms / 1000));
+        assert.strictEqual(body.iso, new Date(body.timestamp_ms).toISOString());
+        assert.strictEqual(body.max_timestamp_age, 60);
+        assert.strictEqual(body.max_future_skew, 10);
+    });
+});
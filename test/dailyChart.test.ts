@@ -2,15 +2,31 @@ import { describe, it, before, after, mock, beforeEach, afterEach } from 'node:t
 import assert from 'node:assert';
 import { DailyChartService } from '../src/services/dailyChart.js';
 import { HeartbeatService } from '../src/services/heartbeat.js';
+import { DowntimeService } from '../src/services/downtime.js';
+import { DeviceService } from '../src/services/device.js';
 import fs from 'fs/promises';
 import os from 'os';
 import path from 'path';
 
 describe('DailyChartService', () => {
     let heartbeatService: HeartbeatService;
+    let downtimeService: DowntimeService;
+    let deviceService: DeviceService;
 
     before(() => {
         heartbeatService = new HeartbeatService();
+        downtimeService = new DowntimeService();
+        downtimeService.getDowntimeEventsInRange = async () => [];
+        deviceService = new DeviceService();
+        deviceService.getDevices = async () => [
+            {
+                id: 1,
+                name: 'default',
+                label: null,
+                heartbeat_timeout: null,
+                created_at: new Date(),
+            },
+        ];
     });
 
     it('should initialize with Discord webhook URL', () => {
@@ -73,7 +89,13 @@ describe('DailyChartService', () => {
 
     it('should handle empty heartbeat data gracefully', async () => {
         const webhookUrl = 'https://discord.com/api/webhooks/123/test';
-        const service = new DailyChartService(heartbeatService, webhookUrl);
+        const service = new DailyChartService(
+            heartbeatService,
+            webhookUrl,
+            undefined,
+            downtimeService,
+            deviceService
+        );
 
         // Mock getHeartbeatsInRange to return empty array
         const originalMethod = heartbeatService.getHeartbeatsInRange;
@@ -90,7 +112,13 @@ describe('DailyChartService', () => {
 
     it('should handle chart generation errors gracefully', async () => {
         const webhookUrl = 'https://discord.com/api/webhooks/123/test';
-        const service = new DailyChartService(heartbeatService, webhookUrl);
+        const service = new DailyChartService(
+            heartbeatService,
+            webhookUrl,
+            undefined,
+            downtimeService,
+            deviceService
+        );
 
         // Mock getHeartbeatsInRange to throw error
         const originalMethod = heartbeatService.getHeartbeatsInRange;
@@ -111,12 +139,19 @@ describe('DailyChartService', () => {
 
     it('should clean up temporary file even on Discord webhook failure', async () => {
         const webhookUrl = 'https://discord.com/api/webhooks/123/test';
-        const service = new DailyChartService(heartbeatService, webhookUrl);
+        const service = new DailyChartService(
+            heartbeatService,
+            webhookUrl,
+            undefined,
+            downtimeService,
+            deviceService
+        );
 
         // Mock heartbeat data
         const mockHeartbeats = [
             {
                 id: 1,
+                device_id: 1,
                 status: 'up',
                 timestamp: new Date('2025-12-06T10:00:00Z'),
                 received_at: new Date('2025-12-06T10:00:00Z'),
@@ -130,6 +165,7 @@ describe('DailyChartService', () => {
                 bandwidth_up: null,
                 bytes_down: null,
                 bytes_up: null,
+                clock_drift: null,
                 metadata: null,
             },
         ];
@@ -178,12 +214,19 @@ describe('DailyChartService', () => {
 
     it('should successfully create and send chart with mocked Discord webhook', async () => {
         const webhookUrl = 'https://discord.com/api/webhooks/123/test';
-        const service = new DailyChartService(heartbeatService, webhookUrl);
+        const service = new DailyChartService(
+            heartbeatService,
+            webhookUrl,
+            undefined,
+            downtimeService,
+            deviceService
+        );
 
         // Mock heartbeat data
         const mockHeartbeats = [
             {
                 id: 1,
+                device_id: 1,
                 status: 'up',
                 timestamp: new Date('2025-12-06T10:00:00Z'),
                 received_at: new Date('2025-12-06T10:00:00Z'),
@@ -197,10 +240,12 @@ describe('DailyChartService', () => {
                 bandwidth_up: null,
                 bytes_down: null,
                 bytes_up: null,
+                clock_drift: null,
                 metadata: null,
             },
             {
                 id: 2,
+                device_id: 1,
                 status: 'up',
                 timestamp: new Date('2025-12-06T11:00:00Z'),
                 received_at: new Date('2025-12-06T11:00:00Z'),
@@ -214,6 +259,7 @@ describe('DailyChartService', () => {
                 bandwidth_up: null,
                 bytes_down: null,
                 bytes_up: null,
+                clock_drift: null,
                 metadata: null,
             },
         ];
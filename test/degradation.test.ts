@@ -0,0 +1,196 @@
+import { describe, it, before, beforeEach, after, afterEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify, { type FastifyInstance } from 'fastify';
+import {
+    DegradationMonitor,
+    formatBitRate,
+    getSustainedBreaches,
+    parseDegradationThreshold,
+} from '../src/services/degradation.js';
+import heartbeatService, { type HeartbeatRecord } from '../src/services/heartbeat.js';
+import incidentService, { type Incident } from '../src/services/incident.js';
+import { NotificationService } from '../src/services/notification.js';
+import type { Device } from '../src/services/device.js';
+
+const device: Device = {
+    id: 1,
+    name: 'default',
+    label: null,
+    heartbeat_timeout: null,
+    created_at: new Date('2025-01-01T00:00:00Z'),
+};
+
+const MBPS = 1000000;
+
+function heartbeat(minute: number, bandwidthDown: number | null, status = 'up'): HeartbeatRecord {
+    return {
+        status,
+        timestamp: new Date(Date.UTC(2025, 3, 1, 10, minute)),
+        bandwidth_down: bandwidthDown,
+        bandwidth_up: null,
+        rate_down: null,
+        rate_up: null,
+    } as HeartbeatRecord;
+}
+
+describe('Degradation', () => {
+    describe('parseDegradationThreshold', () => {
+        it('should parse absolute values and percentages of the subscription speed', () => {
+            assert.strictEqual(parseDegradationThreshold(undefined, null), null);
+            assert.strictEqual(parseDegradationThreshold('', 1000 * MBPS), null);
+            assert.strictEqual(parseDegradationThreshold('50000000', null), 50 * MBPS);
+            assert.strictEqual(parseDegradationThreshold('40%', 1000 * MBPS), 400 * MBPS);
+        });
+
+        it('should reject invalid thresholds', () => {
+            for (const [value, subscriptionSpeed] of [
+                ['fast', null],
+                ['-5', null],
+                ['50%', null],
+                ['150%', 1000 * MBPS],
+            ] as const) {
+                assert.throws(() => parseDegradationThreshold(value, subscriptionSpeed));
+            }
+        });
+    });
+
+    it('should only report the metrics breached by every heartbeat', () => {
+        const thresholds = { bandwidth_down: 100 * MBPS, rate_down: 10 * MBPS };
+        const breaches = getSustainedBreaches(
+            [
+                { ...heartbeat(0, 50 * MBPS), rate_down: 5 * MBPS },
+                { ...heartbeat(5, 60 * MBPS), rate_down: 20 * MBPS },
+            ],
+            thresholds
+        );
+
+        assert.deepStrictEqual(breaches, ['bandwidth_down']);
+        assert.deepStrictEqual(getSustainedBreaches([heartbeat(0, null)], thresholds), []);
+        assert.deepStrictEqual(getSustainedBreaches([], thresholds), []);
+    });
+
+    it('should format bit rates', () => {
+        assert.strictEqual(formatBitRate(950 * 1000), '950 Kbps');
+        assert.strictEqual(formatBitRate(12.34 * MBPS), '12.3 Mbps');
+        assert.strictEqual(formatBitRate(2.5e9), '2.5 Gbps');
+    });
+
+    describe('DegradationMonitor', () => {
+        let fastify: FastifyInstance;
+        let notificationService: NotificationService;
+        let history: HeartbeatRecord[];
+        let activeIncident: Incident | null;
+        let alerts: string[];
+        const now = new Date(Date.UTC(2025, 3, 1, 10, 20));
+        const originals = {
+            getHeartbeatBefore: heartbeatService.getHeartbeatBefore,
+            getHeartbeatsInRange: heartbeatService.getHeartbeatsInRange,
+            getActiveIncident: incidentService.getActiveIncident,
+            createIncident: incidentService.createIncident,
+            endIncident: incidentService.endIncident,
+        };
+
+        before(async () => {
+            fastify = Fastify({ logger: false });
+            await fastify.ready();
+
+            notificationService = new NotificationService(fastify.log);
+            notificationService.isEnabled = () => true;
+            notificationService.sendDegradedAlert = async (data, details) => {
+                alerts.push(`degraded:${data.incidentId}:${details}`);
+            };
+            notificationService.sendDegradationRecoveredAlert = async (data, endedAt) => {
+                alerts.push(`recovered:${data.incidentId}:${endedAt.toISOString()}`);
+            };
+        });
+
+        beforeEach(() => {
+            process.env.SUBSCRIPTION_SPEED_DOWN = String(1000 * MBPS);
+            process.env.DEGRADED_BANDWIDTH_DOWN = '40%';
+            activeIncident = null;
+            alerts = [];
+
+            heartbeatService.getHeartbeatBefore = async (date: Date) =>
+                history.filter((record) => record.timestamp <= date).at(-1) ?? null;
+            heartbeatService.getHeartbeatsInRange = async (startDate: Date, endDate: Date) =>
+                history.filter(
+                    (record) => record.timestamp >= startDate && record.timestamp <= endDate
+                );
+            incidentService.getActiveIncident = async () => activeIncident;
+            incidentService.createIncident = async () => 9;
+            incidentService.endIncident = async (id: number) => {
+                alerts.push(`ended:${id}`);
+            };
+        });
+
+        afterEach(() => {
+            delete process.env.SUBSCRIPTION_SPEED_DOWN;
+            delete process.env.DEGRADED_BANDWIDTH_DOWN;
+        });
+
+        after(async () => {
+            Object.assign(heartbeatService, {
+                getHeartbeatBefore: originals.getHeartbeatBefore,
+                getHeartbeatsInRange: originals.getHeartbeatsInRange,
+            });
+            Object.assign(incidentService, {
+                getActiveIncident: originals.getActiveIncident,
+                createIncident: originals.createIncident,
+                endIncident: originals.endIncident,
+            });
+            await fastify.close();
+        });
+
+        it('should reject percentages without a subscription speed', () => {
+            delete process.env.SUBSCRIPTION_SPEED_DOWN;
+
+            assert.throws(
+                () => new DegradationMonitor(fastify.log, notificationService),
+                /DEGRADED_BANDWIDTH_DOWN/
+            );
+        });
+
+        it('should open a degraded incident once the line is slow for the duration', async () => {
+            const monitor = new DegradationMonitor(fastify.log, notificationService);
+
+            // Slow since 10:12 only: not sustained for 10 minutes yet
+            history = [heartbeat(8, 900 * MBPS), heartbeat(12, 200 * MBPS)];
+            await monitor.checkDegradation(device, now);
+            assert.deepStrictEqual(alerts, []);
+
+            history = [heartbeat(8, 200 * MBPS), heartbeat(12, 150 * MBPS)];
+            await monitor.checkDegradation(device, now);
+            assert.deepStrictEqual(alerts, ['degraded:9:Line rate down 150 Mbps < 400 Mbps']);
+        });
+
+        it('should not evaluate heartbeats of a line that is down', async () => {
+            const monitor = new DegradationMonitor(fastify.log, notificationService);
+
+            history = [heartbeat(8, 0), heartbeat(12, 0, 'down')];
+            await monitor.checkDegradation(device, now);
+
+            assert.deepStrictEqual(alerts, []);
+        });
+
+        it('should end the incident once the line is fast for the duration', async () => {
+            const monitor = new DegradationMonitor(fastify.log, notificationService);
+            activeIncident = {
+                id: 9,
+                device_id: 1,
+                type: 'degraded',
+                started_at: new Date(Date.UTC(2025, 3, 1, 9, 0)),
+                ended_at: null,
+                is_active: true,
+                details: null,
+            };
+
+            history = [heartbeat(8, 200 * MBPS), heartbeat(12, 900 * MBPS)];
+            await monitor.checkDegradation(device, now);
+            assert.deepStrictEqual(alerts, []);
+
+            history = [heartbeat(8, 900 * MBPS), heartbeat(12, 900 * MBPS)];
+            await monitor.checkDegradation(device, now);
+            assert.deepStrictEqual(alerts, ['ended:9', 'recovered:9:2025-04-01T10:08:00.000Z']);
+        });
+    });
+});
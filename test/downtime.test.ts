@@ -0,0 +1,202 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { downtimeRoutes } from '../src/routes/downtime.js';
+import heartbeatService, { type HeartbeatRecord } from '../src/services/heartbeat.js';
+import downtimeService, {
+    type DowntimeEvent,
+    type DowntimeQuery,
+} from '../src/services/downtime.js';
+import { registerRawBodyCapture } from '../src/middleware/rawBodyCapture.js';
+import { buildAuthHeaders } from './helpers.js';
+
+describe('Downtime Routes', () => {
+    let fastify: FastifyInstance;
+    const testApiSecret = 'test-downtime-secret-32-chars-long';
+
+    const endedEvent: DowntimeEvent = {
+        id: 5,
+        device_id: 1,
+        started_at: new Date('2025-01-10T10:05:00Z'),
+        ended_at: new Date('2025-01-10T11:00:00Z'),
+        duration: 3300,
+        is_active: false,
+        notes: 'Automatically detected downtime',
+        source: 'heartbeat_silence',
+        cause: null,
+        incident_id: null,
+        planned: false,
+        unobserved: false,
+        cleared: false,
+        alert_sent_at: null,
+        escalation_count: 0,
+        escalated_at: null,
+        recovery_sent_at: null,
+    };
+
+    before(async () => {
+        process.env.API_SECRET = testApiSecret;
+
+        fastify = Fastify({ logger: false });
+        await registerRawBodyCapture(fastify);
+        await fastify.register(downtimeRoutes);
+        await fastify.ready();
+    });
+
+    after(async () => {
+        await fastify.close();
+    });
+
+    it('should reject listing without authentication', async () => {
+        const response = await fastify.inject({ method: 'GET', url: '/downtimes' });
+
+        assert.strictEqual(response.statusCode, 401);
+    });
+
+    it('should pass filters to the service', async () => {
+        const originalQueryDowntimeEvents = downtimeService.queryDowntimeEvents;
+        const queries: DowntimeQuery[] = [];
+
+        downtimeService.queryDowntimeEvents = async (query: DowntimeQuery) => {
+            queries.push(query);
+            return { data: [endedEvent], next_cursor: null };
+        };
+
+        try {
+            const path = '/downtimes?from=2025-01-01T00:00:00Z&active=false&min_duration=600';
+            const response = await fastify.inject({
+                method: 'GET',
+                url: path,
+                headers: buildAuthHeaders('GET', path, '', testApiSecret),
+            });
+
+            assert.strictEqual(response.statusCode, 200);
+            const body = JSON.parse(response.body) as { data: Array<{ id: number }> };
+            assert.strictEqual(body.data[0].id, 5);
+
+            assert.deepStrictEqual(queries[0], {
+                deviceId: undefined,
+                from: new Date('2025-01-01T00:00:00Z'),
+                to: undefined,
+                active: false,
+                minDuration: 600,
+                cursor: undefined,
+                limit: 100,
+            });
+        } finally {
+            downtimeService.queryDowntimeEvents = originalQueryDowntimeEvents;
+        }
+    });
+
+    it('should return 404 for unknown downtime events', async () => {
+        const originalGetDowntimeEventById = downtimeService.getDowntimeEventById;
+        downtimeService.getDowntimeEventById = async () => null;
+
+        try {
+            const path = '/downtimes/42';
+            const response = await fastify.inject({
+                method: 'GET',
+                url: path,
+                headers: buildAuthHeaders('GET', path, '', testApiSecret),
+            });
+
+            assert.strictEqual(response.statusCode, 404);
+        } finally {
+            downtimeService.getDowntimeEventById = originalGetDowntimeEventById;
+        }
+    });
+
+    it('should include surrounding heartbeats in the detail view', async () => {
+        const originalGetDowntimeEventById = downtimeService.getDowntimeEventById;
+        const originalGetHeartbeatBefore = heartbeatService.getHeartbeatBefore;
+        const originalGetHeartbeatAfter = heartbeatService.getHeartbeatAfter;
+
+        downtimeService.getDowntimeEventById = async () => endedEvent;
+        heartbeatService.getHeartbeatBefore = async (date: Date) =>
+            ({
+                id: 100,
+                status: 'up',
+                timestamp: new Date(date.getTime() - 300000),
+            }) as HeartbeatRecord | null;
+        heartbeatService.getHeartbeatAfter = async () =>
+            ({
+                id: 101,
+                status: 'up',
+                timestamp: new Date('2025-01-10T10:59:58Z'),
+            }) as HeartbeatRecord | null;
+
+        try {
+            const path = '/downtimes/5';
+            const response = await fastify.inject({
+                method: 'GET',
+                url: path,
+                headers: buildAuthHeaders('GET', path, '', testApiSecret),
+            });
+
+            assert.strictEqual(response.statusCode, 200);
+            const body = JSON.parse(response.body) as {
+                id: number;
+                last_heartbeat_before: { id: number };
+                first_heartbeat_after: { id: number };
+            };
+            assert.strictEqual(body.id, 5);
+            assert.strictEqual(body.last_heartbeat_before.id, 100);
+            assert.strictEqual(body.first_heartbeat_after.id, 101);
+        } finally {
+            downtimeService.getDowntimeEventById = originalGetDowntimeEventById;
+            heartbeatService.getHeartbeatBefore = originalGetHeartbeatBefore;
+            heartbeatService.getHeartbeatAfter = originalGetHeartbeatAfter;
+        }
+    });
+
+    it('should surround reported downtimes with up heartbeats', async () => {
+        const originalGetDowntimeEventById = downtimeService.getDowntimeEventById;
+        const originalGetHeartbeatBefore = heartbeatService.getHeartbeatBefore;
+        const originalGetHeartbeatAfter = heartbeatService.getHeartbeatAfter;
+
+        // Down reports at 10:05 and 10:06, back up at 10:30
+        const heartbeats = [
+            { id: 200, status: 'up', timestamp: new Date('2025-01-10T10:04:00Z') },
+            { id: 201, status: 'down', timestamp: new Date('2025-01-10T10:05:00Z') },
+            { id: 202, status: 'down', timestamp: new Date('2025-01-10T10:06:00Z') },
+            { id: 203, status: 'up', timestamp: new Date('2025-01-10T10:30:00Z') },
+        ] as HeartbeatRecord[];
+
+        downtimeService.getDowntimeEventById = async () => ({
+            ...endedEvent,
+            started_at: new Date('2025-01-10T10:05:00Z'),
+            ended_at: new Date('2025-01-10T10:30:01Z'),
+            source: 'reported_down',
+        });
+        heartbeatService.getHeartbeatBefore = async (date: Date, _deviceId, status?: string) =>
+            heartbeats
+                .filter((heartbeat) => heartbeat.timestamp <= date)
+                .filter((heartbeat) => !status || heartbeat.status === status)
+                .at(-1) ?? null;
+        heartbeatService.getHeartbeatAfter = async (date: Date, _deviceId, status?: string) =>
+            heartbeats
+                .filter((heartbeat) => heartbeat.timestamp > date)
+                .find((heartbeat) => !status || heartbeat.status === status) ?? null;
+
+        try {
+            const path = '/downtimes/5';
+            const response = await fastify.inject({
+                method: 'GET',
+                url: path,
+                headers: buildAuthHeaders('GET', path, '', testApiSecret),
+            });
+
+            assert.strictEqual(response.statusCode, 200);
+            const body = JSON.parse(response.body) as {
+                last_heartbeat_before: { id: number };
+                first_heartbeat_after: { id: number };
+            };
+            assert.strictEqual(body.last_heartbeat_before.id, 200);
+            assert.strictEqual(body.first_heartbeat_after.id, 203);
+        } finally {
+            downtimeService.getDowntimeEventById = originalGetDowntimeEventById;
+            heartbeatService.getHeartbeatBefore = originalGetHeartbeatBefore;
+            heartbeatService.getHeartbeatAfter = originalGetHeartbeatAfter;
+        }
+    });
+});
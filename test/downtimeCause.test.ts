@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { classifyDowntimeCause, type HeartbeatSnapshot } from '../src/services/downtimeCause.js';
+
+function heartbeat(overrides: Partial<HeartbeatSnapshot> = {}): HeartbeatSnapshot {
+    return {
+        status: 'up',
+        ipv4: '203.0.113.10',
+        media_state: 'ftth',
+        connection_type: 'ethernet',
+        ...overrides,
+    };
+}
+
+describe('classifyDowntimeCause', () => {
+    it('should blame the agent when the line was up and nothing changed', () => {
+        assert.strictEqual(
+            classifyDowntimeCause('heartbeat_silence', heartbeat(), heartbeat()),
+            'agent_silent'
+        );
+    });
+
+    it('should keep a provisional cause while the downtime is ongoing', () => {
+        assert.strictEqual(
+            classifyDowntimeCause('heartbeat_silence', heartbeat(), null),
+            'agent_silent'
+        );
+        assert.strictEqual(classifyDowntimeCause('reported_down', heartbeat(), null), 'wan_down');
+    });
+
+    it('should report the WAN down when the agent reported it or the line was not up', () => {
+        assert.strictEqual(
+            classifyDowntimeCause('reported_down', heartbeat({ status: 'down' }), heartbeat()),
+            'wan_down'
+        );
+        assert.strictEqual(
+            classifyDowntimeCause('heartbeat_silence', heartbeat({ status: 'going_down' }), null),
+            'wan_down'
+        );
+    });
+
+    it('should detect a media state change', () => {
+        assert.strictEqual(
+            classifyDowntimeCause(
+                'heartbeat_silence',
+                heartbeat(),
+                heartbeat({ media_state: 'xdsl', ipv4: '198.51.100.7' })
+            ),
+            'media_change'
+        );
+    });
+
+    it('should detect an IPv4 change on recovery', () => {
+        assert.strictEqual(
+            classifyDowntimeCause(
+                'heartbeat_silence',
+                heartbeat(),
+                heartbeat({ ipv4: '198.51.100.7' })
+            ),
+            'ip_change'
+        );
+    });
+
+    it('should ignore missing fields when comparing heartbeats', () => {
+        assert.strictEqual(
+            classifyDowntimeCause(
+                'heartbeat_silence',
+                heartbeat({ ipv4: null, media_state: null }),
+                heartbeat({ ipv4: '198.51.100.7', media_state: 'xdsl' })
+            ),
+            'agent_silent'
+        );
+    });
+
+    it('should detect a switch to a backup connection first', () => {
+        assert.strictEqual(
+            classifyDowntimeCause(
+                'reported_down',
+                heartbeat(),
+                heartbeat({ media_state: 'backup_4g', ipv4: '198.51.100.7' })
+            ),
+            'backup_connection'
+        );
+        assert.strictEqual(
+            classifyDowntimeCause(
+                'heartbeat_silence',
+                heartbeat({ connection_type: 'backup' }),
+                heartbeat({ connection_type: 'backup' })
+            ),
+            'agent_silent'
+        );
+    });
+
+    it('should not guess without a heartbeat before the downtime', () => {
+        assert.strictEqual(
+            classifyDowntimeCause('heartbeat_silence', null, heartbeat()),
+            'unknown'
+        );
+    });
+});
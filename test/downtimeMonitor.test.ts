@@ -1,19 +1,57 @@
-import { describe, it, before, beforeEach, after } from 'node:test';
+import { describe, it, before, beforeEach, after, afterEach } from 'node:test';
 import assert from 'node:assert';
 import Fastify, { type FastifyInstance } from 'fastify';
-import heartbeatService from '../src/services/heartbeat.js';
-import downtimeService from '../src/services/downtime.js';
+import heartbeatService, { type HeartbeatRecord } from '../src/services/heartbeat.js';
+import downtimeService, {
+    type DowntimeEvent,
+    type DowntimeSource,
+} from '../src/services/downtime.js';
+import type { DowntimeCause } from '../src/services/downtimeCause.js';
+import deviceService, { type Device } from '../src/services/device.js';
 import { DowntimeMonitor } from '../src/services/downtimeMonitor.js';
 import { NotificationService } from '../src/services/notification.js';
+import incidentService, { countTransitions, type Incident } from '../src/services/incident.js';
+import maintenanceService, { type MaintenanceWindow } from '../src/services/maintenance.js';
+import watcherService from '../src/services/watcher.js';
+
+function device(id: number, name: string, heartbeatTimeout: number | null = null): Device {
+    return {
+        id,
+        name,
+        label: null,
+        heartbeat_timeout: heartbeatTimeout,
+        created_at: new Date(),
+    };
+}
 
 describe('DowntimeMonitor', () => {
     let fastify: FastifyInstance;
     let notificationService: NotificationService;
+    const originalGetActiveIncident = incidentService.getActiveIncident;
+    const originalGetDowntimeEventsInRange = downtimeService.getDowntimeEventsInRange;
+    const originalGetActiveMaintenanceWindow = maintenanceService.getActiveMaintenanceWindow;
+    const originalClaimNotification = downtimeService.claimNotification;
+    const originalGetPendingRecoveryEvents = downtimeService.getPendingRecoveryEvents;
+    const originalClaimEscalation = downtimeService.claimEscalation;
+    const originalIsUnobserved = watcherService.isUnobserved;
 
     before(async () => {
         fastify = Fastify({ logger: false });
         await fastify.ready();
         notificationService = new NotificationService(fastify.log);
+
+        // No device is flapping nor in maintenance unless a test says otherwise
+        incidentService.getActiveIncident = async () => null;
+        downtimeService.getDowntimeEventsInRange = async () => [];
+        maintenanceService.getActiveMaintenanceWindow = async () => null;
+
+        // Alerts have never been sent before
+        downtimeService.claimNotification = async () => true;
+        downtimeService.getPendingRecoveryEvents = async () => [];
+        downtimeService.claimEscalation = async () => true;
+
+        // The watcher has never been offline
+        watcherService.isUnobserved = async () => false;
     });
 
     beforeEach(() => {
@@ -23,6 +61,13 @@ describe('DowntimeMonitor', () => {
     });
 
     after(async () => {
+        incidentService.getActiveIncident = originalGetActiveIncident;
+        downtimeService.getDowntimeEventsInRange = originalGetDowntimeEventsInRange;
+        maintenanceService.getActiveMaintenanceWindow = originalGetActiveMaintenanceWindow;
+        downtimeService.claimNotification = originalClaimNotification;
+        downtimeService.getPendingRecoveryEvents = originalGetPendingRecoveryEvents;
+        downtimeService.claimEscalation = originalClaimEscalation;
+        watcherService.isUnobserved = originalIsUnobserved;
         await fastify.close();
     });
 
@@ -57,12 +102,6 @@ describe('DowntimeMonitor', () => {
         assert.strictEqual(typeof monitor.stop, 'function');
     });
 
-    it('should have markDowntimeEnded method', () => {
-        const monitor = new DowntimeMonitor(fastify.log, notificationService);
-
-        assert.strictEqual(typeof monitor.markDowntimeEnded, 'function');
-    });
-
     it('should start and stop monitoring without errors', () => {
         const monitor = new DowntimeMonitor(fastify.log, notificationService);
 
@@ -87,24 +126,6 @@ describe('DowntimeMonitor', () => {
         monitor.stop();
     });
 
-    it('should mark downtime as ended', () => {
-        const monitor = new DowntimeMonitor(fastify.log, notificationService);
-
-        assert.doesNotThrow(() => {
-            monitor.markDowntimeEnded(123);
-        });
-    });
-
-    it('should handle multiple downtime IDs', () => {
-        const monitor = new DowntimeMonitor(fastify.log, notificationService);
-
-        assert.doesNotThrow(() => {
-            monitor.markDowntimeEnded(1);
-            monitor.markDowntimeEnded(2);
-            monitor.markDowntimeEnded(3);
-        });
-    });
-
     it('should stop gracefully even if not started', () => {
         const monitor = new DowntimeMonitor(fastify.log, notificationService);
 
@@ -135,6 +156,7 @@ describe('DowntimeMonitor', () => {
 
     it('should create downtime and notify when heartbeat is stale', async () => {
         const monitor = new DowntimeMonitor(fastify.log, notificationService);
+        const originalGetDevices = deviceService.getDevices;
         const originalGetActiveDowntimeEvent = downtimeService.getActiveDowntimeEvent;
         const originalGetLastHeartbeat = heartbeatService.getLastHeartbeat;
         const originalCreateDowntimeEvent = downtimeService.createDowntimeEvent;
@@ -144,12 +166,17 @@ describe('DowntimeMonitor', () => {
         let createdDowntimeArgs: { startedAt: Date; notes: string | null } | null = null;
         const notificationCalls: Array<{ data: unknown; heartbeatTimeoutMs: number }> = [];
 
+        deviceService.getDevices = async () => [device(1, 'default')];
         downtimeService.getActiveDowntimeEvent = async () => null;
         heartbeatService.getLastHeartbeat = async () =>
             ({
                 timestamp: new Date(Date.now() - ((monitor as any).heartbeatTimeoutMs + 60000)),
             }) as any;
-        downtimeService.createDowntimeEvent = async (startedAt: Date, notes: string | null) => {
+        downtimeService.createDowntimeEvent = async (
+            _deviceId: number,
+            startedAt: Date,
+            notes: string | null
+        ) => {
             createdDowntimeArgs = { startedAt, notes };
             return 99;
         };
@@ -173,6 +200,7 @@ describe('DowntimeMonitor', () => {
                 (monitor as any).heartbeatTimeoutMs
             );
         } finally {
+            deviceService.getDevices = originalGetDevices;
             downtimeService.getActiveDowntimeEvent = originalGetActiveDowntimeEvent;
             heartbeatService.getLastHeartbeat = originalGetLastHeartbeat;
             downtimeService.createDowntimeEvent = originalCreateDowntimeEvent;
@@ -183,6 +211,7 @@ describe('DowntimeMonitor', () => {
 
     it('should send confirmation notification after confirmation delay', async () => {
         const monitor = new DowntimeMonitor(fastify.log, notificationService);
+        const originalGetDevices = deviceService.getDevices;
         const originalGetActiveDowntimeEvent = downtimeService.getActiveDowntimeEvent;
         const originalIsEnabled = notificationService.isEnabled;
         const originalSendDowntimeConfirmedAlert = notificationService.sendDowntimeConfirmedAlert;
@@ -190,6 +219,7 @@ describe('DowntimeMonitor', () => {
         const startedAt = new Date(Date.now() - ((monitor as any).confirmationDelayMs + 120000));
         const notificationCalls: Array<{ data: unknown; confirmationDelayMs: number }> = [];
 
+        deviceService.getDevices = async () => [device(1, 'default')];
         downtimeService.getActiveDowntimeEvent = async () =>
             ({
                 id: 77,
@@ -212,9 +242,598 @@ describe('DowntimeMonitor', () => {
                 (monitor as any).confirmationDelayMs
             );
         } finally {
+            deviceService.getDevices = originalGetDevices;
             downtimeService.getActiveDowntimeEvent = originalGetActiveDowntimeEvent;
             notificationService.isEnabled = originalIsEnabled;
             notificationService.sendDowntimeConfirmedAlert = originalSendDowntimeConfirmedAlert;
         }
     });
+
+    it('should track each device with its own heartbeat timeout', async () => {
+        const monitor = new DowntimeMonitor(fastify.log, notificationService);
+        const originalGetDevices = deviceService.getDevices;
+        const originalGetActiveDowntimeEvent = downtimeService.getActiveDowntimeEvent;
+        const originalGetLastHeartbeat = heartbeatService.getLastHeartbeat;
+        const originalCreateDowntimeEvent = downtimeService.createDowntimeEvent;
+        const originalIsEnabled = notificationService.isEnabled;
+        const originalSendDowntimeAlert = notificationService.sendDowntimeAlert;
+
+        const created: Array<{ deviceId: number; startedAt: Date }> = [];
+        const notified: unknown[] = [];
+        const lastHeartbeatAt = new Date(Date.now() - 10 * 60000);
+
+        // Silent for 10 minutes: past the 5 minute default, within the office's 15 minutes
+        deviceService.getDevices = async () => [
+            { ...device(1, 'home'), label: 'Home' },
+            device(2, 'office', 15 * 60000),
+        ];
+        downtimeService.getActiveDowntimeEvent = async () => null;
+        heartbeatService.getLastHeartbeat = async () => ({ timestamp: lastHeartbeatAt }) as any;
+        downtimeService.createDowntimeEvent = async (deviceId: number, startedAt: Date) => {
+            created.push({ deviceId, startedAt });
+            return 100 + deviceId;
+        };
+        notificationService.isEnabled = () => true;
+        notificationService.sendDowntimeAlert = async (data: unknown) => {
+            notified.push(data);
+        };
+
+        try {
+            await (monitor as any).checkDowntime();
+
+            assert.deepStrictEqual(created, [
+                {
+                    deviceId: 1,
+                    startedAt: new Date(
+                        lastHeartbeatAt.getTime() + monitor.getHeartbeatTimeoutMs()
+                    ),
+                },
+            ]);
+            assert.deepStrictEqual(notified, [
+                { downtimeId: 101, startedAt: created[0].startedAt, device: 'Home' },
+            ]);
+        } finally {
+            deviceService.getDevices = originalGetDevices;
+            downtimeService.getActiveDowntimeEvent = originalGetActiveDowntimeEvent;
+            heartbeatService.getLastHeartbeat = originalGetLastHeartbeat;
+            downtimeService.createDowntimeEvent = originalCreateDowntimeEvent;
+            notificationService.isEnabled = originalIsEnabled;
+            notificationService.sendDowntimeAlert = originalSendDowntimeAlert;
+        }
+    });
+
+    it('should flag downtimes detected after a watcher outage as unobserved', async () => {
+        const monitor = new DowntimeMonitor(fastify.log, notificationService);
+        const originalGetDevices = deviceService.getDevices;
+        const originalGetActiveDowntimeEvent = downtimeService.getActiveDowntimeEvent;
+        const originalGetLastHeartbeat = heartbeatService.getLastHeartbeat;
+        const originalCreateDowntimeEvent = downtimeService.createDowntimeEvent;
+        const checked: Array<Date | null> = [];
+        const flags: Array<boolean | undefined> = [];
+
+        // The last heartbeat is an hour old because the watcher itself was stopped
+        deviceService.getDevices = async () => [device(1, 'home')];
+        downtimeService.getActiveDowntimeEvent = async () => null;
+        heartbeatService.getLastHeartbeat = async () =>
+            ({ timestamp: new Date(Date.now() - 60 * 60000) }) as HeartbeatRecord;
+        watcherService.isUnobserved = async (startedAt: Date) => {
+            checked.push(startedAt);
+            return true;
+        };
+        downtimeService.createDowntimeEvent = async (
+            _deviceId: number,
+            _startedAt: Date,
+            _notes?: string | null,
+            _source?: DowntimeSource,
+            _cause?: DowntimeCause | null,
+            _planned?: boolean,
+            unobserved?: boolean
+        ) => {
+            flags.push(unobserved);
+            return 60;
+        };
+
+        try {
+            await (monitor as any).checkDowntime();
+
+            assert.strictEqual(checked.length, 1);
+            assert.deepStrictEqual(flags, [true]);
+        } finally {
+            deviceService.getDevices = originalGetDevices;
+            downtimeService.getActiveDowntimeEvent = originalGetActiveDowntimeEvent;
+            heartbeatService.getLastHeartbeat = originalGetLastHeartbeat;
+            downtimeService.createDowntimeEvent = originalCreateDowntimeEvent;
+            watcherService.isUnobserved = async () => false;
+        }
+    });
+
+    describe('checkReportedDowntime', () => {
+        const originals = {
+            getActiveDowntimeEvent: downtimeService.getActiveDowntimeEvent,
+            getRecentHeartbeats: heartbeatService.getRecentHeartbeats,
+            createDowntimeEvent: downtimeService.createDowntimeEvent,
+        };
+        let created: Array<{
+            startedAt: Date;
+            notes: string | null;
+            source?: string;
+            cause?: string | null;
+            planned?: boolean;
+        }>;
+
+        function reports(...statuses: string[]): HeartbeatRecord[] {
+            // Most recent first, one minute apart
+            return statuses.map(
+                (status, index) =>
+                    ({
+                        status,
+                        timestamp: new Date(Date.UTC(2025, 3, 1, 10, 10 - index)),
+                    }) as HeartbeatRecord
+            );
+        }
+
+        beforeEach(() => {
+            created = [];
+            downtimeService.getActiveDowntimeEvent = async () => null;
+            downtimeService.createDowntimeEvent = async (
+                _deviceId: number,
+                startedAt: Date,
+                notes: string | null = null,
+                source?: DowntimeSource,
+                cause?: DowntimeCause | null,
+                planned?: boolean
+            ) => {
+                created.push({ startedAt, notes, source, cause, planned });
+                return 42;
+            };
+        });
+
+        after(() => {
+            Object.assign(downtimeService, {
+                getActiveDowntimeEvent: originals.getActiveDowntimeEvent,
+                createDowntimeEvent: originals.createDowntimeEvent,
+            });
+            heartbeatService.getRecentHeartbeats = originals.getRecentHeartbeats;
+            delete process.env.DOWN_REPORT_THRESHOLD;
+        });
+
+        it('should open a reported downtime after consecutive non-up heartbeats', async () => {
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+            heartbeatService.getRecentHeartbeats = async () => reports('down', 'down', 'down');
+
+            const downtimeId = await monitor.checkReportedDowntime(device(1, 'home'));
+
+            assert.strictEqual(downtimeId, 42);
+            assert.deepStrictEqual(created, [
+                {
+                    startedAt: new Date('2025-04-01T10:08:00Z'),
+                    notes: 'Reported by the agent (connection_state: down)',
+                    source: 'reported_down',
+                    cause: 'wan_down',
+                    planned: false,
+                },
+            ]);
+        });
+
+        it('should record downtimes during maintenance as planned without alerting', async () => {
+            const originalIsEnabled = notificationService.isEnabled;
+            const originalSendReportedDowntimeAlert = notificationService.sendReportedDowntimeAlert;
+            let alerts = 0;
+            notificationService.isEnabled = () => true;
+            notificationService.sendReportedDowntimeAlert = async () => {
+                alerts++;
+            };
+            heartbeatService.getRecentHeartbeats = async () => reports('down', 'down', 'down');
+            maintenanceService.getActiveMaintenanceWindow = async () =>
+                ({ id: 3 }) as MaintenanceWindow;
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+
+            try {
+                assert.strictEqual(await monitor.checkReportedDowntime(device(1, 'home')), 42);
+                assert.strictEqual(created[0].planned, true);
+                assert.strictEqual(alerts, 0);
+            } finally {
+                maintenanceService.getActiveMaintenanceWindow = async () => null;
+                notificationService.isEnabled = originalIsEnabled;
+                notificationService.sendReportedDowntimeAlert = originalSendReportedDowntimeAlert;
+            }
+        });
+
+        it('should wait for enough consecutive reports', async () => {
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+
+            for (const recent of [reports('down', 'down'), reports('down', 'up', 'down')]) {
+                heartbeatService.getRecentHeartbeats = async () => recent;
+                assert.strictEqual(await monitor.checkReportedDowntime(device(1, 'home')), null);
+            }
+
+            assert.deepStrictEqual(created, []);
+        });
+
+        it('should not open a downtime while another one is active or when disabled', async () => {
+            heartbeatService.getRecentHeartbeats = async () => reports('down', 'down', 'down');
+            downtimeService.getActiveDowntimeEvent = async () => ({ id: 7 }) as DowntimeEvent;
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+
+            assert.strictEqual(await monitor.checkReportedDowntime(device(1, 'home')), null);
+
+            downtimeService.getActiveDowntimeEvent = async () => null;
+            process.env.DOWN_REPORT_THRESHOLD = '0';
+            const disabledMonitor = new DowntimeMonitor(fastify.log, notificationService);
+
+            assert.strictEqual(
+                await disabledMonitor.checkReportedDowntime(device(1, 'home')),
+                null
+            );
+            assert.deepStrictEqual(created, []);
+        });
+    });
+
+    describe('Flapping', () => {
+        const originals = {
+            getActiveDowntimeEvent: downtimeService.getActiveDowntimeEvent,
+            getRecentHeartbeats: heartbeatService.getRecentHeartbeats,
+            createDowntimeEvent: downtimeService.createDowntimeEvent,
+            getDevices: deviceService.getDevices,
+            getLastHeartbeat: heartbeatService.getLastHeartbeat,
+            createIncident: incidentService.createIncident,
+            attachDowntimeEvents: incidentService.attachDowntimeEvents,
+            getIncidentDowntimeEvents: incidentService.getIncidentDowntimeEvents,
+            endIncident: incidentService.endIncident,
+        };
+        let attached: Array<{ incidentId: number; downtimeIds: number[] }>;
+        let notified: string[];
+
+        function downtime(
+            id: number,
+            minutesAgo: number,
+            durationMinutes: number | null,
+            incidentId: number | null = null
+        ): DowntimeEvent {
+            const startedAt = new Date(Date.now() - minutesAgo * 60000);
+
+            return {
+                id,
+                device_id: 1,
+                started_at: startedAt,
+                ended_at:
+                    durationMinutes === null
+                        ? null
+                        : new Date(startedAt.getTime() + durationMinutes * 60000),
+                duration: durationMinutes === null ? null : durationMinutes * 60,
+                is_active: durationMinutes === null,
+                notes: null,
+                source: 'reported_down',
+                cause: null,
+                incident_id: incidentId,
+                planned: false,
+                unobserved: false,
+                cleared: false,
+                alert_sent_at: null,
+                escalation_count: 0,
+                escalated_at: null,
+                recovery_sent_at: null,
+            };
+        }
+
+        beforeEach(() => {
+            attached = [];
+            notified = [];
+            downtimeService.getActiveDowntimeEvent = async () => null;
+            downtimeService.createDowntimeEvent = async () => 50;
+            heartbeatService.getRecentHeartbeats = async () =>
+                ['down', 'down', 'down'].map(
+                    (status) => ({ status, timestamp: new Date() }) as HeartbeatRecord
+                );
+            incidentService.createIncident = async () => 9;
+            incidentService.attachDowntimeEvents = async (
+                incidentId: number,
+                downtimeIds: number[]
+            ) => {
+                attached.push({ incidentId, downtimeIds });
+            };
+            incidentService.endIncident = async () => {
+                notified.push('ended');
+            };
+            notificationService.isEnabled = () => true;
+            notificationService.sendReportedDowntimeAlert = async () => {
+                notified.push('downtime');
+            };
+            notificationService.sendFlappingAlert = async () => {
+                notified.push('flapping');
+            };
+            notificationService.sendIncidentSummary = async (
+                _data,
+                _endedAt,
+                downtimeCount: number,
+                totalDowntimeSeconds: number
+            ) => {
+                notified.push(`summary:${downtimeCount}:${totalDowntimeSeconds}`);
+            };
+        });
+
+        afterEach(() => {
+            incidentService.getActiveIncident = async () => null;
+            downtimeService.getDowntimeEventsInRange = async () => [];
+            delete process.env.FLAP_THRESHOLD;
+        });
+
+        after(() => {
+            Object.assign(downtimeService, {
+                getActiveDowntimeEvent: originals.getActiveDowntimeEvent,
+                createDowntimeEvent: originals.createDowntimeEvent,
+            });
+            Object.assign(heartbeatService, {
+                getRecentHeartbeats: originals.getRecentHeartbeats,
+                getLastHeartbeat: originals.getLastHeartbeat,
+            });
+            Object.assign(incidentService, {
+                createIncident: originals.createIncident,
+                attachDowntimeEvents: originals.attachDowntimeEvents,
+                getIncidentDowntimeEvents: originals.getIncidentDowntimeEvents,
+                endIncident: originals.endIncident,
+            });
+            Object.assign(notificationService, {
+                isEnabled: NotificationService.prototype.isEnabled,
+                sendReportedDowntimeAlert: NotificationService.prototype.sendReportedDowntimeAlert,
+                sendFlappingAlert: NotificationService.prototype.sendFlappingAlert,
+                sendIncidentSummary: NotificationService.prototype.sendIncidentSummary,
+            });
+            deviceService.getDevices = originals.getDevices;
+        });
+
+        it('should count transitions inside the window', () => {
+            const now = new Date();
+            const windowStart = new Date(now.getTime() - 60 * 60000);
+            const events = [downtime(1, 90, 40), downtime(2, 20, 5), downtime(3, 2, null)];
+
+            // End of the first, start and end of the second, start of the third
+            assert.strictEqual(countTransitions(events, windowStart, now), 4);
+        });
+
+        it('should open an incident and send a single flapping alert', async () => {
+            downtimeService.getDowntimeEventsInRange = async () =>
+                [
+                    downtime(50, 1, null),
+                    downtime(4, 10, 2),
+                    downtime(3, 20, 2),
+                    downtime(2, 70, 1, 8),
+                ].map((event) => ({ ...event, full_duration: 0, clipped_duration: 0 }));
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+
+            await monitor.checkReportedDowntime(device(1, 'home'));
+
+            assert.deepStrictEqual(attached, [{ incidentId: 9, downtimeIds: [50, 4, 3] }]);
+            assert.deepStrictEqual(notified, ['flapping']);
+        });
+
+        it('should keep notifying downtimes below the threshold or when disabled', async () => {
+            downtimeService.getDowntimeEventsInRange = async () =>
+                [downtime(50, 1, null), downtime(4, 10, 2)].map((event) => ({
+                    ...event,
+                    full_duration: 0,
+                    clipped_duration: 0,
+                }));
+
+            await new DowntimeMonitor(fastify.log, notificationService).checkReportedDowntime(
+                device(1, 'home')
+            );
+
+            incidentService.getActiveIncident = async () => ({ id: 9 }) as Incident;
+            process.env.FLAP_THRESHOLD = '0';
+            await new DowntimeMonitor(fastify.log, notificationService).checkReportedDowntime(
+                device(1, 'home')
+            );
+
+            assert.deepStrictEqual(attached, []);
+            assert.deepStrictEqual(notified, ['downtime', 'downtime']);
+        });
+
+        it('should group downtimes silently into the active incident', async () => {
+            incidentService.getActiveIncident = async () => ({ id: 9 }) as Incident;
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+
+            await monitor.checkReportedDowntime(device(1, 'home'));
+
+            assert.deepStrictEqual(attached, [{ incidentId: 9, downtimeIds: [50] }]);
+            assert.deepStrictEqual(notified, []);
+        });
+
+        it('should end the incident with a summary once the line is stable', async () => {
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+            deviceService.getDevices = async () => [device(1, 'home')];
+            heartbeatService.getLastHeartbeat = async () => null;
+            incidentService.getActiveIncident = async () =>
+                ({ id: 9, started_at: new Date(Date.now() - 120 * 60000) }) as Incident;
+
+            // Last recovery 10 minutes ago, within the 30 minute stable period
+            incidentService.getIncidentDowntimeEvents = async () => [
+                downtime(3, 60, 2, 9),
+                downtime(4, 12, 2, 9),
+            ];
+            await (monitor as any).checkDowntime();
+            assert.deepStrictEqual(notified, []);
+
+            incidentService.getIncidentDowntimeEvents = async () => [
+                downtime(3, 90, 2, 9),
+                downtime(4, 45, 3, 9),
+            ];
+            await (monitor as any).checkDowntime();
+            assert.deepStrictEqual(notified, ['ended', 'summary:2:300']);
+        });
+    });
+
+    describe('Notification state', () => {
+        const originals = {
+            getDevices: deviceService.getDevices,
+            getActiveDowntimeEvent: downtimeService.getActiveDowntimeEvent,
+            getLastHeartbeat: heartbeatService.getLastHeartbeat,
+        };
+        let sent: string[];
+
+        beforeEach(() => {
+            sent = [];
+            deviceService.getDevices = async () => [device(1, 'home')];
+            heartbeatService.getLastHeartbeat = async () => null;
+            notificationService.isEnabled = () => true;
+            notificationService.sendDowntimeConfirmedAlert = async (data, _delayMs, escalation) => {
+                sent.push(
+                    `escalation:${data.downtimeId}:${escalation?.stageNumber}:${escalation?.reminder}`
+                );
+            };
+            notificationService.sendRecoveryAlert = async (
+                downtimeId: number,
+                _startedAt: Date,
+                _endedAt: Date,
+                _device?: string,
+                cause?: DowntimeCause
+            ) => {
+                sent.push(`recovery:${downtimeId}:${cause}`);
+            };
+        });
+
+        afterEach(() => {
+            downtimeService.claimNotification = async () => true;
+            downtimeService.getPendingRecoveryEvents = async () => [];
+            downtimeService.claimEscalation = async () => true;
+            delete process.env.ESCALATION_POLICY;
+        });
+
+        after(() => {
+            deviceService.getDevices = originals.getDevices;
+            downtimeService.getActiveDowntimeEvent = originals.getActiveDowntimeEvent;
+            heartbeatService.getLastHeartbeat = originals.getLastHeartbeat;
+            Object.assign(notificationService, {
+                isEnabled: NotificationService.prototype.isEnabled,
+                sendDowntimeConfirmedAlert:
+                    NotificationService.prototype.sendDowntimeConfirmedAlert,
+                sendRecoveryAlert: NotificationService.prototype.sendRecoveryAlert,
+            });
+        });
+
+        it('should not confirm again a downtime whose confirmation was already sent', async () => {
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+            const startedAt = new Date(Date.now() - 2 * (monitor as any).confirmationDelayMs);
+            const claims: Array<{ id: number; sentCount: number; dueCount: number }> = [];
+
+            downtimeService.getActiveDowntimeEvent = async () =>
+                ({ id: 77, started_at: startedAt, escalation_count: 1 }) as DowntimeEvent;
+            await (monitor as any).checkDowntime();
+
+            // Another instance or a previous run claimed the confirmation first
+            downtimeService.getActiveDowntimeEvent = async () =>
+                ({ id: 78, started_at: startedAt, escalation_count: 0 }) as DowntimeEvent;
+            downtimeService.claimEscalation = async (id, sentCount, dueCount) => {
+                claims.push({ id, sentCount, dueCount });
+                return false;
+            };
+            await (monitor as any).checkDowntime();
+
+            assert.deepStrictEqual(claims, [{ id: 78, sentCount: 0, dueCount: 1 }]);
+            assert.deepStrictEqual(sent, []);
+        });
+
+        it('should only send the latest due step of the escalation ladder', async () => {
+            process.env.ESCALATION_POLICY = JSON.stringify([
+                { after: 5 * 60000 },
+                { after: 30 * 60000, repeat: 10 * 60000 },
+                { after: 2 * 3600000 },
+            ]);
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+
+            // Down for 55 minutes with only the first stage sent
+            downtimeService.getActiveDowntimeEvent = async () =>
+                ({
+                    id: 80,
+                    started_at: new Date(Date.now() - 55 * 60000),
+                    escalation_count: 1,
+                }) as DowntimeEvent;
+            await (monitor as any).checkDowntime();
+
+            assert.deepStrictEqual(sent, ['escalation:80:2:2']);
+        });
+
+        it('should alert on planned downtimes once their maintenance is over', async () => {
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+            notificationService.sendMaintenanceOverrunAlert = async (data) => {
+                sent.push(`overrun:${data.downtimeId}`);
+            };
+
+            downtimeService.getActiveDowntimeEvent = async () =>
+                ({
+                    id: 81,
+                    started_at: new Date(Date.now() - 2 * (monitor as any).confirmationDelayMs),
+                    escalation_count: 0,
+                    planned: true,
+                }) as DowntimeEvent;
+
+            try {
+                maintenanceService.getActiveMaintenanceWindow = async () =>
+                    ({ id: 1 }) as MaintenanceWindow;
+                await (monitor as any).checkDowntime();
+                assert.deepStrictEqual(sent, []);
+
+                maintenanceService.getActiveMaintenanceWindow = async () => null;
+                await (monitor as any).checkDowntime();
+                assert.deepStrictEqual(sent, ['overrun:81', 'escalation:81:1:0']);
+            } finally {
+                maintenanceService.getActiveMaintenanceWindow = async () => null;
+                notificationService.sendMaintenanceOverrunAlert =
+                    NotificationService.prototype.sendMaintenanceOverrunAlert;
+            }
+        });
+
+        it('should send the recoveries missed while the process was down', async () => {
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+            const startedAt = new Date(Date.now() - 60 * 60000);
+
+            downtimeService.getActiveDowntimeEvent = async () => null;
+            downtimeService.getPendingRecoveryEvents = async () =>
+                [5, 6].map(
+                    (id) =>
+                        ({
+                            id,
+                            started_at: startedAt,
+                            ended_at: new Date(),
+                            cause: 'ip_change',
+                        }) as DowntimeEvent
+                );
+            downtimeService.claimNotification = async (id) => id === 6;
+
+            await (monitor as any).checkDowntime();
+
+            assert.deepStrictEqual(sent, ['recovery:6:ip_change']);
+        });
+
+        it('should send a false alarm notice for alerted downtimes that were cleared', async () => {
+            const monitor = new DowntimeMonitor(fastify.log, notificationService);
+            const startedAt = new Date(Date.now() - 60 * 60000);
+            notificationService.sendFalseAlarmAlert = async (downtimeId) => {
+                sent.push(`false_alarm:${downtimeId}`);
+            };
+
+            downtimeService.getPendingRecoveryEvents = async () => [
+                {
+                    id: 7,
+                    started_at: startedAt,
+                    ended_at: new Date(),
+                    cleared: false,
+                } as DowntimeEvent,
+                {
+                    id: 8,
+                    started_at: startedAt,
+                    ended_at: startedAt,
+                    cleared: true,
+                } as DowntimeEvent,
+            ];
+
+            try {
+                await monitor.sendPendingRecoveries(device(1, 'home'));
+                assert.deepStrictEqual(sent, ['recovery:7:undefined', 'false_alarm:8']);
+            } finally {
+                notificationService.sendFalseAlarmAlert =
+                    NotificationService.prototype.sendFalseAlarmAlert;
+            }
+        });
+    });
 });
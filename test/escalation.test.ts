@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+    getDueEscalation,
+    parseEscalationPolicy,
+    renderEscalationTemplate,
+} from '../src/services/escalation.js';
+
+describe('Escalation policy', () => {
+    describe('parseEscalationPolicy', () => {
+        it('should confirm downtimes after the confirmation delay by default', () => {
+            assert.deepStrictEqual(parseEscalationPolicy(undefined, 1800000), [
+                {
+                    after: 1800000,
+                    repeat: null,
+                    channel: 'telegram',
+                    recipients: null,
+                    template: null,
+                },
+            ]);
+        });
+
+        it('should parse stages and order them by delay', () => {
+            const policy = parseEscalationPolicy(
+                JSON.stringify([
+                    {
+                        after: 7200000,
+                        channel: 'discord',
+                        recipients: ['https://example.com/hook'],
+                    },
+                    { after: 300000, template: 'Down since {started_at}' },
+                ]),
+                1800000
+            );
+
+            assert.deepStrictEqual(policy, [
+                {
+                    after: 300000,
+                    repeat: null,
+                    channel: 'telegram',
+                    recipients: null,
+                    template: 'Down since {started_at}',
+                },
+                {
+                    after: 7200000,
+                    repeat: null,
+                    channel: 'discord',
+                    recipients: ['https://example.com/hook'],
+                    template: null,
+                },
+            ]);
+        });
+
+        it('should reject invalid policies', () => {
+            for (const value of [
+                'not json',
+                '[]',
+                '{"after":300000}',
+                '[{"after":-1}]',
+                '[{"after":300000,"repeat":0}]',
+                '[{"after":300000,"channel":"sms"}]',
+                '[{"after":300000,"recipients":[]}]',
+                '[{"after":300000,"template":42}]',
+            ]) {
+                assert.throws(() => parseEscalationPolicy(value, 1800000), /ESCALATION_POLICY/);
+            }
+        });
+    });
+
+    describe('getDueEscalation', () => {
+        const minute = 60000;
+        const policy = parseEscalationPolicy(
+            JSON.stringify([
+                { after: 5 * minute },
+                { after: 30 * minute, repeat: 10 * minute },
+                { after: 120 * minute, repeat: 24 * 60 * minute },
+            ]),
+            0
+        );
+
+        it('should not escalate before the first stage', () => {
+            assert.strictEqual(getDueEscalation(policy, 4 * minute), null);
+        });
+
+        it('should count every stage and reminder due so far', () => {
+            assert.deepStrictEqual(getDueEscalation(policy, 5 * minute), {
+                count: 1,
+                stageIndex: 0,
+                reminder: 0,
+            });
+            assert.deepStrictEqual(getDueEscalation(policy, 55 * minute), {
+                count: 4,
+                stageIndex: 1,
+                reminder: 2,
+            });
+        });
+
+        it('should stop the reminders of a stage when the next one starts', () => {
+            // Stage 2 reminders at 40 to 110 minutes, then stage 3 and daily reminders
+            assert.deepStrictEqual(getDueEscalation(policy, 120 * minute), {
+                count: 11,
+                stageIndex: 2,
+                reminder: 0,
+            });
+            assert.deepStrictEqual(getDueEscalation(policy, (120 + 24 * 60) * minute), {
+                count: 12,
+                stageIndex: 2,
+                reminder: 1,
+            });
+        });
+    });
+
+    describe('renderEscalationTemplate', () => {
+        it('should fill known placeholders and keep unknown ones', () => {
+            const message = renderEscalationTemplate(
+                '{device} down for {duration} min (stage {stage}, #{id}) {unknown}',
+                {
+                    id: 12,
+                    device: 'home',
+                    started_at: '2025-03-04T01:00:00.000Z',
+                    duration: 125,
+                    stage: 3,
+                    reminder: 0,
+                }
+            );
+
+            assert.strictEqual(message, 'home down for 125 min (stage 3, #12) {unknown}');
+        });
+    });
+});
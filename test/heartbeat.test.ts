@@ -2,11 +2,28 @@ import { describe, it, before, after } from 'node:test';
 import assert from 'node:assert';
 import Fastify, { type FastifyInstance } from 'fastify';
 import { heartbeatRoutes } from '../src/routes/heartbeat.js';
-import { type HeartbeatInput } from '../src/services/heartbeat.js';
+import heartbeatService, {
+    type HeartbeatInput,
+    type HeartbeatQuery,
+} from '../src/services/heartbeat.js';
 import { NotificationService } from '../src/services/notification.js';
 import { DowntimeMonitor } from '../src/services/downtimeMonitor.js';
+import { ClockDriftMonitor } from '../src/services/clockDrift.js';
+import { DegradationMonitor } from '../src/services/degradation.js';
+import { IpChangeMonitor } from '../src/services/ipChangeMonitor.js';
+import { BackupMonitor } from '../src/services/backupMonitor.js';
 import { registerRawBodyCapture } from '../src/middleware/rawBodyCapture.js';
-import { computeHmac, getCurrentTimestamp, generateNonce } from './helpers.js';
+import {
+    buildAuthHeaders,
+    computeHmac,
+    computeResponseHmac,
+    getCurrentTimestamp,
+    generateNonce,
+} from './helpers.js';
+import { encodeCursor } from '../src/utils/query.js';
+import downtimeService, { type DowntimeEvent } from '../src/services/downtime.js';
+import reconciliationService from '../src/services/reconciliation.js';
+import deviceService, { type Device } from '../src/services/device.js';
 
 interface HeartbeatResponseBody {
     success?: boolean;
@@ -14,6 +31,14 @@ interface HeartbeatResponseBody {
     id?: number;
 }
 
+const defaultDevice: Device = {
+    id: 1,
+    name: 'default',
+    label: null,
+    heartbeat_timeout: null,
+    created_at: new Date('2025-01-01T00:00:00Z'),
+};
+
 describe('Heartbeat Routes', () => {
     let fastify: FastifyInstance;
     const testApiSecret = 'test-heartbeat-secret-32-chars-long';
@@ -32,6 +57,16 @@ describe('Heartbeat Routes', () => {
         const downtimeMonitor = new DowntimeMonitor(fastify.log, notificationService);
         fastify.decorate('notificationService', notificationService);
         fastify.decorate('downtimeMonitor', downtimeMonitor);
+        fastify.decorate(
+            'clockDriftMonitor',
+            new ClockDriftMonitor(fastify.log, notificationService)
+        );
+        fastify.decorate(
+            'degradationMonitor',
+            new DegradationMonitor(fastify.log, notificationService)
+        );
+        fastify.decorate('ipChangeMonitor', new IpChangeMonitor(fastify.log, notificationService));
+        fastify.decorate('backupMonitor', new BackupMonitor(fastify.log, notificationService));
 
         await fastify.register(heartbeatRoutes);
         await fastify.ready();
@@ -147,6 +182,482 @@ describe('Heartbeat Routes', () => {
         assert.strictEqual(body.success, true);
         assert.ok(body.id);
     });
+
+    it('should end the active downtime even when the IP change monitor fails', async () => {
+        const originalGetDeviceByName = deviceService.getDeviceByName;
+        const originalRecordHeartbeat = heartbeatService.recordHeartbeat;
+        const originalGetActiveDowntimeEvent = downtimeService.getActiveDowntimeEvent;
+        const originalEndDowntimeEvent = downtimeService.endDowntimeEvent;
+        const originalGetHeartbeatBefore = heartbeatService.getHeartbeatBefore;
+        const originalGetLastHeartbeat = heartbeatService.getLastHeartbeat;
+        const originalSendPendingRecoveries = fastify.downtimeMonitor.sendPendingRecoveries;
+        const originalCheckIpChanges = fastify.ipChangeMonitor.checkHeartbeats;
+        const ended: number[] = [];
+
+        deviceService.getDeviceByName = async () => defaultDevice;
+        heartbeatService.recordHeartbeat = async () => 600;
+        downtimeService.getActiveDowntimeEvent = async () =>
+            ({
+                id: 9,
+                started_at: new Date(Date.now() - 600000),
+                source: 'heartbeat_silence',
+            }) as DowntimeEvent;
+        downtimeService.endDowntimeEvent = async (id: number) => {
+            ended.push(id);
+        };
+        heartbeatService.getHeartbeatBefore = async () => null;
+        heartbeatService.getLastHeartbeat = async () => null;
+        fastify.downtimeMonitor.sendPendingRecoveries = async () => {};
+        fastify.ipChangeMonitor.checkHeartbeats = async () => {
+            throw new Error('ip_changes table unavailable');
+        };
+
+        try {
+            const bodyString = JSON.stringify({
+                connection_state: 'up',
+                timestamp: new Date().toISOString(),
+                ipv4: '198.51.100.7',
+            });
+            const response = await fastify.inject({
+                method: 'POST',
+                url: '/heartbeat',
+                headers: buildAuthHeaders('POST', '/heartbeat', bodyString, testApiSecret),
+                payload: bodyString,
+            });
+
+            assert.strictEqual(response.statusCode, 200);
+            assert.deepStrictEqual(ended, [9]);
+        } finally {
+            deviceService.getDeviceByName = originalGetDeviceByName;
+            heartbeatService.recordHeartbeat = originalRecordHeartbeat;
+            downtimeService.getActiveDowntimeEvent = originalGetActiveDowntimeEvent;
+            downtimeService.endDowntimeEvent = originalEndDowntimeEvent;
+            heartbeatService.getHeartbeatBefore = originalGetHeartbeatBefore;
+            heartbeatService.getLastHeartbeat = originalGetLastHeartbeat;
+            fastify.downtimeMonitor.sendPendingRecoveries = originalSendPendingRecoveries;
+            fastify.ipChangeMonitor.checkHeartbeats = originalCheckIpChanges;
+        }
+    });
+
+    it('should end the active downtime even when the clock drift monitor fails', async () => {
+        const originalGetDeviceByName = deviceService.getDeviceByName;
+        const originalRecordHeartbeat = heartbeatService.recordHeartbeat;
+        const originalGetActiveDowntimeEvent = downtimeService.getActiveDowntimeEvent;
+        const originalEndDowntimeEvent = downtimeService.endDowntimeEvent;
+        const originalGetHeartbeatBefore = heartbeatService.getHeartbeatBefore;
+        const originalGetLastHeartbeat = heartbeatService.getLastHeartbeat;
+        const originalSendPendingRecoveries = fastify.downtimeMonitor.sendPendingRecoveries;
+        const originalCheckDrift = fastify.clockDriftMonitor.checkDrift;
+        const ended: number[] = [];
+
+        deviceService.getDeviceByName = async () => defaultDevice;
+        heartbeatService.recordHeartbeat = async () => 600;
+        downtimeService.getActiveDowntimeEvent = async () =>
+            ({
+                id: 9,
+                started_at: new Date(Date.now() - 600000),
+                source: 'heartbeat_silence',
+            }) as DowntimeEvent;
+        downtimeService.endDowntimeEvent = async (id: number) => {
+            ended.push(id);
+        };
+        heartbeatService.getHeartbeatBefore = async () => null;
+        heartbeatService.getLastHeartbeat = async () => null;
+        fastify.downtimeMonitor.sendPendingRecoveries = async () => {};
+        fastify.clockDriftMonitor.checkDrift = async () => {
+            throw new Error('Telegram unavailable');
+        };
+
+        try {
+            const bodyString = JSON.stringify({
+                connection_state: 'up',
+                timestamp: new Date().toISOString(),
+            });
+            const response = await fastify.inject({
+                method: 'POST',
+                url: '/heartbeat',
+                headers: buildAuthHeaders('POST', '/heartbeat', bodyString, testApiSecret),
+                payload: bodyString,
+            });
+
+            assert.strictEqual(response.statusCode, 200);
+            assert.deepStrictEqual(ended, [9]);
+        } finally {
+            deviceService.getDeviceByName = originalGetDeviceByName;
+            heartbeatService.recordHeartbeat = originalRecordHeartbeat;
+            downtimeService.getActiveDowntimeEvent = originalGetActiveDowntimeEvent;
+            downtimeService.endDowntimeEvent = originalEndDowntimeEvent;
+            heartbeatService.getHeartbeatBefore = originalGetHeartbeatBefore;
+            heartbeatService.getLastHeartbeat = originalGetLastHeartbeat;
+            fastify.downtimeMonitor.sendPendingRecoveries = originalSendPendingRecoveries;
+            fastify.clockDriftMonitor.checkDrift = originalCheckDrift;
+        }
+    });
+
+    describe('POST /heartbeats/batch', () => {
+        it('should reject batches without authentication', async () => {
+            const response = await fastify.inject({
+                method: 'POST',
+                url: '/heartbeats/batch',
+                payload: [{ connection_state: 'up', timestamp: new Date().toISOString() }],
+            });
+
+            assert.strictEqual(response.statusCode, 401);
+        });
+
+        it('should record valid items, reject invalid ones and reconcile downtime', async () => {
+            const originalGetDeviceByName = deviceService.getDeviceByName;
+            const originalRecordHeartbeats = heartbeatService.recordHeartbeats;
+            const originalGetActiveDowntimeEvent = downtimeService.getActiveDowntimeEvent;
+            const originalReconcile = reconciliationService.reconcileDowntimeEvents;
+
+            const recorded: HeartbeatInput[][] = [];
+            const reconciled: Array<{
+                deviceId: number;
+                from: Date;
+                to: Date;
+                timeoutMs: number;
+            }> = [];
+
+            deviceService.getDeviceByName = async (name: string) =>
+                name === 'default' ? defaultDevice : null;
+            heartbeatService.recordHeartbeats = async (
+                heartbeats: HeartbeatInput[],
+                deviceId: number
+            ) => {
+                assert.strictEqual(deviceId, defaultDevice.id);
+                recorded.push(heartbeats);
+                return heartbeats.map((_, index) => 500 + index);
+            };
+            downtimeService.getActiveDowntimeEvent = async () => null;
+            reconciliationService.reconcileDowntimeEvents = async (
+                deviceId: number,
+                from: Date,
+                to: Date,
+                timeoutMs: number
+            ) => {
+                reconciled.push({ deviceId, from, to, timeoutMs });
+                return { updated: [3], created: [], cleared: [] };
+            };
+
+            try {
+                const bodyString = JSON.stringify([
+                    { connection_state: 'down', timestamp: '2025-04-01T10:10:00Z' },
+                    { connection_state: 'up' },
+                    { connection_state: 'up', timestamp: 'not-a-date' },
+                    { connection_state: 'up', timestamp: '2025-04-01T10:20:00Z', rate_down: 'x' },
+                    { connection_state: 'up', timestamp: '2025-04-01T10:15:00Z' },
+                ]);
+                const response = await fastify.inject({
+                    method: 'POST',
+                    url: '/heartbeats/batch',
+                    headers: buildAuthHeaders(
+                        'POST',
+                        '/heartbeats/batch',
+                        bodyString,
+                        testApiSecret
+                    ),
+                    payload: bodyString,
+                });
+
+                assert.strictEqual(response.statusCode, 200);
+                const body = JSON.parse(response.body) as {
+                    accepted: number;
+                    rejected: number;
+                    results: Array<{ index: number; accepted: boolean; id?: number }>;
+                    reconciliation: { updated: number[] };
+                };
+
+                assert.strictEqual(body.accepted, 2);
+                assert.strictEqual(body.rejected, 3);
+                assert.deepStrictEqual(
+                    body.results.map((result) => [result.index, result.accepted, result.id]),
+                    [
+                        [0, true, 500],
+                        [1, false, undefined],
+                        [2, false, undefined],
+                        [3, false, undefined],
+                        [4, true, 501],
+                    ]
+                );
+                assert.strictEqual(recorded[0].length, 2);
+                assert.deepStrictEqual(body.reconciliation.updated, [3]);
+                assert.strictEqual(reconciled[0].deviceId, defaultDevice.id);
+                assert.deepStrictEqual(reconciled[0].from, new Date('2025-04-01T10:10:00Z'));
+                assert.deepStrictEqual(reconciled[0].to, new Date('2025-04-01T10:15:00Z'));
+            } finally {
+                deviceService.getDeviceByName = originalGetDeviceByName;
+                heartbeatService.recordHeartbeats = originalRecordHeartbeats;
+                downtimeService.getActiveDowntimeEvent = originalGetActiveDowntimeEvent;
+                reconciliationService.reconcileDowntimeEvents = originalReconcile;
+            }
+        });
+
+        it('should still reconcile the batch when the backup monitor fails', async () => {
+            const originalGetDeviceByName = deviceService.getDeviceByName;
+            const originalRecordHeartbeats = heartbeatService.recordHeartbeats;
+            const originalGetActiveDowntimeEvent = downtimeService.getActiveDowntimeEvent;
+            const originalReconcile = reconciliationService.reconcileDowntimeEvents;
+            const originalCheckBackup = fastify.backupMonitor.checkHeartbeats;
+            let reconciled = 0;
+
+            deviceService.getDeviceByName = async () => defaultDevice;
+            heartbeatService.recordHeartbeats = async (heartbeats: HeartbeatInput[]) =>
+                heartbeats.map((_, index) => 700 + index);
+            downtimeService.getActiveDowntimeEvent = async () => null;
+            reconciliationService.reconcileDowntimeEvents = async () => {
+                reconciled++;
+                return { updated: [], created: [], cleared: [] };
+            };
+            fastify.backupMonitor.checkHeartbeats = async () => {
+                throw new Error('backup_events table unavailable');
+            };
+
+            try {
+                const bodyString = JSON.stringify([
+                    {
+                        connection_state: 'up',
+                        timestamp: '2025-04-01T10:00:00Z',
+                        media_state: 'backup_4g',
+                    },
+                ]);
+                const response = await fastify.inject({
+                    method: 'POST',
+                    url: '/heartbeats/batch',
+                    headers: buildAuthHeaders(
+                        'POST',
+                        '/heartbeats/batch',
+                        bodyString,
+                        testApiSecret
+                    ),
+                    payload: bodyString,
+                });
+
+                assert.strictEqual(response.statusCode, 200);
+                assert.strictEqual(reconciled, 1);
+            } finally {
+                deviceService.getDeviceByName = originalGetDeviceByName;
+                heartbeatService.recordHeartbeats = originalRecordHeartbeats;
+                downtimeService.getActiveDowntimeEvent = originalGetActiveDowntimeEvent;
+                reconciliationService.reconcileDowntimeEvents = originalReconcile;
+                fastify.backupMonitor.checkHeartbeats = originalCheckBackup;
+            }
+        });
+
+        it('should only send the recovery alerts once the batch is reconciled', async () => {
+            const originalGetDeviceByName = deviceService.getDeviceByName;
+            const originalRecordHeartbeats = heartbeatService.recordHeartbeats;
+            const originalGetActiveDowntimeEvent = downtimeService.getActiveDowntimeEvent;
+            const originalReconcile = reconciliationService.reconcileDowntimeEvents;
+            const originalSendPendingRecoveries = fastify.downtimeMonitor.sendPendingRecoveries;
+            const calls: string[] = [];
+
+            deviceService.getDeviceByName = async () => defaultDevice;
+            heartbeatService.recordHeartbeats = async (heartbeats: HeartbeatInput[]) =>
+                heartbeats.map((_, index) => 800 + index);
+            downtimeService.getActiveDowntimeEvent = async () => null;
+            reconciliationService.reconcileDowntimeEvents = async () => {
+                calls.push('reconcile');
+                return { updated: [], created: [], cleared: [12] };
+            };
+            fastify.downtimeMonitor.sendPendingRecoveries = async () => {
+                calls.push('recoveries');
+            };
+
+            try {
+                const bodyString = JSON.stringify([
+                    { connection_state: 'up', timestamp: '2025-04-01T10:00:00Z' },
+                    { connection_state: 'up', timestamp: '2025-04-01T10:01:00Z' },
+                ]);
+                const response = await fastify.inject({
+                    method: 'POST',
+                    url: '/heartbeats/batch',
+                    headers: buildAuthHeaders(
+                        'POST',
+                        '/heartbeats/batch',
+                        bodyString,
+                        testApiSecret
+                    ),
+                    payload: bodyString,
+                });
+
+                assert.strictEqual(response.statusCode, 200);
+                assert.deepStrictEqual(calls, ['reconcile', 'recoveries']);
+            } finally {
+                deviceService.getDeviceByName = originalGetDeviceByName;
+                heartbeatService.recordHeartbeats = originalRecordHeartbeats;
+                downtimeService.getActiveDowntimeEvent = originalGetActiveDowntimeEvent;
+                reconciliationService.reconcileDowntimeEvents = originalReconcile;
+                fastify.downtimeMonitor.sendPendingRecoveries = originalSendPendingRecoveries;
+            }
+        });
+
+        it('should reject empty batches', async () => {
+            const bodyString = '[]';
+            const response = await fastify.inject({
+                method: 'POST',
+                url: '/heartbeats/batch',
+                headers: buildAuthHeaders('POST', '/heartbeats/batch', bodyString, testApiSecret),
+                payload: bodyString,
+            });
+
+            assert.strictEqual(response.statusCode, 400);
+        });
+    });
+
+    describe('GET /heartbeats', () => {
+        it('should reject listing without authentication', async () => {
+            const response = await fastify.inject({
+                method: 'GET',
+                url: '/heartbeats',
+            });
+
+            assert.strictEqual(response.statusCode, 401);
+        });
+
+        it('should pass filters and pagination to the service', async () => {
+            const originalQueryHeartbeats = heartbeatService.queryHeartbeats;
+            const queries: HeartbeatQuery[] = [];
+            const cursor = encodeCursor({ timestamp: new Date('2025-01-01T00:00:00Z'), id: 12 });
+
+            heartbeatService.queryHeartbeats = async (query: HeartbeatQuery) => {
+                queries.push(query);
+                return {
+                    data: [{ id: 11, timestamp: new Date('2024-12-31T23:59:00Z'), status: 'up' }],
+                    next_cursor: null,
+                };
+            };
+
+            try {
+                const path = `/heartbeats?from=2024-12-01T00:00:00Z&status=up&fields=status,rate_down&limit=10&order=asc&cursor=${cursor}`;
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: path,
+                    headers: buildAuthHeaders('GET', path, '', testApiSecret),
+                });
+
+                assert.strictEqual(response.statusCode, 200);
+                const body = JSON.parse(response.body) as { data: unknown[]; next_cursor: null };
+                assert.strictEqual(body.data.length, 1);
+                assert.strictEqual(body.next_cursor, null);
+
+                assert.strictEqual(queries.length, 1);
+                assert.deepStrictEqual(queries[0].from, new Date('2024-12-01T00:00:00Z'));
+                assert.strictEqual(queries[0].to, undefined);
+                assert.strictEqual(queries[0].status, 'up');
+                assert.deepStrictEqual(queries[0].fields, ['status', 'rate_down']);
+                assert.strictEqual(queries[0].limit, 10);
+                assert.strictEqual(queries[0].order, 'asc');
+                assert.deepStrictEqual(queries[0].cursor, {
+                    timestamp: new Date('2025-01-01T00:00:00Z'),
+                    id: 12,
+                });
+            } finally {
+                heartbeatService.queryHeartbeats = originalQueryHeartbeats;
+            }
+        });
+
+        it('should reject unknown fields', async () => {
+            const path = '/heartbeats?fields=status,secret';
+            const response = await fastify.inject({
+                method: 'GET',
+                url: path,
+                headers: buildAuthHeaders('GET', path, '', testApiSecret),
+            });
+
+            assert.strictEqual(response.statusCode, 400);
+        });
+
+        it('should reject malformed cursors and dates', async () => {
+            for (const path of ['/heartbeats?cursor=not-a-cursor', '/heartbeats?to=yesterday']) {
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: path,
+                    headers: buildAuthHeaders('GET', path, '', testApiSecret),
+                });
+
+                assert.strictEqual(response.statusCode, 400);
+            }
+        });
+
+        it('should filter by device and reject unknown devices', async () => {
+            const originalGetDeviceByName = deviceService.getDeviceByName;
+            const originalQueryHeartbeats = heartbeatService.queryHeartbeats;
+            const queries: HeartbeatQuery[] = [];
+
+            deviceService.getDeviceByName = async (name: string) =>
+                name === 'office' ? { ...defaultDevice, id: 3, name: 'office' } : null;
+            heartbeatService.queryHeartbeats = async (query: HeartbeatQuery) => {
+                queries.push(query);
+                return { data: [], next_cursor: null };
+            };
+
+            try {
+                const officePath = '/heartbeats?device=office';
+                const officeResponse = await fastify.inject({
+                    method: 'GET',
+                    url: officePath,
+                    headers: buildAuthHeaders('GET', officePath, '', testApiSecret),
+                });
+
+                assert.strictEqual(officeResponse.statusCode, 200);
+                assert.strictEqual(queries[0].deviceId, 3);
+
+                const unknownPath = '/heartbeats?device=garage';
+                const unknownResponse = await fastify.inject({
+                    method: 'GET',
+                    url: unknownPath,
+                    headers: buildAuthHeaders('GET', unknownPath, '', testApiSecret),
+                });
+
+                assert.strictEqual(unknownResponse.statusCode, 400);
+                assert.strictEqual(queries.length, 1);
+            } finally {
+                deviceService.getDeviceByName = originalGetDeviceByName;
+                heartbeatService.queryHeartbeats = originalQueryHeartbeats;
+            }
+        });
+    });
+
+    describe('Signed responses', () => {
+        it('should sign responses to authenticated requests', async () => {
+            const bodyString = '{"connection_state":"up","timestamp":"invalid-timestamp"}';
+            const headers = buildAuthHeaders('POST', '/heartbeat', bodyString, testApiSecret);
+
+            const response = await fastify.inject({
+                method: 'POST',
+                url: '/heartbeat',
+                headers,
+                payload: bodyString,
+            });
+
+            const timestamp = response.headers['signature-timestamp'] as string;
+            assert.strictEqual(response.statusCode, 400);
+            assert.strictEqual(response.headers['signature-nonce'], headers['signature-nonce']);
+            assert.ok(Math.abs(Number(timestamp) - Number(getCurrentTimestamp())) <= 1);
+            assert.strictEqual(
+                response.headers.signature,
+                computeResponseHmac(
+                    400,
+                    timestamp,
+                    headers['signature-nonce'],
+                    response.body,
+                    testApiSecret
+                )
+            );
+        });
+
+        it('should not sign responses to unauthenticated requests', async () => {
+            const response = await fastify.inject({
+                method: 'POST',
+                url: '/heartbeat',
+                payload: { connection_state: 'up', timestamp: new Date().toISOString() },
+            });
+
+            assert.strictEqual(response.statusCode, 401);
+            assert.strictEqual(response.headers.signature, undefined);
+        });
+    });
 });
 
 describe('HeartbeatService', () => {
@@ -1,9 +1,30 @@
-import { createHash, createHmac, randomBytes } from 'node:crypto';
+import { createHash, createHmac, randomBytes, sign, type KeyObject } from 'node:crypto';
 
 /**
  * Shared test helpers for authentication testing
  */
 
+/**
+ * Helper function to build the canonical message signed by clients
+ * @param method HTTP method (GET, POST, etc.)
+ * @param path Request path
+ * @param timestamp Unix timestamp as string
+ * @param nonce Random nonce
+ * @param body Request body as string (empty string for GET requests)
+ * @returns The canonical message
+ */
+export function buildCanonicalMessage(
+    method: string,
+    path: string,
+    timestamp: string,
+    nonce: string,
+    body: string = ''
+): string {
+    // Hash the body with SHA256 for inclusion in canonical message
+    const bodyHash = createHash('sha256').update(body).digest('base64url');
+    return `method=${method.toUpperCase()};path=${path};ts=${timestamp};nonce=${nonce};body_sha256=${bodyHash}`;
+}
+
 /**
  * Helper function to compute HMAC signature
  * @param method HTTP method (GET, POST, etc.)
@@ -22,9 +43,28 @@ export function computeHmac(
     body: string = '',
     secret: string
 ): string {
-    // Hash the body with SHA256 for inclusion in canonical message
+    const message = buildCanonicalMessage(method, path, timestamp, nonce, body);
+    return createHmac('sha256', secret).update(message).digest('base64url');
+}
+
+/**
+ * Helper function to compute the HMAC signature of a signed response
+ * @param statusCode HTTP status code of the response
+ * @param timestamp Signature-Timestamp header of the response
+ * @param nonce Nonce of the request
+ * @param body Response body as string
+ * @param secret API secret for HMAC computation
+ * @returns HMAC signature in base64url format
+ */
+export function computeResponseHmac(
+    statusCode: number,
+    timestamp: string,
+    nonce: string,
+    body: string,
+    secret: string
+): string {
     const bodyHash = createHash('sha256').update(body).digest('base64url');
-    const message = `method=${method.toUpperCase()};path=${path};ts=${timestamp};nonce=${nonce};body_sha256=${bodyHash}`;
+    const message = `status=${statusCode};ts=${timestamp};nonce=${nonce};body_sha256=${bodyHash}`;
     return createHmac('sha256', secret).update(message).digest('base64url');
 }
 
@@ -43,3 +83,56 @@ export function getCurrentTimestamp(): string {
 export function generateNonce(): string {
     return randomBytes(16).toString('hex');
 }
+
+/**
+ * Helper function to build the signed authentication headers for a request
+ * @param method HTTP method (GET, POST, etc.)
+ * @param path Request path used for signing (without the API prefix)
+ * @param body Request body as string (empty string for GET requests)
+ * @param secret API secret for HMAC computation
+ * @returns Headers to pass to fastify.inject
+ */
+export function buildAuthHeaders(
+    method: string,
+    path: string,
+    body: string,
+    secret: string
+): Record<string, string> {
+    const timestamp = getCurrentTimestamp();
+    const nonce = generateNonce();
+    const signature = computeHmac(method, path, timestamp, nonce, body, secret);
+
+    return {
+        authorization: `Bearer ${signature}`,
+        'signature-timestamp': timestamp,
+        'signature-nonce': nonce,
+        ...(body ? { 'content-type': 'application/json' } : {}),
+    };
+}
+
+/**
+ * Helper function to build the authentication headers of a request signed with Ed25519
+ * @param method HTTP method (GET, POST, etc.)
+ * @param path Request path used for signing (without the API prefix)
+ * @param body Request body as string (empty string for GET requests)
+ * @param privateKey Ed25519 private key of the agent
+ * @returns Headers to pass to fastify.inject
+ */
+export function buildEd25519AuthHeaders(
+    method: string,
+    path: string,
+    body: string,
+    privateKey: KeyObject
+): Record<string, string> {
+    const timestamp = getCurrentTimestamp();
+    const nonce = generateNonce();
+    const message = buildCanonicalMessage(method, path, timestamp, nonce, body);
+    const signature = sign(null, Buffer.from(message), privateKey).toString('base64url');
+
+    return {
+        authorization: `Bearer ${signature}`,
+        'signature-timestamp': timestamp,
+        'signature-nonce': nonce,
+        ...(body ? { 'content-type': 'application/json' } : {}),
+    };
+}
@@ -0,0 +1,225 @@
+import { describe, it, before, beforeEach, after } from 'node:test';
+import assert from 'node:assert';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { ipHistoryRoutes } from '../src/routes/ipHistory.js';
+import ipChangeService, {
+    getIpv6Prefix,
+    getTrackedAddress,
+    type IpChange,
+    type IpChangeQuery,
+    type IpFamily,
+} from '../src/services/ipChange.js';
+import { IpChangeMonitor } from '../src/services/ipChangeMonitor.js';
+import { NotificationService } from '../src/services/notification.js';
+import type { Device } from '../src/services/device.js';
+import type { IpChangesInsert } from '../src/types/database.js';
+import { registerRawBodyCapture } from '../src/middleware/rawBodyCapture.js';
+import { buildAuthHeaders } from './helpers.js';
+
+const device: Device = {
+    id: 1,
+    name: 'default',
+    label: null,
+    heartbeat_timeout: null,
+    created_at: new Date('2025-01-01T00:00:00Z'),
+};
+
+describe('IP changes', () => {
+    describe('getIpv6Prefix', () => {
+        it('should return the /64 prefix of compressed and expanded addresses', () => {
+            assert.strictEqual(getIpv6Prefix('2a01:e0a:12:3450::1'), '2a01:e0a:12:3450::/64');
+            assert.strictEqual(
+                getIpv6Prefix('2a01:0e0a:0012:3450:0000:0000:0000:0001'),
+                '2a01:e0a:12:3450::/64'
+            );
+            assert.strictEqual(getIpv6Prefix('2001:db8::1'), '2001:db8:0:0::/64');
+            assert.strictEqual(getIpv6Prefix('fe80::1%eth0'), 'fe80:0:0:0::/64');
+            assert.strictEqual(getIpv6Prefix('::ffff:192.0.2.1'), '0:0:0:0::/64');
+        });
+
+        it('should reject invalid addresses', () => {
+            assert.strictEqual(getIpv6Prefix('192.0.2.1'), null);
+            assert.strictEqual(getIpv6Prefix('not-an-address'), null);
+        });
+    });
+
+    it('should track the IPv4 address and the IPv6 prefix of a heartbeat', () => {
+        const heartbeat = { ipv4: ' 198.51.100.7 ', ipv6: '2a01:e0a:12:3450::1' };
+
+        assert.strictEqual(getTrackedAddress(heartbeat, 'ipv4'), '198.51.100.7');
+        assert.strictEqual(getTrackedAddress(heartbeat, 'ipv6'), '2a01:e0a:12:3450::/64');
+        assert.strictEqual(getTrackedAddress({ ipv4: '' }, 'ipv4'), null);
+        assert.strictEqual(getTrackedAddress({ ipv4: '2001:db8::1' }, 'ipv4'), null);
+    });
+
+    describe('IpChangeMonitor', () => {
+        let fastify: FastifyInstance;
+        let notificationService: NotificationService;
+        let current: Partial<Record<IpFamily, IpChange>>;
+        let recorded: IpChangesInsert[];
+        let alerts: string[];
+        const originals = {
+            getCurrentAddresses: ipChangeService.getCurrentAddresses,
+            recordIpChange: ipChangeService.recordIpChange,
+        };
+
+        before(async () => {
+            fastify = Fastify({ logger: false });
+            await fastify.ready();
+
+            notificationService = new NotificationService(fastify.log);
+            notificationService.isEnabled = () => true;
+            notificationService.sendIpChangedAlert = async (_device, family, previous, address) => {
+                alerts.push(`${family}:${previous}->${address}`);
+            };
+        });
+
+        beforeEach(() => {
+            current = {};
+            recorded = [];
+            alerts = [];
+
+            ipChangeService.getCurrentAddresses = async () => current;
+            ipChangeService.recordIpChange = async (change: IpChangesInsert) => {
+                recorded.push(change);
+                return recorded.length;
+            };
+        });
+
+        after(async () => {
+            Object.assign(ipChangeService, originals);
+            await fastify.close();
+        });
+
+        it('should record first addresses without alert', async () => {
+            const monitor = new IpChangeMonitor(fastify.log, notificationService);
+
+            const changes = await monitor.checkHeartbeats(device, [
+                {
+                    connection_state: 'up',
+                    timestamp: '2025-04-01T10:00:00Z',
+                    ipv4: '198.51.100.7',
+                    ipv6: '2a01:e0a:12:3450::1',
+                },
+            ]);
+
+            assert.strictEqual(changes, 0);
+            assert.deepStrictEqual(
+                recorded.map((change) => [change.family, change.previous_address, change.address]),
+                [
+                    ['ipv4', null, '198.51.100.7'],
+                    ['ipv6', null, '2a01:e0a:12:3450::/64'],
+                ]
+            );
+            assert.deepStrictEqual(alerts, []);
+        });
+
+        it('should alert on address changes, in heartbeat order', async () => {
+            const monitor = new IpChangeMonitor(fastify.log, notificationService);
+            current = {
+                ipv4: {
+                    id: 1,
+                    device_id: 1,
+                    family: 'ipv4',
+                    previous_address: null,
+                    address: '198.51.100.7',
+                    changed_at: new Date('2025-04-01T10:00:00Z'),
+                    created_at: new Date('2025-04-01T10:00:00Z'),
+                },
+            };
+
+            const changes = await monitor.checkHeartbeats(device, [
+                { connection_state: 'up', timestamp: '2025-04-01T10:20:00Z', ipv4: '203.0.113.9' },
+                // Line down: no address, not a change
+                { connection_state: 'down', timestamp: '2025-04-01T10:15:00Z' },
+                { connection_state: 'up', timestamp: '2025-04-01T10:10:00Z', ipv4: '198.51.100.7' },
+                // Older than the last change: replayed, ignored
+                { connection_state: 'up', timestamp: '2025-04-01T09:50:00Z', ipv4: '192.0.2.1' },
+            ]);
+
+            assert.strictEqual(changes, 1);
+            assert.deepStrictEqual(alerts, ['ipv4:198.51.100.7->203.0.113.9']);
+            assert.deepStrictEqual(recorded[0].changed_at, new Date('2025-04-01T10:20:00Z'));
+        });
+
+        it('should not query the history of heartbeats without address', async () => {
+            const monitor = new IpChangeMonitor(fastify.log, notificationService);
+            ipChangeService.getCurrentAddresses = async () => {
+                throw new Error('should not be called');
+            };
+
+            const changes = await monitor.checkHeartbeats(device, [
+                { connection_state: 'down', timestamp: '2025-04-01T10:15:00Z' },
+            ]);
+
+            assert.strictEqual(changes, 0);
+        });
+    });
+
+    describe('GET /ip-history', () => {
+        let fastify: FastifyInstance;
+        const testApiSecret = 'test-ip-history-secret-32-chars-long';
+
+        before(async () => {
+            process.env.API_SECRET = testApiSecret;
+
+            fastify = Fastify({ logger: false });
+            await registerRawBodyCapture(fastify);
+            await fastify.register(ipHistoryRoutes);
+            await fastify.ready();
+        });
+
+        after(async () => {
+            await fastify.close();
+        });
+
+        it('should reject listing without authentication', async () => {
+            const response = await fastify.inject({ method: 'GET', url: '/ip-history' });
+
+            assert.strictEqual(response.statusCode, 401);
+        });
+
+        it('should pass filters to the service', async () => {
+            const originalQueryIpChanges = ipChangeService.queryIpChanges;
+            const queries: IpChangeQuery[] = [];
+
+            ipChangeService.queryIpChanges = async (query: IpChangeQuery) => {
+                queries.push(query);
+                return { data: [], next_cursor: null };
+            };
+
+            try {
+                const path = '/ip-history?family=ipv6&from=2025-04-01T00:00:00Z&limit=10';
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: path,
+                    headers: buildAuthHeaders('GET', path, '', testApiSecret),
+                });
+
+                assert.strictEqual(response.statusCode, 200);
+                assert.deepStrictEqual(queries[0], {
+                    deviceId: undefined,
+                    family: 'ipv6',
+                    from: new Date('2025-04-01T00:00:00Z'),
+                    to: undefined,
+                    cursor: undefined,
+                    limit: 10,
+                });
+            } finally {
+                ipChangeService.queryIpChanges = originalQueryIpChanges;
+            }
+        });
+
+        it('should reject unknown families and malformed dates', async () => {
+            for (const path of ['/ip-history?family=ipx', '/ip-history?to=yesterday']) {
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: path,
+                    headers: buildAuthHeaders('GET', path, '', testApiSecret),
+                });
+
+                assert.strictEqual(response.statusCode, 400);
+            }
+        });
+    });
+});
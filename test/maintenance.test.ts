@@ -0,0 +1,241 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { adminRoutes } from '../src/routes/admin.js';
+import maintenanceService, {
+    getMaintenanceWindowEnd,
+    isInMaintenanceWindow,
+    isValidRecurrence,
+    type MaintenanceWindow,
+} from '../src/services/maintenance.js';
+import type { MaintenanceWindowsInsert } from '../src/types/database.js';
+import { registerRawBodyCapture } from '../src/middleware/rawBodyCapture.js';
+import { buildAuthHeaders } from './helpers.js';
+
+describe('Maintenance windows', () => {
+    describe('isInMaintenanceWindow', () => {
+        const oneOff = {
+            starts_at: new Date('2025-03-04T01:00:00Z'),
+            ends_at: new Date('2025-03-04T03:00:00Z'),
+            recurrence: null,
+            duration: null,
+        };
+
+        it('should cover one-off windows from their start to their end', () => {
+            assert.strictEqual(
+                isInMaintenanceWindow(oneOff, new Date('2025-03-04T01:00:00Z')),
+                true
+            );
+            assert.strictEqual(
+                isInMaintenanceWindow(oneOff, new Date('2025-03-04T02:59:59Z')),
+                true
+            );
+            assert.strictEqual(
+                isInMaintenanceWindow(oneOff, new Date('2025-03-04T03:00:00Z')),
+                false
+            );
+        });
+
+        it('should cover every occurrence of recurring windows for their duration', () => {
+            // Every Tuesday at 2:00 (server time) for one hour
+            const recurring = {
+                starts_at: null,
+                ends_at: null,
+                recurrence: '0 2 * * 2',
+                duration: 3600,
+            };
+
+            assert.strictEqual(isInMaintenanceWindow(recurring, new Date(2025, 2, 4, 2, 0)), true);
+            assert.strictEqual(
+                isInMaintenanceWindow(recurring, new Date(2025, 2, 11, 2, 59)),
+                true
+            );
+            assert.strictEqual(isInMaintenanceWindow(recurring, new Date(2025, 2, 4, 3, 0)), false);
+            assert.strictEqual(
+                isInMaintenanceWindow(recurring, new Date(2025, 2, 5, 2, 30)),
+                false
+            );
+        });
+
+        it('should validate recurrences', () => {
+            assert.strictEqual(isValidRecurrence('0 2 * * 2'), true);
+            assert.strictEqual(isValidRecurrence('every tuesday'), false);
+        });
+
+        it('should return the end of the occurrence covering a date', () => {
+            const recurring = {
+                starts_at: null,
+                ends_at: null,
+                recurrence: '0 2 * * 2',
+                duration: 3600,
+            };
+
+            assert.deepStrictEqual(
+                getMaintenanceWindowEnd(oneOff, new Date('2025-03-04T02:00:00Z')),
+                new Date('2025-03-04T03:00:00Z')
+            );
+            assert.deepStrictEqual(
+                getMaintenanceWindowEnd(recurring, new Date(2025, 2, 11, 2, 30)),
+                new Date(2025, 2, 11, 3, 0)
+            );
+            assert.strictEqual(
+                getMaintenanceWindowEnd(oneOff, new Date('2025-03-04T03:00:00Z')),
+                null
+            );
+        });
+    });
+
+    describe('getMaintenanceEnd', () => {
+        const originalGetDeviceMaintenanceWindows = (maintenanceService as any)
+            .getDeviceMaintenanceWindows;
+
+        after(() => {
+            (maintenanceService as any).getDeviceMaintenanceWindows =
+                originalGetDeviceMaintenanceWindows;
+        });
+
+        it('should follow back-to-back windows until the device leaves maintenance', async () => {
+            (maintenanceService as any).getDeviceMaintenanceWindows = async () => [
+                {
+                    starts_at: new Date('2025-03-04T01:00:00Z'),
+                    ends_at: new Date('2025-03-04T02:00:00Z'),
+                    recurrence: null,
+                    duration: null,
+                },
+                {
+                    starts_at: new Date('2025-03-04T02:00:00Z'),
+                    ends_at: new Date('2025-03-04T02:30:00Z'),
+                    recurrence: null,
+                    duration: null,
+                },
+            ];
+
+            assert.deepStrictEqual(
+                await maintenanceService.getMaintenanceEnd(1, new Date('2025-03-04T01:30:00Z')),
+                new Date('2025-03-04T02:30:00Z')
+            );
+            assert.strictEqual(
+                await maintenanceService.getMaintenanceEnd(1, new Date('2025-03-04T03:00:00Z')),
+                null
+            );
+        });
+    });
+
+    describe('Admin maintenance routes', () => {
+        let fastify: FastifyInstance;
+        const testApiSecret = 'test-api-secret-32-characters-long-for-hmac';
+        const originalApiSecret = process.env.API_SECRET;
+
+        before(async () => {
+            process.env.API_SECRET = testApiSecret;
+
+            fastify = Fastify({ logger: false });
+            await registerRawBodyCapture(fastify);
+            await fastify.register(adminRoutes);
+            await fastify.ready();
+        });
+
+        after(async () => {
+            await fastify.close();
+            process.env.API_SECRET = originalApiSecret;
+        });
+
+        function postWindow(body: Record<string, unknown>) {
+            const payload = JSON.stringify(body);
+
+            return fastify.inject({
+                method: 'POST',
+                url: '/admin/maintenance-windows',
+                headers: {
+                    ...buildAuthHeaders(
+                        'POST',
+                        '/admin/maintenance-windows',
+                        payload,
+                        testApiSecret
+                    ),
+                    'content-type': 'application/json',
+                },
+                payload,
+            });
+        }
+
+        it('should create a recurring window for every device', async () => {
+            const originalCreate = maintenanceService.createMaintenanceWindow;
+            const originalGetById = maintenanceService.getMaintenanceWindowById;
+            const created: MaintenanceWindowsInsert[] = [];
+
+            maintenanceService.createMaintenanceWindow = async (window) => {
+                created.push(window);
+                return 5;
+            };
+            maintenanceService.getMaintenanceWindowById = async (id: number) =>
+                ({ id, ...created[0] }) as MaintenanceWindow;
+
+            try {
+                const response = await postWindow({
+                    reason: 'Free weekly maintenance',
+                    recurrence: '0 2 * * 2',
+                    duration: 3600,
+                });
+
+                assert.strictEqual(response.statusCode, 201);
+                assert.strictEqual(JSON.parse(response.body).id, 5);
+                assert.deepStrictEqual(created, [
+                    {
+                        device_id: null,
+                        reason: 'Free weekly maintenance',
+                        starts_at: null,
+                        ends_at: null,
+                        recurrence: '0 2 * * 2',
+                        duration: 3600,
+                    },
+                ]);
+            } finally {
+                maintenanceService.createMaintenanceWindow = originalCreate;
+                maintenanceService.getMaintenanceWindowById = originalGetById;
+            }
+        });
+
+        it('should reject windows that are neither one-off nor recurring', async () => {
+            for (const body of [
+                {},
+                { starts_at: '2025-03-04T03:00:00Z', ends_at: '2025-03-04T01:00:00Z' },
+                { starts_at: 'tomorrow', ends_at: '2025-03-04T01:00:00Z' },
+                { recurrence: '0 2 * * 2' },
+                { recurrence: 'weekly', duration: 3600 },
+                { recurrence: '0 2 * * 2', duration: 3600, starts_at: '2025-03-04T01:00:00Z' },
+                {
+                    starts_at: '2025-03-04T01:00:00Z',
+                    ends_at: '2025-03-04T03:00:00Z',
+                    duration: 60,
+                },
+            ]) {
+                const response = await postWindow(body);
+
+                assert.strictEqual(response.statusCode, 400, JSON.stringify(body));
+            }
+        });
+
+        it('should return 404 when deleting an unknown window', async () => {
+            const originalDelete = maintenanceService.deleteMaintenanceWindow;
+            maintenanceService.deleteMaintenanceWindow = async () => false;
+
+            try {
+                const response = await fastify.inject({
+                    method: 'DELETE',
+                    url: '/admin/maintenance-windows/12',
+                    headers: buildAuthHeaders(
+                        'DELETE',
+                        '/admin/maintenance-windows/12',
+                        '',
+                        testApiSecret
+                    ),
+                });
+
+                assert.strictEqual(response.statusCode, 404);
+            } finally {
+                maintenanceService.deleteMaintenanceWindow = originalDelete;
+            }
+        });
+    });
+});
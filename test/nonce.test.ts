@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+    DatabaseNonceStore,
+    MemoryNonceStore,
+    createNonceStore,
+    type NonceEntry,
+} from '../src/services/nonce.js';
+
+function entry(nonce: string, expiresInMs: number, device = 'default'): NonceEntry {
+    return {
+        device,
+        nonce,
+        timestamp: Math.floor(Date.now() / 1000),
+        expiresAt: new Date(Date.now() + expiresInMs),
+    };
+}
+
+describe('MemoryNonceStore', () => {
+    it('should reject a nonce reused before it expires', async () => {
+        const store = new MemoryNonceStore();
+
+        assert.strictEqual(await store.remember(entry('abc', 60000)), true);
+        assert.strictEqual(await store.remember(entry('abc', 60000)), false);
+    });
+
+    it('should scope nonces by device', async () => {
+        const store = new MemoryNonceStore();
+
+        assert.strictEqual(await store.remember(entry('abc', 60000, 'home')), true);
+        assert.strictEqual(await store.remember(entry('abc', 60000, 'office')), true);
+    });
+
+    it('should accept a nonce again once it expired', async () => {
+        const store = new MemoryNonceStore();
+
+        assert.strictEqual(await store.remember(entry('abc', -1)), true);
+        assert.strictEqual(await store.remember(entry('abc', 60000)), true);
+    });
+});
+
+describe('createNonceStore', () => {
+    it('should create the configured backend', () => {
+        assert.ok(createNonceStore('memory') instanceof MemoryNonceStore);
+        assert.ok(createNonceStore('database') instanceof DatabaseNonceStore);
+    });
+
+    it('should reject unknown backends', () => {
+        assert.throws(() => createNonceStore('redis'), /Invalid NONCE_STORE/);
+    });
+});
@@ -126,9 +126,109 @@ describe('NotificationService', () => {
         assert.strictEqual(sendCalls[0].chatId, 'chat-123');
         assert.match(sendCalls[0].message, /Downtime Detected/);
         assert.match(sendCalls[0].message, /No heartbeat received for 5 minutes/);
+        assert.doesNotMatch(sendCalls[0].message, /Device:/);
         assert.deepStrictEqual(sendCalls[0].options, { parse_mode: 'Markdown' });
     });
 
+    it('should name the affected device when provided', async () => {
+        const service = new NotificationService(fastify.log);
+        const messages: string[] = [];
+
+        (service as any).enabled = true;
+        (service as any).chatId = 'chat-789';
+        (service as any).bot = {
+            sendMessage: async (_chatId: string, message: string) => {
+                messages.push(message);
+            },
+        };
+
+        const startedAt = new Date('2024-01-01T00:00:00.000Z');
+        await service.sendDowntimeAlert({ downtimeId: 1, startedAt, device: 'Office' }, 300000);
+        await service.sendRecoveryAlert(1, startedAt, new Date(), 'Office');
+
+        assert.strictEqual(messages.length, 2);
+        for (const message of messages) {
+            assert.match(message, /Device: Office/);
+        }
+    });
+
+    it('should escape the Markdown characters of device names', async () => {
+        const service = new NotificationService(fastify.log);
+        const messages: string[] = [];
+
+        (service as any).enabled = true;
+        (service as any).chatId = 'chat-789';
+        (service as any).bot = {
+            sendMessage: async (_chatId: string, message: string) => {
+                messages.push(message);
+            },
+        };
+
+        const startedAt = new Date('2024-01-01T00:00:00.000Z');
+        await service.sendDowntimeAlert({ downtimeId: 1, startedAt, device: 'home_*box' }, 300000);
+
+        assert.match(messages[0], /Device: home\\_\\\*box/);
+    });
+
+    it('should escape the reported connection state', async () => {
+        const service = new NotificationService(fastify.log);
+        const messages: string[] = [];
+
+        (service as any).enabled = true;
+        (service as any).chatId = 'chat-789';
+        (service as any).bot = {
+            sendMessage: async (_chatId: string, message: string) => {
+                messages.push(message);
+            },
+        };
+
+        const startedAt = new Date('2024-01-01T00:00:00.000Z');
+        await service.sendReportedDowntimeAlert({ downtimeId: 1, startedAt }, 'going_down', 3);
+
+        assert.match(messages[0], /connection state "going\\_down" 3 times/);
+    });
+
+    it('should escape the backup media name', async () => {
+        const service = new NotificationService(fastify.log);
+        const messages: string[] = [];
+
+        (service as any).enabled = true;
+        (service as any).chatId = 'chat-789';
+        (service as any).bot = {
+            sendMessage: async (_chatId: string, message: string) => {
+                messages.push(message);
+            },
+        };
+
+        await service.sendBackupStartedAlert({
+            backupId: 1,
+            startedAt: new Date('2024-01-01T00:00:00.000Z'),
+            media: 'backup_4g',
+        });
+
+        assert.match(messages[0], /Media: backup\\_4g/);
+    });
+
+    it('should include the cause in the recovery alert when provided', async () => {
+        const service = new NotificationService(fastify.log);
+        const messages: string[] = [];
+
+        (service as any).enabled = true;
+        (service as any).chatId = 'chat-789';
+        (service as any).bot = {
+            sendMessage: async (_chatId: string, message: string) => {
+                messages.push(message);
+            },
+        };
+
+        const startedAt = new Date('2024-01-01T00:00:00.000Z');
+        await service.sendRecoveryAlert(1, startedAt, new Date(), 'Office', 'ip_change');
+        await service.sendRecoveryAlert(2, startedAt, new Date(), 'Office');
+
+        assert.match(messages[0], /Cause: IPv4 changed on recovery/);
+        assert.doesNotMatch(messages[1], /Cause:/);
+    });
+
     it('should include confirmation delay when sending confirmed downtime alert', async () => {
         const service = new NotificationService(fastify.log);
         const sendCalls: Array<{ chatId: string; message: string; options: unknown }> = [];
@@ -157,4 +257,57 @@ describe('NotificationService', () => {
         assert.match(sendCalls[0].message, /over 30 minutes/);
         assert.deepStrictEqual(sendCalls[0].options, { parse_mode: 'Markdown' });
     });
+
+    it('should send escalation stages to their own channel and recipients', async () => {
+        const service = new NotificationService(fastify.log);
+        const chatIds: string[] = [];
+        const webhooks: Array<{ url: string; content: string }> = [];
+        const originalFetch = global.fetch;
+
+        (service as any).enabled = true;
+        (service as any).chatId = 'chat-456';
+        (service as any).bot = {
+            sendMessage: async (chatId: string) => {
+                chatIds.push(chatId);
+            },
+        };
+        global.fetch = async (url, init) => {
+            webhooks.push({ url: String(url), content: JSON.parse(String(init?.body)).content });
+            return { ok: true, status: 204, statusText: 'No Content' } as Response;
+        };
+
+        const data = { downtimeId: 7, startedAt: new Date(Date.now() - 125 * 60000) };
+
+        try {
+            await service.sendDowntimeConfirmedAlert(data, 1800000, {
+                stage: {
+                    after: 1800000,
+                    repeat: null,
+                    channel: 'telegram',
+                    recipients: ['chat-1', 'chat-2'],
+                    template: null,
+                },
+                stageNumber: 2,
+                reminder: 0,
+            });
+            await service.sendDowntimeConfirmedAlert(data, 7200000, {
+                stage: {
+                    after: 7200000,
+                    repeat: null,
+                    channel: 'discord',
+                    recipients: ['https://example.com/hook'],
+                    template: 'Down for {duration} minutes (stage {stage})',
+                },
+                stageNumber: 3,
+                reminder: 0,
+            });
+        } finally {
+            global.fetch = originalFetch;
+        }
+
+        assert.deepStrictEqual(chatIds, ['chat-1', 'chat-2']);
+        assert.deepStrictEqual(webhooks, [
+            { url: 'https://example.com/hook', content: 'Down for 125 minutes (stage 3)' },
+        ]);
+    });
 });
@@ -0,0 +1,370 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import heartbeatService, { type HeartbeatRecord } from '../src/services/heartbeat.js';
+import downtimeService, { type DowntimeEventInRange } from '../src/services/downtime.js';
+import maintenanceService from '../src/services/maintenance.js';
+import watcherService from '../src/services/watcher.js';
+import reconciliationService, {
+    CLEARED_DOWNTIME_NOTE,
+    RECONCILED_DOWNTIME_NOTE,
+    findHeartbeatGaps,
+} from '../src/services/reconciliation.js';
+
+const TIMEOUT_MS = 300000;
+
+function at(time: string): Date {
+    return new Date(`2025-04-01T${time}:00Z`);
+}
+
+function heartbeat(time: string): HeartbeatRecord {
+    return { id: 0, status: 'up', timestamp: at(time) } as HeartbeatRecord;
+}
+
+function downtimeEvent(id: number, startedAt: Date, endedAt: Date | null): DowntimeEventInRange {
+    return {
+        id,
+        device_id: 1,
+        started_at: startedAt,
+        ended_at: endedAt,
+        duration: null,
+        is_active: endedAt === null,
+        notes: 'Automatically detected downtime',
+        source: 'heartbeat_silence',
+        cause: null,
+        incident_id: null,
+        planned: false,
+        unobserved: false,
+        cleared: false,
+        alert_sent_at: null,
+        escalation_count: 0,
+        escalated_at: null,
+        recovery_sent_at: null,
+        full_duration: 0,
+        clipped_duration: 0,
+    };
+}
+
+describe('findHeartbeatGaps', () => {
+    it('should return gaps longer than the timeout, starting when the timeout expired', () => {
+        const gaps = findHeartbeatGaps(
+            [at('10:00'), at('10:01'), at('10:20'), at('10:21')],
+            TIMEOUT_MS
+        );
+
+        assert.deepStrictEqual(gaps, [{ start: at('10:06'), end: at('10:20') }]);
+    });
+
+    it('should sort timestamps and report an open gap up to the given end', () => {
+        const gaps = findHeartbeatGaps([at('10:06'), at('10:00')], TIMEOUT_MS, at('10:30'));
+
+        assert.deepStrictEqual(gaps, [
+            { start: at('10:05'), end: at('10:06') },
+            { start: at('10:11'), end: null },
+        ]);
+    });
+
+    it('should ignore silence shorter than the timeout', () => {
+        assert.deepStrictEqual(findHeartbeatGaps([at('10:00'), at('10:04')], TIMEOUT_MS), []);
+    });
+});
+
+describe('ReconciliationService', () => {
+    const originals = {
+        getHeartbeatBefore: heartbeatService.getHeartbeatBefore,
+        getHeartbeatsInRange: heartbeatService.getHeartbeatsInRange,
+        getHeartbeatAfter: heartbeatService.getHeartbeatAfter,
+        getActiveMaintenanceWindow: maintenanceService.getActiveMaintenanceWindow,
+        isUnobserved: watcherService.isUnobserved,
+        getDowntimeEventsInRange: downtimeService.getDowntimeEventsInRange,
+        updateDowntimeBoundaries: downtimeService.updateDowntimeBoundaries,
+        clearDowntimeEvent: downtimeService.clearDowntimeEvent,
+        createEndedDowntimeEvent: downtimeService.createEndedDowntimeEvent,
+    };
+
+    let updates: Array<{ id: number; startedAt: Date; endedAt: Date | null; notes?: string }>;
+    let clears: Array<{ id: number; notes?: string }>;
+    let created: Array<{
+        startedAt: Date;
+        endedAt: Date;
+        notes: string | null;
+        planned?: boolean;
+    }>;
+
+    beforeEach(() => {
+        updates = [];
+        clears = [];
+        created = [];
+
+        downtimeService.updateDowntimeBoundaries = async (
+            id: number,
+            startedAt: Date,
+            endedAt: Date | null,
+            notes?: string
+        ) => {
+            updates.push({ id, startedAt, endedAt, notes });
+        };
+        downtimeService.clearDowntimeEvent = async (id: number, notes?: string) => {
+            clears.push({ id, notes });
+        };
+        downtimeService.createEndedDowntimeEvent = async (
+            _deviceId: number,
+            startedAt: Date,
+            endedAt: Date,
+            notes: string | null = null,
+            planned?: boolean
+        ) => {
+            created.push({ startedAt, endedAt, notes, ...(planned ? { planned } : {}) });
+            return 100 + created.length;
+        };
+        heartbeatService.getHeartbeatAfter = async () => null;
+        maintenanceService.getActiveMaintenanceWindow = async () => null;
+        watcherService.isUnobserved = async () => false;
+    });
+
+    afterEach(() => {
+        Object.assign(heartbeatService, {
+            getHeartbeatBefore: originals.getHeartbeatBefore,
+            getHeartbeatsInRange: originals.getHeartbeatsInRange,
+            getHeartbeatAfter: originals.getHeartbeatAfter,
+        });
+        maintenanceService.getActiveMaintenanceWindow = originals.getActiveMaintenanceWindow;
+        watcherService.isUnobserved = originals.isUnobserved;
+        Object.assign(downtimeService, {
+            getDowntimeEventsInRange: originals.getDowntimeEventsInRange,
+            updateDowntimeBoundaries: originals.updateDowntimeBoundaries,
+            clearDowntimeEvent: originals.clearDowntimeEvent,
+            createEndedDowntimeEvent: originals.createEndedDowntimeEvent,
+        });
+    });
+
+    it('should move an event onto the real gap and split additional gaps', async () => {
+        // Detected at 10:05 (last heartbeat 10:00), recovered at 11:00. Replayed heartbeats
+        // show the line was alive between 10:20 and 10:30.
+        downtimeService.getDowntimeEventsInRange = async () => [
+            downtimeEvent(1, at('10:05'), at('11:00')),
+        ];
+        heartbeatService.getHeartbeatBefore = async () => heartbeat('10:00');
+        heartbeatService.getHeartbeatsInRange = async () => [
+            heartbeat('10:20'),
+            heartbeat('10:25'),
+            heartbeat('10:30'),
+            heartbeat('10:59'),
+        ];
+
+        const result = await reconciliationService.reconcileDowntimeEvents(
+            1,
+            at('10:20'),
+            at('10:30'),
+            TIMEOUT_MS
+        );
+
+        assert.deepStrictEqual(updates, [
+            { id: 1, startedAt: at('10:05'), endedAt: at('10:20'), notes: undefined },
+        ]);
+        assert.deepStrictEqual(created, [
+            { startedAt: at('10:35'), endedAt: at('10:59'), notes: RECONCILED_DOWNTIME_NOTE },
+        ]);
+        assert.deepStrictEqual(result, { updated: [1], created: [101], cleared: [] });
+    });
+
+    it('should clear events fully covered by replayed heartbeats', async () => {
+        downtimeService.getDowntimeEventsInRange = async () => [
+            downtimeEvent(2, at('10:05'), at('10:12')),
+        ];
+        heartbeatService.getHeartbeatBefore = async () => heartbeat('10:00');
+        heartbeatService.getHeartbeatsInRange = async () => [
+            heartbeat('10:04'),
+            heartbeat('10:08'),
+            heartbeat('10:11'),
+        ];
+
+        const result = await reconciliationService.reconcileDowntimeEvents(
+            1,
+            at('10:04'),
+            at('10:11'),
+            TIMEOUT_MS
+        );
+
+        assert.deepStrictEqual(updates, []);
+        assert.deepStrictEqual(clears, [{ id: 2, notes: CLEARED_DOWNTIME_NOTE }]);
+        assert.deepStrictEqual(result, { updated: [], created: [], cleared: [2] });
+    });
+
+    it('should leave cleared events cleared', async () => {
+        downtimeService.getDowntimeEventsInRange = async () => [
+            { ...downtimeEvent(2, at('10:05'), at('10:05')), cleared: true },
+        ];
+        heartbeatService.getHeartbeatBefore = async () => heartbeat('10:00');
+        // A gap found later is not attached to the false positive
+        heartbeatService.getHeartbeatsInRange = async () => [heartbeat('10:30')];
+
+        const result = await reconciliationService.reconcileDowntimeEvents(
+            1,
+            at('10:00'),
+            at('10:30'),
+            TIMEOUT_MS
+        );
+
+        assert.deepStrictEqual([updates, clears, created], [[], [], []]);
+        assert.deepStrictEqual(result, { updated: [], created: [], cleared: [] });
+    });
+
+    it('should leave events recorded by the monitor untouched', async () => {
+        // Last heartbeat at 10:00, detected when the timeout expired, recovered at 10:30
+        downtimeService.getDowntimeEventsInRange = async () => [
+            downtimeEvent(5, at('10:05'), at('10:30')),
+        ];
+        heartbeatService.getHeartbeatBefore = async () => heartbeat('10:00');
+        heartbeatService.getHeartbeatsInRange = async () => [
+            heartbeat('10:30'),
+            heartbeat('10:31'),
+        ];
+
+        const result = await reconciliationService.reconcileDowntimeEvents(
+            1,
+            at('10:30'),
+            at('10:31'),
+            TIMEOUT_MS
+        );
+
+        assert.deepStrictEqual(updates, []);
+        assert.deepStrictEqual(created, []);
+        assert.deepStrictEqual(result, { updated: [], created: [], cleared: [] });
+    });
+
+    it('should leave downtimes reported by the agent untouched', async () => {
+        downtimeService.getDowntimeEventsInRange = async () => [
+            { ...downtimeEvent(3, at('10:05'), at('10:12')), source: 'reported_down' },
+        ];
+        heartbeatService.getHeartbeatBefore = async () => heartbeat('10:04');
+        heartbeatService.getHeartbeatsInRange = async () => [
+            heartbeat('10:08'),
+            heartbeat('10:11'),
+        ];
+
+        const result = await reconciliationService.reconcileDowntimeEvents(
+            1,
+            at('10:04'),
+            at('10:11'),
+            TIMEOUT_MS
+        );
+
+        assert.deepStrictEqual(updates, []);
+        assert.deepStrictEqual(result, { updated: [], created: [], cleared: [] });
+    });
+
+    describe('reconcileHeartbeatGaps', () => {
+        beforeEach(() => {
+            // Silent from 10:00 to 10:40 while the watcher was offline, then from 11:00 to
+            // 11:30 with a downtime recorded by the monitor
+            const history = [
+                '09:58',
+                '10:00',
+                '10:40',
+                '10:44',
+                '10:48',
+                '10:52',
+                '10:56',
+                '11:00',
+                '11:30',
+            ].map(heartbeat);
+
+            heartbeatService.getHeartbeatBefore = async (date: Date) =>
+                history.filter((record) => record.timestamp <= date).at(-1) ?? null;
+            heartbeatService.getHeartbeatsInRange = async (startDate: Date, endDate: Date) =>
+                history.filter(
+                    (record) => record.timestamp >= startDate && record.timestamp <= endDate
+                );
+            downtimeService.getDowntimeEventsInRange = async () => [
+                downtimeEvent(4, at('11:05'), at('11:30')),
+            ];
+        });
+
+        it('should create the downtimes missing from the heartbeat gaps', async () => {
+            const changes = await reconciliationService.reconcileHeartbeatGaps(
+                1,
+                at('09:00'),
+                at('12:00'),
+                TIMEOUT_MS
+            );
+
+            assert.deepStrictEqual(updates, []);
+            assert.deepStrictEqual(created, [
+                { startedAt: at('10:05'), endedAt: at('10:40'), notes: RECONCILED_DOWNTIME_NOTE },
+            ]);
+            assert.deepStrictEqual(changes, [
+                {
+                    action: 'created',
+                    id: 101,
+                    device_id: 1,
+                    started_at: at('10:05'),
+                    ended_at: at('10:40'),
+                },
+            ]);
+        });
+
+        it('should only report the changes in a dry run', async () => {
+            downtimeService.getDowntimeEventsInRange = async () => [
+                downtimeEvent(4, at('11:20'), at('11:30')),
+            ];
+
+            const changes = await reconciliationService.reconcileHeartbeatGaps(
+                1,
+                at('09:00'),
+                at('12:00'),
+                TIMEOUT_MS,
+                true
+            );
+
+            assert.deepStrictEqual(updates, []);
+            assert.deepStrictEqual(created, []);
+            assert.deepStrictEqual(
+                changes.map(({ action, id, started_at }) => ({ action, id, started_at })),
+                [
+                    { action: 'updated', id: 4, started_at: at('11:05') },
+                    { action: 'created', id: null, started_at: at('10:05') },
+                ]
+            );
+        });
+
+        it('should not duplicate gaps covered by a reported downtime', async () => {
+            downtimeService.getDowntimeEventsInRange = async () => [
+                { ...downtimeEvent(5, at('09:59'), at('10:40')), source: 'reported_down' },
+                downtimeEvent(4, at('11:05'), at('11:30')),
+            ];
+
+            const changes = await reconciliationService.reconcileHeartbeatGaps(
+                1,
+                at('09:00'),
+                at('12:00'),
+                TIMEOUT_MS
+            );
+
+            assert.deepStrictEqual(created, []);
+            assert.deepStrictEqual(changes, []);
+        });
+
+        it('should mark downtimes reconstructed during maintenance as planned', async () => {
+            maintenanceService.getActiveMaintenanceWindow = async () =>
+                ({ id: 1 }) as Awaited<
+                    ReturnType<typeof maintenanceService.getActiveMaintenanceWindow>
+                >;
+
+            await reconciliationService.reconcileHeartbeatGaps(
+                1,
+                at('09:00'),
+                at('12:00'),
+                TIMEOUT_MS
+            );
+
+            assert.deepStrictEqual(created, [
+                {
+                    startedAt: at('10:05'),
+                    endedAt: at('10:40'),
+                    notes: RECONCILED_DOWNTIME_NOTE,
+                    planned: true,
+                },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,418 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { statsRoutes } from '../src/routes/stats.js';
+import statsService, {
+    computeHeartbeatStats,
+    computeUptimeStats,
+    estimateHeartbeatInterval,
+    splitPeriods,
+    type StatsGranularity,
+} from '../src/services/stats.js';
+import heartbeatService, { getArrivalTime } from '../src/services/heartbeat.js';
+import deviceService, { type Device } from '../src/services/device.js';
+import downtimeService, {
+    getClippedDuration,
+    type DowntimeEventInRange,
+} from '../src/services/downtime.js';
+import maintenanceService from '../src/services/maintenance.js';
+import { registerRawBodyCapture } from '../src/middleware/rawBodyCapture.js';
+import { buildAuthHeaders } from './helpers.js';
+
+describe('Uptime statistics', () => {
+    const from = new Date('2025-03-01T00:00:00Z');
+    const to = new Date('2025-03-02T00:00:00Z');
+
+    describe('getClippedDuration', () => {
+        it('should clip events starting before the window', () => {
+            const duration = getClippedDuration(
+                {
+                    started_at: new Date('2025-02-28T23:00:00Z'),
+                    ended_at: new Date('2025-03-01T01:00:00Z'),
+                },
+                from,
+                to
+            );
+
+            assert.strictEqual(duration, 3600);
+        });
+
+        it('should count active events up to now', () => {
+            const now = new Date('2025-03-01T12:30:00Z');
+            const duration = getClippedDuration(
+                { started_at: new Date('2025-03-01T12:00:00Z'), ended_at: null },
+                from,
+                to,
+                now
+            );
+
+            assert.strictEqual(duration, 1800);
+        });
+    });
+
+    describe('computeUptimeStats', () => {
+        it('should report full availability without downtime', () => {
+            const stats = computeUptimeStats([], { from, to });
+
+            assert.strictEqual(stats.availability, 100);
+            assert.strictEqual(stats.downtime_count, 0);
+            assert.strictEqual(stats.total_downtime, 0);
+            assert.strictEqual(stats.mttr, null);
+            assert.strictEqual(stats.mtbf, null);
+            assert.strictEqual(stats.longest_outage, 0);
+        });
+
+        it('should compute availability, MTTR, MTBF and longest outage', () => {
+            const now = new Date('2025-03-03T00:00:00Z');
+            const stats = computeUptimeStats(
+                [
+                    // 30 minutes inside the window
+                    {
+                        started_at: new Date('2025-02-28T23:30:00Z'),
+                        ended_at: new Date('2025-03-01T00:30:00Z'),
+                    },
+                    // 2 hours, still active, clipped to the end of the window
+                    { started_at: new Date('2025-03-01T22:00:00Z'), ended_at: null },
+                ],
+                { from, to },
+                now
+            );
+
+            assert.strictEqual(stats.downtime_count, 2);
+            assert.strictEqual(stats.total_downtime, 9000);
+            assert.strictEqual(stats.longest_outage, 7200);
+            assert.strictEqual(stats.mttr, 4500);
+            assert.strictEqual(stats.mtbf, (86400 - 9000) / 2);
+            assert.strictEqual(stats.availability, 89.583);
+        });
+    });
+
+    describe('getUptimeReport', () => {
+        it('should only count planned downtimes once they outlast their maintenance', async () => {
+            const originalGetDowntimeEventsInRange = downtimeService.getDowntimeEventsInRange;
+            const originalGetMaintenanceEnd = maintenanceService.getMaintenanceEnd;
+            downtimeService.getDowntimeEventsInRange = async () =>
+                [
+                    {
+                        // Inside a window ending at 04:00
+                        started_at: '2025-03-01T02:00:00Z',
+                        ended_at: '2025-03-01T03:00:00Z',
+                        planned: true,
+                    },
+                    {
+                        // Outlasting a window ending at 06:00 by 10 minutes
+                        started_at: '2025-03-01T05:00:00Z',
+                        ended_at: '2025-03-01T06:10:00Z',
+                        planned: true,
+                    },
+                    {
+                        started_at: '2025-03-01T10:00:00Z',
+                        ended_at: '2025-03-01T10:06:00Z',
+                        planned: false,
+                    },
+                ].map(
+                    (event) =>
+                        ({
+                            ...event,
+                            started_at: new Date(event.started_at),
+                            ended_at: new Date(event.ended_at),
+                        }) as DowntimeEventInRange
+                );
+            maintenanceService.getMaintenanceEnd = async (_deviceId: number, date: Date) =>
+                date.getUTCHours() < 4
+                    ? new Date('2025-03-01T04:00:00Z')
+                    : new Date('2025-03-01T06:00:00Z');
+
+            try {
+                const report = await statsService.getUptimeReport(from, to);
+
+                assert.strictEqual(report.summary.downtime_count, 2);
+                assert.strictEqual(report.summary.total_downtime, 600 + 360);
+            } finally {
+                downtimeService.getDowntimeEventsInRange = originalGetDowntimeEventsInRange;
+                maintenanceService.getMaintenanceEnd = originalGetMaintenanceEnd;
+            }
+        });
+
+        it('should only count unobserved downtimes when asked to', async () => {
+            const originalGetDowntimeEventsInRange = downtimeService.getDowntimeEventsInRange;
+            downtimeService.getDowntimeEventsInRange = async () => [
+                {
+                    started_at: new Date('2025-03-01T02:00:00Z'),
+                    ended_at: new Date('2025-03-01T03:00:00Z'),
+                    planned: false,
+                    unobserved: true,
+                } as DowntimeEventInRange,
+            ];
+
+            try {
+                const report = await statsService.getUptimeReport(from, to);
+                const fullReport = await statsService.getUptimeReport(
+                    from,
+                    to,
+                    null,
+                    undefined,
+                    true
+                );
+
+                assert.strictEqual(report.summary.downtime_count, 0);
+                assert.strictEqual(fullReport.summary.total_downtime, 3600);
+            } finally {
+                downtimeService.getDowntimeEventsInRange = originalGetDowntimeEventsInRange;
+            }
+        });
+    });
+
+    describe('splitPeriods', () => {
+        it('should split by calendar day, clipping the first and last periods', () => {
+            const periods = splitPeriods(
+                new Date('2025-03-01T12:00:00Z'),
+                new Date('2025-03-03T06:00:00Z'),
+                'day'
+            );
+
+            assert.deepStrictEqual(
+                periods.map((period) => [period.from.toISOString(), period.to.toISOString()]),
+                [
+                    ['2025-03-01T12:00:00.000Z', '2025-03-02T00:00:00.000Z'],
+                    ['2025-03-02T00:00:00.000Z', '2025-03-03T00:00:00.000Z'],
+                    ['2025-03-03T00:00:00.000Z', '2025-03-03T06:00:00.000Z'],
+                ]
+            );
+        });
+
+        it('should align weeks on Monday and months on the first day', () => {
+            const weeks = splitPeriods(
+                new Date('2025-03-05T00:00:00Z'),
+                new Date('2025-03-20T00:00:00Z'),
+                'week'
+            );
+            assert.strictEqual(weeks[1].from.toISOString(), '2025-03-10T00:00:00.000Z');
+
+            const months = splitPeriods(
+                new Date('2025-01-15T00:00:00Z'),
+                new Date('2025-03-15T00:00:00Z'),
+                'month'
+            );
+            assert.deepStrictEqual(
+                months.map((period) => period.from.toISOString()),
+                ['2025-01-15T00:00:00.000Z', '2025-02-01T00:00:00.000Z', '2025-03-01T00:00:00.000Z']
+            );
+        });
+    });
+
+    describe('Heartbeat statistics', () => {
+        const minute = 60000;
+        // One heartbeat per minute from 00:00, with 00:03 and 00:04 missing and 00:06 late
+        const arrivals = [0, 1, 2, 5, 6.25, 7, 8, 9].map(
+            (offset) => new Date(from.getTime() + offset * minute)
+        );
+
+        it('should place heartbeats at their arrival time', () => {
+            const timestamp = new Date('2025-03-01T00:00:00Z');
+
+            assert.deepStrictEqual(
+                getArrivalTime({ timestamp, clock_drift: 1500 }),
+                new Date('2025-03-01T00:00:01.500Z')
+            );
+            assert.deepStrictEqual(getArrivalTime({ timestamp, clock_drift: null }), timestamp);
+        });
+
+        it('should learn the interval from the median gap', () => {
+            assert.strictEqual(estimateHeartbeatInterval(arrivals), minute);
+            assert.strictEqual(estimateHeartbeatInterval(arrivals.slice(0, 1)), null);
+        });
+
+        it('should count missed heartbeats and measure jitter', () => {
+            const stats = computeHeartbeatStats(
+                arrivals,
+                { from, to: new Date(from.getTime() + 10 * minute) },
+                minute
+            );
+
+            assert.deepStrictEqual(
+                [stats.expected, stats.received, stats.missed, stats.loss],
+                [10, 8, 2, 20]
+            );
+            // The 3 minute gap is left out of the jitter
+            assert.strictEqual(stats.jitter_max, 15000);
+            assert.strictEqual(stats.jitter_mean, Math.round(30000 / 6));
+        });
+
+        it('should not expect heartbeats before the device was created', async () => {
+            const originalGetArrivalTimes = heartbeatService.getArrivalTimes;
+            const windows: Date[][] = [];
+            heartbeatService.getArrivalTimes = async (startDate: Date, endDate: Date) => {
+                windows.push([startDate, endDate]);
+                return arrivals;
+            };
+
+            try {
+                const createdAt = new Date('2025-03-01T00:00:00Z');
+                const report = await statsService.getHeartbeatReport(
+                    { id: 1, created_at: createdAt },
+                    new Date('2025-02-01T00:00:00Z'),
+                    new Date(from.getTime() + 10 * minute)
+                );
+
+                assert.deepStrictEqual(windows[0][0], createdAt);
+                assert.strictEqual(report.expected_interval, minute);
+                assert.strictEqual(report.summary.missed, 2);
+            } finally {
+                heartbeatService.getArrivalTimes = originalGetArrivalTimes;
+            }
+        });
+    });
+
+    describe('GET /stats/heartbeats', () => {
+        let fastify: FastifyInstance;
+        const testApiSecret = 'test-stats-secret-32-characters-long';
+        const device: Device = {
+            id: 1,
+            name: 'default',
+            label: null,
+            heartbeat_timeout: null,
+            created_at: new Date('2025-01-01T00:00:00Z'),
+        };
+
+        before(async () => {
+            process.env.API_SECRET = testApiSecret;
+
+            fastify = Fastify({ logger: false });
+            await registerRawBodyCapture(fastify);
+            await fastify.register(statsRoutes);
+            await fastify.ready();
+        });
+
+        after(async () => {
+            await fastify.close();
+        });
+
+        it('should report on the default device unless another one is given', async () => {
+            const originalGetDeviceByName = deviceService.getDeviceByName;
+            const originalGetHeartbeatReport = statsService.getHeartbeatReport;
+            const deviceIds: number[] = [];
+
+            deviceService.getDeviceByName = async (name: string) =>
+                name === 'default' ? device : null;
+            statsService.getHeartbeatReport = async (
+                reportDevice: Pick<Device, 'id' | 'created_at'>,
+                reportFrom: Date,
+                reportTo: Date
+            ) => {
+                deviceIds.push(reportDevice.id);
+                return {
+                    expected_interval: null,
+                    granularity: null,
+                    summary: computeHeartbeatStats([], { from: reportFrom, to: reportTo }, null),
+                    periods: [],
+                };
+            };
+
+            try {
+                for (const [path, statusCode] of [
+                    ['/stats/heartbeats?from=2025-03-01T00:00:00Z', 200],
+                    ['/stats/heartbeats?device=office', 400],
+                ] as const) {
+                    const response = await fastify.inject({
+                        method: 'GET',
+                        url: path,
+                        headers: buildAuthHeaders('GET', path, '', testApiSecret),
+                    });
+
+                    assert.strictEqual(response.statusCode, statusCode);
+                }
+
+                assert.deepStrictEqual(deviceIds, [1]);
+            } finally {
+                deviceService.getDeviceByName = originalGetDeviceByName;
+                statsService.getHeartbeatReport = originalGetHeartbeatReport;
+            }
+        });
+    });
+
+    describe('GET /stats/uptime', () => {
+        let fastify: FastifyInstance;
+        const testApiSecret = 'test-stats-secret-32-characters-long';
+        const device: Device = {
+            id: 1,
+            name: 'default',
+            label: null,
+            heartbeat_timeout: null,
+            created_at: new Date('2025-01-01T00:00:00Z'),
+        };
+
+        before(async () => {
+            process.env.API_SECRET = testApiSecret;
+
+            fastify = Fastify({ logger: false });
+            await registerRawBodyCapture(fastify);
+            await fastify.register(statsRoutes);
+            await fastify.ready();
+        });
+
+        after(async () => {
+            await fastify.close();
+        });
+
+        it('should pass the window, granularity and default device to the service', async () => {
+            const originalGetDeviceByName = deviceService.getDeviceByName;
+            const originalGetUptimeReport = statsService.getUptimeReport;
+            const calls: Array<{
+                from: Date;
+                to: Date;
+                granularity: StatsGranularity | null;
+                deviceId?: number;
+            }> = [];
+
+            deviceService.getDeviceByName = async (name: string) =>
+                name === 'default' ? device : null;
+            statsService.getUptimeReport = async (
+                reportFrom: Date,
+                reportTo: Date,
+                granularity: StatsGranularity | null = null,
+                deviceId?: number
+            ) => {
+                calls.push({ from: reportFrom, to: reportTo, granularity, deviceId });
+                return {
+                    granularity,
+                    summary: computeUptimeStats([], { from: reportFrom, to: reportTo }),
+                    periods: [],
+                };
+            };
+
+            try {
+                const path =
+                    '/stats/uptime?from=2025-03-01T00:00:00Z&to=2025-03-02T00:00:00Z&granularity=day';
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: path,
+                    headers: buildAuthHeaders('GET', path, '', testApiSecret),
+                });
+
+                assert.strictEqual(response.statusCode, 200);
+                assert.deepStrictEqual(calls, [{ from, to, granularity: 'day', deviceId: 1 }]);
+                const body = JSON.parse(response.body) as { summary: { availability: number } };
+                assert.strictEqual(body.summary.availability, 100);
+            } finally {
+                deviceService.getDeviceByName = originalGetDeviceByName;
+                statsService.getUptimeReport = originalGetUptimeReport;
+            }
+        });
+
+        it('should reject inverted windows and unknown granularities', async () => {
+            for (const path of [
+                '/stats/uptime?from=2025-03-02T00:00:00Z&to=2025-03-01T00:00:00Z',
+                '/stats/uptime?granularity=year',
+            ]) {
+                const response = await fastify.inject({
+                    method: 'GET',
+                    url: path,
+                    headers: buildAuthHeaders('GET', path, '', testApiSecret),
+                });
+
+                assert.strictEqual(response.statusCode, 400);
+            }
+        });
+    });
+});
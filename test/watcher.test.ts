@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { getWatcherOfflinePeriods, type WatcherPeriod } from '../src/services/watcher.js';
+
+function period(
+    id: number,
+    startedAt: string,
+    lastSeenAt: string,
+    stoppedAt: string | null,
+    stopReason: WatcherPeriod['stop_reason'] = stoppedAt ? 'graceful' : null
+): WatcherPeriod {
+    return {
+        id,
+        started_at: new Date(`2025-04-01T${startedAt}:00Z`),
+        last_seen_at: new Date(`2025-04-01T${lastSeenAt}:00Z`),
+        stopped_at: stoppedAt ? new Date(`2025-04-01T${stoppedAt}:00Z`) : null,
+        stop_reason: stopReason,
+    };
+}
+
+describe('getWatcherOfflinePeriods', () => {
+    it('should return the periods between a stop or crash and the next start', () => {
+        const offlinePeriods = getWatcherOfflinePeriods([
+            period(1, '08:00', '09:00', '09:00'),
+            period(2, '09:30', '10:12', '10:12', 'crash'),
+            period(3, '11:00', '11:05', null),
+        ]);
+
+        assert.deepStrictEqual(offlinePeriods, [
+            { from: new Date('2025-04-01T09:00:00Z'), to: new Date('2025-04-01T09:30:00Z') },
+            { from: new Date('2025-04-01T10:12:00Z'), to: new Date('2025-04-01T11:00:00Z') },
+        ]);
+    });
+
+    it('should leave the period after the last stop open', () => {
+        assert.deepStrictEqual(getWatcherOfflinePeriods([period(1, '08:00', '09:00', '09:00')]), [
+            { from: new Date('2025-04-01T09:00:00Z'), to: null },
+        ]);
+    });
+
+    it('should infer the end of a run that has not been closed from its last sign of life', () => {
+        assert.deepStrictEqual(
+            getWatcherOfflinePeriods([
+                period(1, '08:00', '08:40', null),
+                period(2, '09:00', '09:00', null),
+            ]),
+            [{ from: new Date('2025-04-01T08:40:00Z'), to: new Date('2025-04-01T09:00:00Z') }]
+        );
+    });
+});